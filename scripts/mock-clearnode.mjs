@@ -0,0 +1,547 @@
+// Local mock ClearNode — speaks the Nitrolite req/res envelope over WebSocket
+//
+//   npm run mock:clearnode
+//   NEXT_PUBLIC_YELLOW_WS=ws://localhost:8547/ws npm run dev
+//
+// Implements the subset of the ClearNode RPC the app uses: auth_request / auth_verify
+// (EIP-712 challenge + JWT re-auth), get_ledger_balances, get_ledger_transactions,
+// get_assets, get_channels, transfer, create_channel, resize_channel, close_channel and ping. Balance changes are pushed
+// as `bu`, incoming transfers as `tr` and channel changes as `cu`.
+//
+// Faults can be injected at startup (MOCK_FAULTS) or at runtime over HTTP on the same port:
+//   POST   /faults  {"method":"transfer","mode":"error"|"timeout"|"drop","message":"...","times":1}
+//   DELETE /faults
+//   POST   /fund    {"wallet":"0x...","amount":"25","asset":"ytest.usd"}  (recorded as a ledger deposit)
+//   POST   /transfer-pushes {"balanceFirst":true,"duplicate":true}  push the recipient's `bu` before its
+//          `tr`, and/or the `tr` twice (exercises incoming payment deduplication)
+//   POST   /drop    close every open socket (exercises the reconnect supervisor)
+//   POST   /reset   forget all wallets, sessions, channels and ledger transactions
+//   GET    /state
+//
+// Environment:
+//   MOCK_CLEARNODE_PORT  listen port (default 8547)
+//   MOCK_ASSET           ledger asset (default ytest.usd)
+//   MOCK_BALANCE         opening ledger balance for new wallets (default 100)
+//   MOCK_CHANNEL_AMOUNT  raw token amount of the channel opened for new wallets (default 10000000, 0 = none)
+//   MOCK_CHAIN_ID        chain of the mock channels (default 84532, Base Sepolia)
+//   MOCK_TOKEN           token address of the mock channels
+//   MOCK_TOKEN_DECIMALS  decimals reported for it by get_assets (default 6)
+//   MOCK_LATENCY_MS      delay before every response (default 0)
+//   MOCK_FAULTS          comma list of method:mode[:message], applied to every matching request
+
+import { createServer } from 'node:http'
+import { randomBytes, randomUUID } from 'node:crypto'
+import { WebSocketServer } from 'ws'
+import { keccak256, toHex, recoverAddress, verifyTypedData, isAddress } from 'viem'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { EIP712AuthTypes } from '@erc7824/nitrolite'
+
+const PORT = Number(process.env.MOCK_CLEARNODE_PORT || 8547)
+const ASSET = process.env.MOCK_ASSET || 'ytest.usd'
+const OPENING_BALANCE = process.env.MOCK_BALANCE || '100'
+const CHANNEL_AMOUNT = BigInt(process.env.MOCK_CHANNEL_AMOUNT || '10000000')
+const CHAIN_ID = Number(process.env.MOCK_CHAIN_ID || 84532)
+const TOKEN = process.env.MOCK_TOKEN || '0x036CbD53842c5426634e7929541eC2318f3dCF7e'
+const TOKEN_DECIMALS = Number(process.env.MOCK_TOKEN_DECIMALS || 6)
+const ADJUDICATOR = '0x7c7ccbc98469190849BCC6c926307794fDfB11F2'
+const LATENCY_MS = Number(process.env.MOCK_LATENCY_MS || 0)
+const CHALLENGE_PERIOD = 3600
+
+// Public methods: no session key signature and no prior auth_verify required
+const PUBLIC_METHODS = new Set([
+  'auth_request',
+  'auth_verify',
+  'ping',
+  'get_assets',
+  'get_channels',
+  'get_ledger_transactions',
+])
+
+// StateIntent values from the custody contract
+const INTENT = { INITIALIZE: 1, RESIZE: 2, FINALIZE: 3 }
+
+// The broker is the ClearNode's own participant in every channel
+const broker = privateKeyToAccount(generatePrivateKey())
+
+// ─── State ───
+
+let wallets = new Map() // wallet (lowercase) → { address, balances: Map<asset, string> }
+let sessions = new Map() // jwt → { wallet, sessionKey, expiresAt }
+let channels = new Map() // channelId → channel
+let ledger = [] // ledger transactions, oldest first
+let faults = parseFaults(process.env.MOCK_FAULTS)
+let transferPushes = { balanceFirst: false, duplicate: false } // how a transfer is announced to its recipient
+let nextTxId = 1
+let nextNonce = 1
+
+function parseFaults(value) {
+  if (!value) return []
+  return value.split(',').filter(Boolean).map(entry => {
+    const [method, mode = 'error', ...message] = entry.split(':')
+    return { method, mode, message: message.join(':') || undefined, times: Infinity }
+  })
+}
+
+// ─── Decimal helpers (ledger balances are decimal strings) ───
+
+const SCALE = 18
+
+function toUnits(value) {
+  const [whole, fraction = ''] = String(value).trim().split('.')
+  const negative = whole.startsWith('-')
+  const units = BigInt(whole.replace('-', '') || '0') * 10n ** BigInt(SCALE)
+    + BigInt((fraction + '0'.repeat(SCALE)).slice(0, SCALE) || '0')
+  return negative ? -units : units
+}
+
+function fromUnits(units) {
+  const negative = units < 0n
+  const abs = negative ? -units : units
+  const whole = abs / 10n ** BigInt(SCALE)
+  const fraction = (abs % 10n ** BigInt(SCALE)).toString().padStart(SCALE, '0').replace(/0+$/, '')
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`
+}
+
+function isDecimal(value) {
+  return typeof value === 'string' && /^\d+(\.\d+)?$/.test(value)
+}
+
+// ─── Wallets & channels ───
+
+function getWallet(address) {
+  const key = address.toLowerCase()
+  let wallet = wallets.get(key)
+  if (!wallet) {
+    wallet = { address, balances: new Map([[ASSET, OPENING_BALANCE]]) }
+    wallets.set(key, wallet)
+    if (CHANNEL_AMOUNT > 0n) openChannel(address, CHAIN_ID, TOKEN, CHANNEL_AMOUNT)
+  }
+  return wallet
+}
+
+function credit(address, asset, amount) {
+  const wallet = getWallet(address)
+  const current = toUnits(wallet.balances.get(asset) || '0')
+  wallet.balances.set(asset, fromUnits(current + toUnits(amount)))
+}
+
+function balancesOf(address) {
+  return [...getWallet(address).balances].map(([asset, amount]) => ({ asset, amount }))
+}
+
+function openChannel(wallet, chainId, token, amount = 0n) {
+  const now = new Date().toISOString()
+  const channel = {
+    channel_id: toHex(randomBytes(32)),
+    participant: wallet,
+    wallet,
+    status: 'open',
+    token,
+    amount: amount.toString(),
+    chain_id: chainId,
+    adjudicator: ADJUDICATOR,
+    challenge: CHALLENGE_PERIOD,
+    nonce: nextNonce++,
+    version: 0,
+    created_at: now,
+    updated_at: now,
+  }
+  channels.set(channel.channel_id, channel)
+  return channel
+}
+
+function channelsOf(wallet) {
+  return [...channels.values()].filter(c => c.wallet.toLowerCase() === wallet.toLowerCase())
+}
+
+function updateChannel(channel, changes) {
+  Object.assign(channel, changes, { version: channel.version + 1, updated_at: new Date().toISOString() })
+}
+
+// Ledger transaction in the wire format of get_ledger_transactions / `tr`
+function recordTx(txType, fromAccount, toAccount, asset, amount) {
+  const tx = {
+    id: nextTxId++,
+    tx_type: txType,
+    from_account: fromAccount,
+    to_account: toAccount,
+    asset,
+    amount,
+    created_at: new Date().toISOString(),
+  }
+  ledger.push(tx)
+  return tx
+}
+
+// Channel operation result (create/resize/close): the new state co-signed by the broker
+async function channelOperation(channel, intent, userAmount, destination) {
+  const state = {
+    intent,
+    version: channel.version,
+    state_data: '0x',
+    allocations: [
+      { destination, token: channel.token, amount: userAmount.toString() },
+      { destination: broker.address, token: channel.token, amount: '0' },
+    ],
+  }
+  const server_signature = await broker.sign({ hash: keccak256(toHex(JSON.stringify(state))) })
+  return { channel_id: channel.channel_id, state, server_signature }
+}
+
+// ─── Envelope ───
+
+const clients = new Set() // open sockets: { ws, wallet?, sessionKey?, challenge? }
+
+async function send(client, requestId, method, params) {
+  const res = [requestId, method, params, Date.now()]
+  const signature = await broker.sign({ hash: keccak256(toHex(JSON.stringify(res))) })
+  if (client.ws.readyState === client.ws.OPEN) {
+    client.ws.send(JSON.stringify({ res, sig: [signature] }))
+  }
+}
+
+function sendError(client, requestId, message) {
+  return send(client, requestId, 'error', { error: message })
+}
+
+// Server push to every authenticated socket of a wallet
+function push(wallet, method, params) {
+  for (const client of clients) {
+    if (client.wallet?.toLowerCase() === wallet.toLowerCase()) {
+      send(client, Date.now(), method, params)
+    }
+  }
+}
+
+function pushBalances(wallet) {
+  push(wallet, 'bu', { balance_updates: balancesOf(wallet) })
+}
+
+function pushChannel(channel) {
+  const update = { ...channel }
+  delete update.wallet
+  push(channel.wallet, 'cu', update)
+}
+
+// ─── Handlers ───
+
+class RpcError extends Error {}
+
+function requireString(params, field) {
+  if (typeof params?.[field] !== 'string' || !params[field]) throw new RpcError(`missing ${field}`)
+  return params[field]
+}
+
+function requireChannel(client, channelId) {
+  const channel = channels.get(channelId)
+  if (!channel || channel.wallet.toLowerCase() !== client.wallet.toLowerCase()) {
+    throw new RpcError(`channel ${channelId} not found`)
+  }
+  if (channel.status !== 'open') throw new RpcError(`channel ${channelId} is ${channel.status}`)
+  return channel
+}
+
+const handlers = {
+  ping: () => ['pong', {}],
+
+  auth_request(client, params) {
+    const address = requireString(params, 'address')
+    const sessionKey = requireString(params, 'session_key')
+    if (!isAddress(address) || !isAddress(sessionKey)) throw new RpcError('invalid address')
+
+    client.challenge = { ...params, challenge_message: randomUUID() }
+    return ['auth_challenge', { challenge_message: client.challenge.challenge_message }]
+  },
+
+  async auth_verify(client, params, signatures) {
+    // JWT re-authentication (no wallet signature)
+    if (params?.jwt) {
+      const session = sessions.get(params.jwt)
+      if (!session || session.expiresAt * 1000 <= Date.now()) {
+        sessions.delete(params.jwt)
+        throw new RpcError('invalid or expired jwt')
+      }
+      Object.assign(client, { wallet: session.wallet, sessionKey: session.sessionKey })
+      return ['auth_verify', { address: session.wallet, session_key: session.sessionKey, success: true }]
+    }
+
+    const request = client.challenge
+    if (!request || params?.challenge !== request.challenge_message) throw new RpcError('invalid challenge')
+
+    // EIP-712 Policy signed by the main wallet, domain name = application
+    const valid = await verifyTypedData({
+      address: request.address,
+      domain: { name: request.application },
+      types: EIP712AuthTypes,
+      primaryType: 'Policy',
+      message: {
+        challenge: request.challenge_message,
+        scope: request.scope,
+        wallet: request.address,
+        session_key: request.session_key,
+        expires_at: BigInt(request.expires_at),
+        allowances: request.allowances,
+      },
+      signature: signatures[0],
+    }).catch(() => false)
+    if (!valid) throw new RpcError('invalid challenge signature')
+
+    const jwt = `mock.${randomBytes(24).toString('hex')}`
+    sessions.set(jwt, { wallet: request.address, sessionKey: request.session_key, expiresAt: Number(request.expires_at) })
+    Object.assign(client, { wallet: request.address, sessionKey: request.session_key, challenge: undefined })
+    getWallet(request.address)
+
+    return ['auth_verify', { address: request.address, session_key: request.session_key, success: true, jwt_token: jwt }]
+  },
+
+  get_ledger_balances: client => ['get_ledger_balances', { ledger_balances: balancesOf(client.wallet) }],
+
+  get_assets(client, params) {
+    const chainId = params?.chain_id === undefined ? undefined : Number(params.chain_id)
+    const assets = [{ token: TOKEN, chain_id: CHAIN_ID, symbol: ASSET, decimals: TOKEN_DECIMALS }]
+    return ['get_assets', { assets: assets.filter(a => chainId === undefined || a.chain_id === chainId) }]
+  },
+
+  get_ledger_transactions(client, params) {
+    const account = requireString(params, 'account_id').toLowerCase()
+    const offset = Math.max(0, Number(params.offset) || 0)
+    const limit = Math.min(100, Math.max(1, Number(params.limit) || 10))
+
+    const matching = ledger.filter(tx =>
+      (tx.from_account.toLowerCase() === account || tx.to_account.toLowerCase() === account) &&
+      (!params.tx_type || tx.tx_type === params.tx_type) &&
+      (!params.asset || tx.asset === params.asset))
+    if (params.sort !== 'asc') matching.reverse()
+
+    return ['get_ledger_transactions', { ledger_transactions: matching.slice(offset, offset + limit) }]
+  },
+
+  get_channels(client, params) {
+    const participant = params?.participant || client.wallet
+    if (!participant) throw new RpcError('missing participant')
+    return ['get_channels', { channels: channelsOf(participant) }]
+  },
+
+  transfer(client, params) {
+    const destination = requireString(params, 'destination')
+    if (!isAddress(destination)) throw new RpcError('invalid destination')
+    if (!Array.isArray(params.allocations) || params.allocations.length === 0) throw new RpcError('missing allocations')
+
+    const sender = getWallet(client.wallet)
+    for (const { asset, amount } of params.allocations) {
+      if (!isDecimal(amount) || toUnits(amount) <= 0n) throw new RpcError(`invalid amount for ${asset}`)
+      if (toUnits(sender.balances.get(asset) || '0') < toUnits(amount)) {
+        throw new RpcError(`insufficient funds: ${asset}`)
+      }
+    }
+
+    const transactions = params.allocations.map(({ asset, amount }) => {
+      credit(client.wallet, asset, `-${amount}`)
+      credit(destination, asset, amount)
+      return recordTx('transfer', client.wallet, destination, asset, amount)
+    })
+
+    if (transferPushes.balanceFirst) pushBalances(destination)
+    push(destination, 'tr', { transactions })
+    if (transferPushes.duplicate) push(destination, 'tr', { transactions })
+    if (!transferPushes.balanceFirst) pushBalances(destination)
+    pushBalances(client.wallet)
+    return ['transfer', { transactions }]
+  },
+
+  async create_channel(client, params) {
+    const chainId = Number(params?.chain_id)
+    const token = requireString(params, 'token')
+    if (!chainId || !isAddress(token)) throw new RpcError('invalid chain_id or token')
+
+    const channel = openChannel(client.wallet, chainId, token)
+    pushChannel(channel)
+    const operation = await channelOperation(channel, INTENT.INITIALIZE, 0n, client.wallet)
+    return ['create_channel', {
+      ...operation,
+      channel: {
+        participants: [client.wallet, broker.address],
+        adjudicator: channel.adjudicator,
+        challenge: channel.challenge,
+        nonce: channel.nonce,
+      },
+    }]
+  },
+
+  async resize_channel(client, params) {
+    const channel = requireChannel(client, requireString(params, 'channel_id'))
+    const destination = requireString(params, 'funds_destination')
+    const delta = BigInt(params.resize_amount ?? 0) + BigInt(params.allocate_amount ?? 0)
+    const amount = BigInt(channel.amount) + delta
+    if (amount < 0n) throw new RpcError('insufficient channel balance')
+
+    updateChannel(channel, { amount: amount.toString() })
+    pushChannel(channel)
+    return ['resize_channel', await channelOperation(channel, INTENT.RESIZE, amount, destination)]
+  },
+
+  async close_channel(client, params) {
+    const channel = requireChannel(client, requireString(params, 'channel_id'))
+    const destination = requireString(params, 'funds_destination')
+
+    const finalAmount = BigInt(channel.amount)
+    updateChannel(channel, { status: 'closed', amount: '0' })
+    pushChannel(channel)
+    return ['close_channel', await channelOperation(channel, INTENT.FINALIZE, finalAmount, destination)]
+  },
+}
+
+// ─── Fault injection ───
+
+function takeFault(method) {
+  const index = faults.findIndex(f => f.method === method || f.method === '*')
+  if (index === -1) return null
+  const fault = faults[index]
+  fault.times -= 1
+  if (fault.times <= 0) faults.splice(index, 1)
+  return fault
+}
+
+// ─── Request dispatch ───
+
+async function handleRequest(client, raw) {
+  let requestId = 0
+  try {
+    const message = JSON.parse(raw)
+    if (!Array.isArray(message.req) || message.req.length !== 4) throw new RpcError('invalid request')
+    const [id, method, params] = message.req
+    requestId = id
+
+    if (LATENCY_MS) await new Promise(resolve => setTimeout(resolve, LATENCY_MS))
+
+    const fault = takeFault(method)
+    if (fault?.mode === 'timeout') return // never answer
+    if (fault?.mode === 'drop') {
+      client.ws.terminate()
+      return
+    }
+    if (fault) throw new RpcError(fault.message || `injected ${method} failure`)
+
+    const handler = handlers[method]
+    if (!handler) throw new RpcError(`unsupported method: ${method}`)
+
+    if (!PUBLIC_METHODS.has(method)) {
+      if (!client.wallet) throw new RpcError('authentication required')
+      // Private methods must be signed by the authenticated session key
+      const signature = message.sig?.[0]
+      const signer = signature
+        ? await recoverAddress({ hash: keccak256(toHex(JSON.stringify(message.req))), signature }).catch(() => null)
+        : null
+      if (signer?.toLowerCase() !== client.sessionKey.toLowerCase()) throw new RpcError('invalid signature')
+    }
+
+    const [responseMethod, responseParams] = await handler(client, params, message.sig || [])
+    await send(client, requestId, responseMethod, responseParams)
+  } catch (error) {
+    const message = error instanceof RpcError ? error.message : 'internal error'
+    if (!(error instanceof RpcError)) console.error('[mock-clearnode]', error)
+    await sendError(client, requestId, message)
+  }
+}
+
+// ─── HTTP control API ───
+
+function readJson(req) {
+  return new Promise((resolve, reject) => {
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {})
+      } catch (error) {
+        reject(error)
+      }
+    })
+  })
+}
+
+function reply(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' })
+  res.end(JSON.stringify(body))
+}
+
+async function handleControl(req, res) {
+  try {
+    const route = `${req.method} ${new URL(req.url, 'http://localhost').pathname}`
+    switch (route) {
+      case 'GET /state':
+        return reply(res, 200, {
+          broker: broker.address,
+          wallets: [...wallets.values()].map(w => ({ address: w.address, balances: balancesOf(w.address) })),
+          channels: [...channels.values()],
+          sessions: sessions.size,
+          connections: clients.size,
+          faults,
+        })
+      case 'POST /faults': {
+        const { method, mode = 'error', message, times = 1 } = await readJson(req)
+        if (!method || !['error', 'timeout', 'drop'].includes(mode)) return reply(res, 400, { error: 'method and mode required' })
+        faults.push({ method, mode, message, times })
+        return reply(res, 200, { faults })
+      }
+      case 'DELETE /faults':
+        faults = []
+        return reply(res, 200, { faults })
+      case 'POST /fund': {
+        const { wallet, amount, asset = ASSET } = await readJson(req)
+        if (!isAddress(wallet ?? '') || !isDecimal(amount)) return reply(res, 400, { error: 'wallet and amount required' })
+        credit(wallet, asset, amount)
+        recordTx('deposit', wallet, wallet, asset, amount)
+        pushBalances(wallet)
+        return reply(res, 200, { balances: balancesOf(wallet) })
+      }
+      case 'POST /transfer-pushes': {
+        const { balanceFirst = false, duplicate = false } = await readJson(req)
+        transferPushes = { balanceFirst: !!balanceFirst, duplicate: !!duplicate }
+        return reply(res, 200, { transferPushes })
+      }
+      case 'POST /drop':
+        for (const client of clients) client.ws.terminate()
+        return reply(res, 200, { dropped: true })
+      case 'POST /reset':
+        wallets = new Map()
+        sessions = new Map()
+        channels = new Map()
+        ledger = []
+        faults = []
+        transferPushes = { balanceFirst: false, duplicate: false }
+        return reply(res, 200, { reset: true })
+      default:
+        return reply(res, 404, { error: 'not found' })
+    }
+  } catch {
+    return reply(res, 400, { error: 'invalid request body' })
+  }
+}
+
+// ─── Server ───
+
+const server = createServer(handleControl)
+const wss = new WebSocketServer({ server })
+
+wss.on('connection', ws => {
+  const client = { ws }
+  clients.add(client)
+  ws.on('message', data => handleRequest(client, data.toString()))
+  ws.on('close', () => clients.delete(client))
+})
+
+server.listen(PORT, () => {
+  console.log(`[mock-clearnode] listening on ws://localhost:${PORT}/ws (broker ${broker.address})`)
+  console.log(`[mock-clearnode] asset ${ASSET}, opening balance ${OPENING_BALANCE}, latency ${LATENCY_MS}ms`)
+  if (faults.length) console.log('[mock-clearnode] faults:', faults)
+})
+
+function shutdown() {
+  for (const client of clients) client.ws.terminate()
+  wss.close()
+  server.close(() => process.exit(0))
+}
+
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
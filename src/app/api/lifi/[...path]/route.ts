@@ -0,0 +1,232 @@
+// LI.FI proxy — the browser talks to /api/lifi/*, this forwards to li.quest with the
+// server-only API key. Only the endpoints and query params the app uses get through,
+// only for requests from the app's own pages, and at most RATE_LIMIT per client IP
+// per window, so the key's quota can't be spent by other sites.
+//
+// The origin check only stops browsers: a script can send any Origin or Sec-Fetch-Site
+// header. Against scripts the per-IP rate limit is the protection, so the IP is taken
+// from what the trusted proxy appends to X-Forwarded-For, never the client-set entries.
+
+import { NextResponse, type NextRequest } from 'next/server'
+
+const UPSTREAM_URL = process.env.LIFI_API_URL || 'https://li.quest/v1'
+const API_KEY = process.env.LIFI_API_KEY
+
+const UPSTREAM_TIMEOUT_MS = 30_000
+const MAX_BODY_LENGTH = 256 * 1024
+const MAX_PARAM_LENGTH = 256
+
+// Per client IP, per server instance (in memory — a shared store would be needed to
+// enforce it across instances)
+const RATE_LIMIT = 120
+const RATE_WINDOW_MS = 60_000
+const MAX_TRACKED_CLIENTS = 10_000
+
+// Proxies in front of the app that append to X-Forwarded-For (e.g. 1 on Vercel or behind
+// a single nginx); the client IP is the entry this many hops from the right
+const TRUSTED_PROXY_HOPS = Math.max(1, Number(process.env.LIFI_PROXY_TRUSTED_HOPS) || 1)
+
+// Other origins allowed to call the proxy (comma-separated), e.g. a preview domain
+const ALLOWED_ORIGINS = new Set(
+  (process.env.LIFI_PROXY_ALLOWED_ORIGINS ?? '').split(',').map(o => o.trim()).filter(Boolean)
+)
+
+// Static lists: let the browser and CDN keep them, and serve stale while refreshing
+const STATIC_CACHE_CONTROL = 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400'
+
+// Rate-limit headers passed back so the client can budget its requests
+const FORWARDED_HEADERS = [
+  'retry-after',
+  'ratelimit-limit',
+  'ratelimit-remaining',
+  'ratelimit-reset',
+  'x-ratelimit-limit',
+  'x-ratelimit-remaining',
+  'x-ratelimit-reset',
+]
+
+type ParamKind = 'int' | 'intList' | 'decimal' | 'address' | 'hash' | 'key'
+
+const PARAM_PATTERNS: Record<ParamKind, RegExp> = {
+  int: /^\d{1,78}$/,
+  intList: /^\d{1,12}(,\d{1,12})*$/,
+  decimal: /^\d{1,6}(\.\d{1,18})?$/,
+  address: /^(0x[0-9a-fA-F]{40}|[1-9A-HJ-NP-Za-km-z]{32,44})$/, // EVM, or base58 (Solana)
+  hash: /^(0x[0-9a-fA-F]{64}|[1-9A-HJ-NP-Za-km-z]{43,88})$/,
+  key: /^[A-Za-z0-9_-]{1,64}$/,
+}
+
+const QUOTE_PARAMS: Record<string, ParamKind> = {
+  fromChain: 'int',
+  toChain: 'int',
+  fromToken: 'address',
+  toToken: 'address',
+  fromAddress: 'address',
+  toAddress: 'address',
+  fromAmountForGas: 'int',
+  slippage: 'decimal',
+  order: 'key',
+  maxPriceImpact: 'decimal',
+  integrator: 'key',
+  fee: 'decimal',
+  allowBridges: 'key',
+  denyBridges: 'key',
+  preferBridges: 'key',
+  allowExchanges: 'key',
+  denyExchanges: 'key',
+  preferExchanges: 'key',
+}
+
+interface Endpoint {
+  method: 'GET' | 'POST'
+  params?: Record<string, ParamKind>
+  cacheable?: boolean
+}
+
+// Keyed by the path under /v1
+const ENDPOINTS: Record<string, Endpoint> = {
+  'quote': { method: 'GET', params: { ...QUOTE_PARAMS, fromAmount: 'int' } },
+  'quote/toAmount': { method: 'GET', params: { ...QUOTE_PARAMS, toAmount: 'int' } },
+  'advanced/routes': { method: 'POST' },
+  'advanced/stepTransaction': { method: 'POST' },
+  'chains': { method: 'GET', params: { chainTypes: 'key' }, cacheable: true },
+  'tokens': { method: 'GET', params: { chains: 'intList', chainTypes: 'key' }, cacheable: true },
+  'tools': { method: 'GET', params: { chains: 'intList' }, cacheable: true },
+  'status': { method: 'GET', params: { txHash: 'hash', fromChain: 'int', toChain: 'int', bridge: 'key' } },
+}
+
+function errorResponse(status: number, message: string, headers: Record<string, string> = {}) {
+  return NextResponse.json({ message }, { status, headers: { 'Cache-Control': 'no-store', ...headers } })
+}
+
+// ─── Access ───
+
+function originOf(url: string | null): string | null {
+  if (!url) return null
+  try {
+    return new URL(url).origin
+  } catch {
+    return null
+  }
+}
+
+// Same-site browser requests only: Sec-Fetch-Site where the browser sends it, else the
+// Origin (or Referer) must be this deployment or an allowed origin
+function isSameSite(request: NextRequest): boolean {
+  const fetchSite = request.headers.get('sec-fetch-site')
+  if (fetchSite && fetchSite !== 'same-origin' && fetchSite !== 'same-site') return false
+
+  const origin = originOf(request.headers.get('origin')) ?? originOf(request.headers.get('referer'))
+  if (!origin) return fetchSite !== null
+  return origin === request.nextUrl.origin || ALLOWED_ORIGINS.has(origin)
+}
+
+// The address the trusted proxy saw: entries left of it are whatever the client sent.
+// Without X-Forwarded-For, X-Real-IP as set by the proxy.
+function clientIp(request: NextRequest): string {
+  const hops = (request.headers.get('x-forwarded-for') ?? '').split(',').map(h => h.trim()).filter(Boolean)
+  return hops[Math.max(0, hops.length - TRUSTED_PROXY_HOPS)]
+    || request.headers.get('x-real-ip')?.trim()
+    || 'unknown'
+}
+
+// Fixed window per client IP
+const windows = new Map<string, { startedAt: number; count: number }>()
+
+// Milliseconds until `ip` may send again; 0 when the request is within the limit
+function rateLimitDelay(ip: string): number {
+  const now = Date.now()
+  if (windows.size > MAX_TRACKED_CLIENTS) {
+    for (const [key, w] of windows) {
+      if (now - w.startedAt >= RATE_WINDOW_MS) windows.delete(key)
+    }
+  }
+
+  const current = windows.get(ip)
+  if (!current || now - current.startedAt >= RATE_WINDOW_MS) {
+    windows.set(ip, { startedAt: now, count: 1 })
+    return 0
+  }
+  if (current.count >= RATE_LIMIT) return current.startedAt + RATE_WINDOW_MS - now
+  current.count++
+  return 0
+}
+
+// Only whitelisted params with well-formed values; the reason as a string otherwise
+function validateParams(searchParams: URLSearchParams, allowed: Record<string, ParamKind> = {}): URLSearchParams | string {
+  const forwarded = new URLSearchParams()
+  for (const [name, value] of searchParams) {
+    const kind = allowed[name]
+    if (!kind) return `Unsupported parameter: ${name}`
+    if (value.length > MAX_PARAM_LENGTH || !PARAM_PATTERNS[kind].test(value)) return `Invalid value for ${name}`
+    forwarded.append(name, value)
+  }
+  return forwarded
+}
+
+async function proxy(request: NextRequest, path: string[]) {
+  if (!isSameSite(request)) return errorResponse(403, 'The LI.FI proxy only serves this app')
+  const wait = rateLimitDelay(clientIp(request))
+  if (wait > 0) {
+    return errorResponse(429, 'Too many LI.FI requests — try again shortly', { 'Retry-After': String(Math.ceil(wait / 1000)) })
+  }
+
+  const endpointPath = path.join('/')
+  const endpoint = ENDPOINTS[endpointPath]
+  if (!endpoint) return errorResponse(404, `Unsupported LI.FI endpoint: /${endpointPath}`)
+  if (request.method !== endpoint.method) return errorResponse(405, `Use ${endpoint.method} for /${endpointPath}`)
+
+  const params = validateParams(request.nextUrl.searchParams, endpoint.params)
+  if (typeof params === 'string') return errorResponse(400, params)
+
+  const headers: Record<string, string> = { 'Accept': 'application/json' }
+  if (API_KEY) headers['x-lifi-api-key'] = API_KEY
+
+  let body: string | undefined
+  if (endpoint.method === 'POST') {
+    body = await request.text()
+    if (body.length > MAX_BODY_LENGTH) return errorResponse(413, 'Request body too large')
+    try {
+      JSON.parse(body)
+    } catch {
+      return errorResponse(400, 'Request body must be JSON')
+    }
+    headers['Content-Type'] = 'application/json'
+  }
+
+  const query = params.toString()
+  let upstream: Response
+  try {
+    upstream = await fetch(`${UPSTREAM_URL}/${endpointPath}${query ? `?${query}` : ''}`, {
+      method: endpoint.method,
+      headers,
+      body,
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+      cache: 'no-store',
+    })
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'TimeoutError'
+    return errorResponse(timedOut ? 504 : 502, timedOut ? 'LI.FI did not respond in time' : 'Could not reach LI.FI')
+  }
+
+  const responseHeaders = new Headers({
+    'Content-Type': upstream.headers.get('content-type') ?? 'application/json',
+    'Cache-Control': endpoint.cacheable && upstream.ok ? STATIC_CACHE_CONTROL : 'no-store',
+  })
+  for (const name of FORWARDED_HEADERS) {
+    const value = upstream.headers.get(name)
+    if (value !== null) responseHeaders.set(name, value)
+  }
+
+  return new NextResponse(await upstream.text(), { status: upstream.status, headers: responseHeaders })
+}
+
+type RouteContext = { params: Promise<{ path: string[] }> }
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  return proxy(request, (await params).path)
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  return proxy(request, (await params).path)
+}
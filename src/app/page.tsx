@@ -8,6 +8,7 @@ import { FundAccount } from '@/components/FundAccount'
 import { WithdrawForm } from '@/components/WithdrawForm'
 import { TxHistory } from '@/components/TxHistory'
 import { EarnDashboard } from '@/components/EarnDashboard'
+import { IncomingPaymentToasts } from '@/components/IncomingPaymentToasts'
 
 type Tab = 'pay' | 'fund' | 'withdraw' | 'earn' | 'history'
 
@@ -80,38 +81,40 @@ function HomeContent() {
         </div>
       </header>
 
-      {/* Main content */}
-      <div className="max-w-md mx-auto px-4 py-12">
-        <div className="text-center mb-8">
-          <h2 className="text-3xl font-bold text-white mb-2">{title}</h2>
-          <p className="text-gray-400">{subtitle}</p>
+      {/* Main content — its forms' Yellow clients feed the incoming payment toasts */}
+      <IncomingPaymentToasts>
+        <div className="max-w-md mx-auto px-4 py-12">
+          <div className="text-center mb-8">
+            <h2 className="text-3xl font-bold text-white mb-2">{title}</h2>
+            <p className="text-gray-400">{subtitle}</p>
+          </div>
+
+          {/* Tab navigation */}
+          <div className="flex mb-6 bg-gray-900 rounded-lg p-1 border border-gray-800">
+            {(Object.keys(TAB_CONFIG) as Tab[]).map(tab => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`flex-1 py-2.5 text-sm font-medium rounded-md transition-colors ${
+                  activeTab === tab
+                    ? 'bg-gray-700 text-white'
+                    : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                {TAB_CONFIG[tab].label}
+              </button>
+            ))}
+          </div>
+
+          {activeTab === 'pay' && (
+            <PaymentForm prefill={prefill} onPrefillConsumed={handlePrefillConsumed} />
+          )}
+          {activeTab === 'fund' && <FundAccount />}
+          {activeTab === 'withdraw' && <WithdrawForm />}
+          {activeTab === 'earn' && <EarnDashboard />}
+          {activeTab === 'history' && <TxHistory />}
         </div>
-
-        {/* Tab navigation */}
-        <div className="flex mb-6 bg-gray-900 rounded-lg p-1 border border-gray-800">
-          {(Object.keys(TAB_CONFIG) as Tab[]).map(tab => (
-            <button
-              key={tab}
-              onClick={() => setActiveTab(tab)}
-              className={`flex-1 py-2.5 text-sm font-medium rounded-md transition-colors ${
-                activeTab === tab
-                  ? 'bg-gray-700 text-white'
-                  : 'text-gray-400 hover:text-white'
-              }`}
-            >
-              {TAB_CONFIG[tab].label}
-            </button>
-          ))}
-        </div>
-
-        {activeTab === 'pay' && (
-          <PaymentForm prefill={prefill} onPrefillConsumed={handlePrefillConsumed} />
-        )}
-        {activeTab === 'fund' && <FundAccount />}
-        {activeTab === 'withdraw' && <WithdrawForm />}
-        {activeTab === 'earn' && <EarnDashboard />}
-        {activeTab === 'history' && <TxHistory />}
-      </div>
+      </IncomingPaymentToasts>
 
       {/* Footer */}
       <footer className="fixed bottom-0 left-0 right-0 border-t border-gray-800 bg-black">
@@ -0,0 +1,31 @@
+'use client'
+
+interface ApprovalToggleProps {
+  tokenSymbol: string
+  unlimited: boolean
+  onChange: (unlimited: boolean) => void
+  disabled?: boolean
+}
+
+// Exact-amount vs unlimited ERC-20 approval for LI.FI quotes that spend a token
+export function ApprovalToggle({ tokenSymbol, unlimited, onChange, disabled }: ApprovalToggleProps) {
+  return (
+    <label className="flex items-start gap-2 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={unlimited}
+        onChange={(e) => onChange(e.target.checked)}
+        disabled={disabled}
+        className="mt-0.5 accent-yellow-500"
+      />
+      <span className="text-xs text-gray-400">
+        Approve unlimited {tokenSymbol}
+        <span className="block text-gray-500">
+          {unlimited
+            ? 'Skips the approval next time, but LI.FI can spend any amount of this token.'
+            : 'Only this amount is approved — you approve again on the next swap.'}
+        </span>
+      </span>
+    </label>
+  )
+}
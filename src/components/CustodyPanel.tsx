@@ -0,0 +1,149 @@
+'use client'
+
+import { useState } from 'react'
+import { useAccount, useSwitchChain } from 'wagmi'
+import { formatUnits, type Address } from 'viem'
+import type { RPCAsset } from '@erc7824/nitrolite'
+import { useCustodyBalances } from '@/hooks/useCustodyBalances'
+import { addTx, updateTx } from '@/lib/txHistory'
+import { REQUIRED_CONFIRMATIONS, type CustodyBalance, type SettlementProgress } from '@/lib/yellow'
+
+interface CustodyPanelProps {
+  isAuthenticated: boolean
+  fetchAssets: () => Promise<RPCAsset[]>
+  withdrawCustodyBalance: (
+    chainId: number,
+    token: Address,
+    amount: bigint,
+    onProgress?: (progress: Partial<SettlementProgress>) => void,
+  ) => Promise<bigint>
+}
+
+function balanceKey(balance: CustodyBalance): string {
+  return `${balance.chainId}:${balance.token}`
+}
+
+// Funds in the custody contract that are not in any channel (e.g. a deposit whose
+// channel was never opened), per chain and token, with a direct withdraw to the wallet.
+export function CustodyPanel({ isAuthenticated, fetchAssets, withdrawCustodyBalance }: CustodyPanelProps) {
+  const { chainId: walletChainId } = useAccount()
+  const { switchChain, isPending: isSwitchingChain } = useSwitchChain()
+  const { balances, errors, isLoading, refresh } = useCustodyBalances({ isAuthenticated, fetchAssets })
+
+  const [withdrawingKey, setWithdrawingKey] = useState<string | null>(null)
+  const [progress, setProgress] = useState<Partial<SettlementProgress>>({})
+  const [withdrawError, setWithdrawError] = useState<string | null>(null)
+
+  const handleWithdraw = async (balance: CustodyBalance) => {
+    setWithdrawingKey(balanceKey(balance))
+    setProgress({})
+    setWithdrawError(null)
+
+    const tx = addTx({
+      type: 'withdraw',
+      status: 'pending',
+      asset: balance.symbol,
+      amount: formatUnits(balance.amount, balance.decimals),
+      withdrawKind: 'custody',
+    })
+
+    try {
+      await withdrawCustodyBalance(balance.chainId, balance.token, balance.amount, update => {
+        setProgress(prev => ({ ...prev, ...update }))
+        if (update.withdrawalTxHash) updateTx(tx.id, { withdrawalTxHash: update.withdrawalTxHash })
+        if (update.step) updateTx(tx.id, { settlementStep: update.step })
+      })
+      updateTx(tx.id, { status: 'completed', settlementStep: 'settled' })
+      await refresh()
+    } catch (e) {
+      console.error('Custody withdraw failed:', e)
+      updateTx(tx.id, { status: 'failed' })
+      setWithdrawError(e instanceof Error ? e.message : 'Custody withdrawal failed')
+    } finally {
+      setWithdrawingKey(null)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <label className="block text-sm font-medium text-gray-300">
+          Custody Balance
+        </label>
+        <button
+          onClick={refresh}
+          disabled={isLoading || !!withdrawingKey}
+          className="text-xs text-gray-500 hover:text-white disabled:text-gray-700 transition-colors"
+        >
+          {isLoading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {balances.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          {isLoading ? 'Checking custody contracts...' : 'No funds waiting in custody.'}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {balances.map(balance => {
+            const key = balanceKey(balance)
+            const isWithdrawing = withdrawingKey === key
+            const isWrongChain = walletChainId !== balance.chainId
+
+            return (
+              <div key={key} className="p-3 bg-gray-800/50 rounded-lg border border-gray-700/50 space-y-2">
+                <div className="flex justify-between items-center">
+                  <div>
+                    <p className="text-sm text-white font-semibold">
+                      {formatUnits(balance.amount, balance.decimals)}{' '}
+                      <span className="text-gray-400 font-normal">{balance.symbol.toUpperCase()}</span>
+                    </p>
+                    <p className="text-xs text-gray-500">{balance.chainName}</p>
+                  </div>
+                  {isWrongChain ? (
+                    <button
+                      onClick={() => switchChain({ chainId: balance.chainId })}
+                      disabled={isSwitchingChain || !!withdrawingKey}
+                      className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white text-xs
+                                 font-medium rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      {isSwitchingChain ? 'Switching...' : 'Switch chain'}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handleWithdraw(balance)}
+                      disabled={!!withdrawingKey}
+                      className="px-3 py-1.5 bg-yellow-500 hover:bg-yellow-400 disabled:bg-gray-700
+                                 text-black disabled:text-gray-400 text-xs font-medium rounded-lg
+                                 transition-colors"
+                    >
+                      {isWithdrawing ? 'Withdrawing...' : 'Withdraw'}
+                    </button>
+                  )}
+                </div>
+                {isWithdrawing && (
+                  <p className="text-xs text-yellow-400">
+                    {progress.step === 'verifying'
+                      ? 'Verifying payout...'
+                      : progress.withdrawalTxHash
+                        ? `Confirming (${progress.confirmations ?? 0}/${REQUIRED_CONFIRMATIONS})...`
+                        : 'Confirm the withdrawal in your wallet...'}
+                  </p>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {errors.map(e => (
+        <p key={e.chainId} className="text-xs text-gray-500">
+          {e.chainName}: {e.error}
+        </p>
+      ))}
+      {withdrawError && (
+        <p className="text-xs text-red-400">{withdrawError}</p>
+      )}
+    </div>
+  )
+}
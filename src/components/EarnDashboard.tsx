@@ -1,14 +1,21 @@
 'use client'
 
 import { useState, useEffect, useMemo, useCallback, useRef } from 'react'
-import { useAccount, useWalletClient, useBalance } from 'wagmi'
+import { useAccount, useWalletClient, usePublicClient, useBalance } from 'wagmi'
 import { parseUnits, formatUnits } from 'viem'
 import { useEarnVaults, useEarnPositions, addEarnDeposit, removeEarnDeposit } from '@/hooks/useEarn'
-import { useLiFiQuote, useLiFiChains, useLiFiTokens, useTransactionStatus } from '@/hooks/useLiFi'
+import { useLiFiQuote, useLiFiChains, useEmptyGasChains, useLiFiPreflight, useLiFiTokens, useQuoteFreshness, useTransactionStatus } from '@/hooks/useLiFi'
+import { useSwapSettings } from '@/hooks/useSwapSettings'
 import { getAssetLabel, DEFAULT_ASSET_LABEL } from '@/lib/constants'
-import { addTx, updateTx } from '@/lib/txHistory'
+import { addTx, removeTx, updateTx } from '@/lib/txHistory'
+import { PreflightError } from '@/lib/preflight'
 import type { EarnVault, EarnPosition } from '@/lib/earn'
 import { UnsupportedChainBanner } from './UnsupportedChainBanner'
+import { ApprovalToggle } from './ApprovalToggle'
+import { GasRefuelToggle } from './GasRefuelToggle'
+import { RouteWarnings, SwapSettingsPopover } from './SwapSettingsPopover'
+import { PriceChangeNotice, QuoteCountdown } from './QuoteFreshness'
+import { estimateRefuelNative, executeLiFiQuote, quoteNeedsApproval, quoteToRoute, refuelAmount } from '@/lib/lifi'
 import type { LiFiToken } from '@/lib/lifi'
 
 // Debounce hook (same as FundAccount)
@@ -22,8 +29,8 @@ function useDebounce<T>(value: T, delayMs: number): T {
 }
 
 type View = 'overview' | 'deposit' | 'withdraw'
-type DepositStep = 'idle' | 'confirming' | 'depositing' | 'done'
-type WithdrawStep = 'idle' | 'confirming' | 'withdrawing' | 'done'
+type DepositStep = 'idle' | 'confirming' | 'approving' | 'depositing' | 'done'
+type WithdrawStep = 'idle' | 'confirming' | 'approving' | 'withdrawing' | 'done'
 
 const RISK_COLORS: Record<string, string> = {
   low: 'text-green-400 bg-green-900/20 border-green-800/50',
@@ -34,6 +41,7 @@ const RISK_COLORS: Record<string, string> = {
 export function EarnDashboard() {
   const { address, isConnected: walletConnected, chain: currentChain } = useAccount()
   const { data: walletClient } = useWalletClient()
+  const publicClient = usePublicClient()
 
   const { vaults, isLoading: vaultsLoading, error: vaultsError } = useEarnVaults()
   const { positions, isLoading: positionsLoading, error: positionsError, refresh: refreshPositions } = useEarnPositions()
@@ -53,6 +61,7 @@ export function EarnDashboard() {
   const [txHash, setTxHash] = useState<string | null>(null)
   const [txError, setTxError] = useState<string | null>(null)
   const [isExecuting, setIsExecuting] = useState(false)
+  const [unlimitedApproval, setUnlimitedApproval] = useState(false)
   const fundTxIdRef = useRef<string | null>(null)
 
   // Set initial chain
@@ -110,7 +119,33 @@ export function EarnDashboard() {
   const debouncedAmount = useDebounce(amount, 500)
 
   // LI.FI quote
-  const { quote, isLoading: quoteLoading, error: quoteError, fetchQuote, clearQuote } = useLiFiQuote()
+  const { settings: swapSettings, quoteOptions } = useSwapSettings()
+  const {
+    quote,
+    isLoading: quoteLoading,
+    isRefreshing: quoteRefreshing,
+    isThrottled: quoteThrottled,
+    error: quoteError,
+    fetchedAt: quoteFetchedAt,
+    generation: quoteGeneration,
+    fetchQuote,
+    refresh: refreshQuote,
+    clearQuote,
+  } = useLiFiQuote()
+
+  // Cross-chain deposits into a vault on a chain where the wallet has no gas: withdrawing
+  // later needs some, so LI.FI can swap a little of the amount into gas there
+  const vaultChainIds = useMemo(
+    () => view === 'deposit' && selectedVault?.chainId && selectedVault.chainId !== selectedChainId ? [selectedVault.chainId] : [],
+    [view, selectedVault, selectedChainId]
+  )
+  const { emptyChainIds: gaslessChainIds, isChecking: isCheckingGas } = useEmptyGasChains(vaultChainIds)
+  const [refuelEnabled, setRefuelEnabled] = useState(true)
+  const refuelSourceAmount = useMemo(() => {
+    if (!selectedToken || !(parseFloat(debouncedAmount) > 0)) return null
+    return refuelAmount(selectedToken, parseUnits(debouncedAmount, selectedToken.decimals))
+  }, [selectedToken, debouncedAmount])
+  const vaultGasless = !!selectedVault?.chainId && gaslessChainIds.has(selectedVault.chainId)
 
   // Fetch quote for deposit
   useEffect(() => {
@@ -130,6 +165,9 @@ export function EarnDashboard() {
       return
     }
 
+    // Wait for the gas check, so the quote is requested once, with any refuel
+    if (isCheckingGas) return
+
     const fromAmount = parseUnits(debouncedAmount, selectedToken.decimals).toString()
 
     fetchQuote({
@@ -139,11 +177,62 @@ export function EarnDashboard() {
       toToken: selectedVault.aTokenAddress,
       fromAmount,
       fromAddress: address,
+      fromAmountForGas: refuelEnabled && vaultGasless && refuelSourceAmount ? refuelSourceAmount.toString() : undefined,
+      ...quoteOptions,
     })
-  }, [selectedToken, selectedChainId, address, debouncedAmount, clearQuote, fetchQuote, selectedVault, view])
+  }, [selectedToken, selectedChainId, address, debouncedAmount, isCheckingGas, vaultGasless, refuelEnabled, refuelSourceAmount, quoteOptions, clearQuote, fetchQuote, selectedVault, view])
+
+  // Refuel offered with the deposit quote: the part of the amount swapped and the gas it buys
+  const refuelOffer = useMemo(() => {
+    if (!quote || !selectedToken || !refuelSourceAmount || !vaultGasless) return null
+    const native = chains.find(c => c.id === quote.action.toChainId)?.nativeToken
+    const gas = native ? estimateRefuelNative(selectedToken, refuelSourceAmount, native) : null
+    return {
+      nativeSymbol: native?.symbol ?? 'gas',
+      nativeAmount: native && gas ? parseFloat(formatUnits(gas, native.decimals)).toPrecision(3) : null,
+      sourceAmount: formatUnits(refuelSourceAmount, selectedToken.decimals),
+    }
+  }, [quote, selectedToken, refuelSourceAmount, vaultGasless, chains])
 
   // LI.FI quote for withdraw
-  const { quote: withdrawQuote, isLoading: withdrawQuoteLoading, error: withdrawQuoteError, fetchQuote: fetchWithdrawQuote, clearQuote: clearWithdrawQuote } = useLiFiQuote()
+  const {
+    quote: withdrawQuote,
+    isLoading: withdrawQuoteLoading,
+    isRefreshing: withdrawQuoteRefreshing,
+    isThrottled: withdrawQuoteThrottled,
+    error: withdrawQuoteError,
+    fetchedAt: withdrawQuoteFetchedAt,
+    generation: withdrawQuoteGeneration,
+    fetchQuote: fetchWithdrawQuote,
+    refresh: refreshWithdrawQuote,
+    clearQuote: clearWithdrawQuote,
+  } = useLiFiQuote()
+
+  // Dry-run the open view's quote for this wallet before it can be executed
+  const preflight = useLiFiPreflight(
+    isExecuting || depositStep !== 'idle' || withdrawStep !== 'idle' ? null
+      : view === 'deposit' ? quote
+      : view === 'withdraw' ? withdrawQuote
+      : null,
+  )
+
+  // Keep the open view's quote fresh while idle; a moved price needs accepting
+  const depositFreshness = useQuoteFreshness({
+    fetchedAt: quoteFetchedAt,
+    isRefreshing: quoteRefreshing,
+    refresh: refreshQuote,
+    paused: view !== 'deposit' || depositStep !== 'idle' || isExecuting,
+    baselineKey: String(quoteGeneration),
+    amount: quote?.estimate.toAmount ?? null,
+  })
+  const withdrawFreshness = useQuoteFreshness({
+    fetchedAt: withdrawQuoteFetchedAt,
+    isRefreshing: withdrawQuoteRefreshing,
+    refresh: refreshWithdrawQuote,
+    paused: view !== 'withdraw' || withdrawStep !== 'idle' || isExecuting,
+    baselineKey: String(withdrawQuoteGeneration),
+    amount: withdrawQuote?.estimate.toAmount ?? null,
+  })
 
   // Fetch withdraw quote when position is selected
   useEffect(() => {
@@ -172,8 +261,9 @@ export function EarnDashboard() {
       toToken: vault.tokenAddress,
       fromAmount,
       fromAddress: address,
+      ...quoteOptions,
     })
-  }, [selectedPosition, address, view, fetchWithdrawQuote, clearWithdrawQuote])
+  }, [selectedPosition, address, view, quoteOptions, fetchWithdrawQuote, clearWithdrawQuote])
 
   // Transaction status polling for deposit
   const { status: depositTxStatus } = useTransactionStatus(
@@ -256,7 +346,7 @@ export function EarnDashboard() {
 
   // ─── Deposit handler (LI.FI) ───
   const handleDeposit = useCallback(async () => {
-    if (!quote || !walletClient || !address || !selectedVault) return
+    if (!quote || !walletClient || !publicClient || !address || !selectedVault) return
 
     setIsExecuting(true)
     setTxError(null)
@@ -273,18 +363,17 @@ export function EarnDashboard() {
       sourceToken: selectedToken?.symbol,
       sourceAmount: amount,
       sourceChain: chains.find(c => c.id === selectedChainId)?.name,
+      gasRefuel: refuelEnabled && refuelOffer?.nativeAmount ? `${refuelOffer.nativeAmount} ${refuelOffer.nativeSymbol}` : undefined,
     })
     fundTxIdRef.current = tx.id
 
     try {
       await new Promise(r => setTimeout(r, 300))
-      setDepositStep('depositing')
+      setDepositStep('approving')
 
-      const hash = await walletClient.sendTransaction({
-        to: quote.transactionRequest.to as `0x${string}`,
-        data: quote.transactionRequest.data as `0x${string}`,
-        value: BigInt(quote.transactionRequest.value || '0'),
-        gas: BigInt(quote.transactionRequest.gasLimit),
+      const hash = await executeLiFiQuote(walletClient, publicClient, quote, {
+        unlimitedApproval,
+        onApproval: status => { if (status === 'approved') setDepositStep('depositing') },
       })
       setTxHash(hash)
       updateTx(tx.id, { txHash: hash })
@@ -296,16 +385,18 @@ export function EarnDashboard() {
       } else {
         setTxError(msg)
       }
-      updateTx(tx.id, { status: 'failed' })
+      // Caught by the pre-flight: nothing was sent, so nothing to keep in the history
+      if (e instanceof PreflightError) removeTx(tx.id)
+      else updateTx(tx.id, { status: 'failed' })
       setDepositStep('idle')
     } finally {
       setIsExecuting(false)
     }
-  }, [quote, walletClient, address, selectedVault, selectedToken, amount, chains, selectedChainId])
+  }, [quote, walletClient, publicClient, address, selectedVault, selectedToken, amount, chains, selectedChainId, unlimitedApproval, refuelEnabled, refuelOffer])
 
   // ─── Withdraw handler (LI.FI) ───
   const handleWithdraw = useCallback(async () => {
-    if (!withdrawQuote || !walletClient || !address || !selectedPosition) return
+    if (!withdrawQuote || !walletClient || !publicClient || !address || !selectedPosition) return
 
     setIsExecuting(true)
     setTxError(null)
@@ -323,13 +414,12 @@ export function EarnDashboard() {
 
     try {
       await new Promise(r => setTimeout(r, 300))
-      setWithdrawStep('withdrawing')
+      setWithdrawStep('approving')
 
-      const hash = await walletClient.sendTransaction({
-        to: withdrawQuote.transactionRequest.to as `0x${string}`,
-        data: withdrawQuote.transactionRequest.data as `0x${string}`,
-        value: BigInt(withdrawQuote.transactionRequest.value || '0'),
-        gas: BigInt(withdrawQuote.transactionRequest.gasLimit),
+      // The vault's aToken is the source token, so this usually needs an approval
+      const hash = await executeLiFiQuote(walletClient, publicClient, withdrawQuote, {
+        unlimitedApproval,
+        onApproval: status => { if (status === 'approved') setWithdrawStep('withdrawing') },
       })
       setTxHash(hash)
       updateTx(tx.id, { txHash: hash })
@@ -341,12 +431,14 @@ export function EarnDashboard() {
       } else {
         setTxError(msg)
       }
-      updateTx(tx.id, { status: 'failed' })
+      // Caught by the pre-flight: nothing was sent, so nothing to keep in the history
+      if (e instanceof PreflightError) removeTx(tx.id)
+      else updateTx(tx.id, { status: 'failed' })
       setWithdrawStep('idle')
     } finally {
       setIsExecuting(false)
     }
-  }, [withdrawQuote, walletClient, address, selectedPosition])
+  }, [withdrawQuote, walletClient, publicClient, address, selectedPosition, unlimitedApproval])
 
   // Auth guard: wallet not connected
   if (!walletConnected) {
@@ -514,6 +606,12 @@ export function EarnDashboard() {
         ) : depositStep !== 'idle' ? (
           <div className="space-y-3">
             <StatusStep label="Deposit confirmed" status={depositStep === 'confirming' ? 'active' : 'done'} />
+            {quote && quoteNeedsApproval(quote) && (
+              <StatusStep
+                label={`Approve ${quote.action.fromToken.symbol}`}
+                status={depositStep === 'confirming' ? 'pending' : depositStep === 'approving' ? 'active' : 'done'}
+              />
+            )}
             <StatusStep label="Depositing to vault" status={depositStep === 'depositing' ? 'active' : 'pending'} />
             <StatusStep label="Position active" status="pending" />
             {txError && (
@@ -587,7 +685,10 @@ export function EarnDashboard() {
 
             {/* Amount input */}
             <div className="space-y-2">
-              <label className="block text-sm font-medium text-gray-300">Amount</label>
+              <div className="flex justify-between items-center">
+                <label className="block text-sm font-medium text-gray-300">Amount</label>
+                <SwapSettingsPopover disabled={isExecuting} />
+              </div>
               <div className="relative">
                 <input
                   type="number"
@@ -618,7 +719,9 @@ export function EarnDashboard() {
               <div className="p-4 bg-gray-800/50 rounded-lg border border-gray-700/50">
                 <div className="flex items-center gap-2 text-gray-400">
                   <div className="w-4 h-4 border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
-                  <span className="text-sm">Finding best route...</span>
+                  <span className="text-sm">
+                    {quoteThrottled ? 'Finding best route (slowed down to save LI.FI rate limit)...' : 'Finding best route...'}
+                  </span>
                 </div>
               </div>
             )}
@@ -655,6 +758,60 @@ export function EarnDashboard() {
               </div>
             )}
 
+            {quote && !quoteLoading && (
+              <QuoteCountdown
+                secondsLeft={depositFreshness.secondsLeft}
+                isExpired={depositFreshness.isExpired}
+                isRefreshing={quoteRefreshing}
+                onRefresh={depositFreshness.refreshNow}
+                disabled={isExecuting}
+              />
+            )}
+
+            {quote && !quoteLoading && <RouteWarnings route={quoteToRoute(quote)} settings={swapSettings} />}
+
+            {quote && !quoteLoading && refuelOffer && selectedToken && (
+              <GasRefuelToggle
+                chainName={chains.find(c => c.id === quote.action.toChainId)?.name ?? `Chain ${quote.action.toChainId}`}
+                nativeSymbol={refuelOffer.nativeSymbol}
+                nativeAmount={refuelOffer.nativeAmount}
+                sourceAmount={refuelOffer.sourceAmount}
+                sourceSymbol={selectedToken.symbol}
+                purpose="withdrawing from the vault later"
+                enabled={refuelEnabled}
+                onChange={setRefuelEnabled}
+                disabled={isExecuting}
+              />
+            )}
+            {quote && !quoteLoading && vaultGasless && !refuelOffer && (
+              <div className="p-3 bg-yellow-900/20 border border-yellow-700/50 rounded-lg">
+                <p className="text-xs text-yellow-400">
+                  Your wallet has no gas on the vault&apos;s chain. You&apos;ll need some there to withdraw later.
+                </p>
+              </div>
+            )}
+
+            {quote && !quoteLoading && depositFreshness.priceMoved && depositFreshness.shownAmount && (
+              <PriceChangeNotice
+                shownAmount={depositFreshness.shownAmount}
+                amount={quote.estimate.toAmount}
+                decimals={quote.action.toToken.decimals}
+                symbol={quote.action.toToken.symbol}
+                change={depositFreshness.priceChange}
+              />
+            )}
+
+            {preflight.problem && (
+              <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg">
+                <p className="text-sm text-red-400">{preflight.problem}</p>
+              </div>
+            )}
+            {preflight.warning && (
+              <div className="p-3 bg-yellow-900/20 border border-yellow-700/50 rounded-lg">
+                <p className="text-xs text-yellow-400">{preflight.warning}</p>
+              </div>
+            )}
+
             {quoteError && (
               <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg">
                 <p className="text-sm text-red-400">
@@ -665,6 +822,15 @@ export function EarnDashboard() {
               </div>
             )}
 
+            {quote && quoteNeedsApproval(quote) && (
+              <ApprovalToggle
+                tokenSymbol={quote.action.fromToken.symbol}
+                unlimited={unlimitedApproval}
+                onChange={setUnlimitedApproval}
+                disabled={isExecuting}
+              />
+            )}
+
             {txError && (
               <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg">
                 <p className="text-sm text-red-400">{txError}</p>
@@ -680,8 +846,8 @@ export function EarnDashboard() {
             </div>
 
             <button
-              onClick={handleDeposit}
-              disabled={!quote || isExecuting || quoteLoading || (!!amount && parseFloat(amount) > parseFloat(formattedWalletBalance))}
+              onClick={depositFreshness.priceMoved ? depositFreshness.confirmPrice : handleDeposit}
+              disabled={!quote || isExecuting || quoteLoading || depositFreshness.isExpired || !!preflight.problem || (!!amount && parseFloat(amount) > parseFloat(formattedWalletBalance))}
               className="w-full py-3 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-700
                          disabled:cursor-not-allowed text-white disabled:text-gray-400
                          font-medium rounded-lg transition-colors flex items-center justify-center gap-2"
@@ -691,6 +857,10 @@ export function EarnDashboard() {
                   <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
                   Confirming...
                 </>
+              ) : quote && depositFreshness.isExpired ? (
+                'Quote expired — refresh to continue'
+              ) : quote && depositFreshness.priceMoved ? (
+                'Accept new price'
               ) : quote ? (
                 `Deposit ${formatUnits(BigInt(quote.estimate.toAmount), quote.action.toToken.decimals)} ${quote.action.toToken.symbol}`
               ) : amount ? (
@@ -828,6 +998,12 @@ export function EarnDashboard() {
         ) : withdrawStep !== 'idle' ? (
           <div className="space-y-3">
             <StatusStep label="Withdraw confirmed" status={withdrawStep === 'confirming' ? 'active' : 'done'} />
+            {withdrawQuote && quoteNeedsApproval(withdrawQuote) && (
+              <StatusStep
+                label={`Approve ${withdrawQuote.action.fromToken.symbol}`}
+                status={withdrawStep === 'confirming' ? 'pending' : withdrawStep === 'approving' ? 'active' : 'done'}
+              />
+            )}
             <StatusStep label="Withdrawing from vault" status={withdrawStep === 'withdrawing' ? 'active' : 'pending'} />
             <StatusStep label="Funds returned" status="pending" />
             {txError && (
@@ -847,12 +1023,18 @@ export function EarnDashboard() {
               <DetailRow label="Since" value={new Date(selectedPosition.depositTimestamp).toLocaleDateString()} />
             </div>
 
+            <div className="flex justify-end">
+              <SwapSettingsPopover disabled={isExecuting} />
+            </div>
+
             {/* Withdraw quote preview */}
             {withdrawQuoteLoading && (
               <div className="p-4 bg-gray-800/50 rounded-lg border border-gray-700/50">
                 <div className="flex items-center gap-2 text-gray-400">
                   <div className="w-4 h-4 border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
-                  <span className="text-sm">Finding withdrawal route...</span>
+                  <span className="text-sm">
+                    {withdrawQuoteThrottled ? 'Finding withdrawal route (slowed down to save LI.FI rate limit)...' : 'Finding withdrawal route...'}
+                  </span>
                 </div>
               </div>
             )}
@@ -878,12 +1060,56 @@ export function EarnDashboard() {
               </div>
             )}
 
+            {withdrawQuote && !withdrawQuoteLoading && (
+              <QuoteCountdown
+                secondsLeft={withdrawFreshness.secondsLeft}
+                isExpired={withdrawFreshness.isExpired}
+                isRefreshing={withdrawQuoteRefreshing}
+                onRefresh={withdrawFreshness.refreshNow}
+                disabled={isExecuting}
+              />
+            )}
+
+            {withdrawQuote && !withdrawQuoteLoading && (
+              <RouteWarnings route={quoteToRoute(withdrawQuote)} settings={swapSettings} />
+            )}
+
+            {withdrawQuote && !withdrawQuoteLoading && withdrawFreshness.priceMoved && withdrawFreshness.shownAmount && (
+              <PriceChangeNotice
+                shownAmount={withdrawFreshness.shownAmount}
+                amount={withdrawQuote.estimate.toAmount}
+                decimals={withdrawQuote.action.toToken.decimals}
+                symbol={withdrawQuote.action.toToken.symbol}
+                change={withdrawFreshness.priceChange}
+              />
+            )}
+
+            {preflight.problem && (
+              <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg">
+                <p className="text-sm text-red-400">{preflight.problem}</p>
+              </div>
+            )}
+            {preflight.warning && (
+              <div className="p-3 bg-yellow-900/20 border border-yellow-700/50 rounded-lg">
+                <p className="text-xs text-yellow-400">{preflight.warning}</p>
+              </div>
+            )}
+
             {withdrawQuoteError && (
               <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg">
                 <p className="text-sm text-red-400">{withdrawQuoteError}</p>
               </div>
             )}
 
+            {withdrawQuote && quoteNeedsApproval(withdrawQuote) && (
+              <ApprovalToggle
+                tokenSymbol={withdrawQuote.action.fromToken.symbol}
+                unlimited={unlimitedApproval}
+                onChange={setUnlimitedApproval}
+                disabled={isExecuting}
+              />
+            )}
+
             {txError && (
               <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg">
                 <p className="text-sm text-red-400">{txError}</p>
@@ -891,8 +1117,8 @@ export function EarnDashboard() {
             )}
 
             <button
-              onClick={handleWithdraw}
-              disabled={!withdrawQuote || isExecuting || withdrawQuoteLoading}
+              onClick={withdrawFreshness.priceMoved ? withdrawFreshness.confirmPrice : handleWithdraw}
+              disabled={!withdrawQuote || isExecuting || withdrawQuoteLoading || withdrawFreshness.isExpired || !!preflight.problem}
               className="w-full py-3 bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-700
                          disabled:cursor-not-allowed text-white disabled:text-gray-400
                          font-medium rounded-lg transition-colors flex items-center justify-center gap-2"
@@ -902,6 +1128,10 @@ export function EarnDashboard() {
                   <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
                   Confirming...
                 </>
+              ) : withdrawQuote && withdrawFreshness.isExpired ? (
+                'Quote expired — refresh to continue'
+              ) : withdrawQuote && withdrawFreshness.priceMoved ? (
+                'Accept new price'
               ) : withdrawQuote ? (
                 `Withdraw ${formatUnits(BigInt(withdrawQuote.estimate.toAmount), withdrawQuote.action.toToken.decimals)} ${withdrawQuote.action.toToken.symbol}`
               ) : (
@@ -0,0 +1,245 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useAccount, useSwitchChain } from 'wagmi'
+import { useForceExit } from '@/hooks/useForceExit'
+import { YELLOW_CHAINS } from '@/lib/constants'
+import { REQUIRED_CONFIRMATIONS, type ForceExit, type ForceExitStage, type SettlementProgress } from '@/lib/yellow'
+
+const STAGE_LABELS: Record<ForceExitStage, string> = {
+  challenging: 'Submitting challenge',
+  challenged: 'Challenge period running',
+  closing: 'Closing channel',
+  withdrawing: 'Withdrawing from custody',
+  done: 'Funds in wallet',
+}
+
+function truncateId(id: string): string {
+  return `${id.slice(0, 10)}...${id.slice(-6)}`
+}
+
+function chainName(chainId: number): string {
+  return YELLOW_CHAINS.find(c => c.chainId === chainId)?.name ?? `Chain ${chainId}`
+}
+
+function formatCountdown(seconds: number): string {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = seconds % 60
+  return [h, m, s].map(n => n.toString().padStart(2, '0')).join(':')
+}
+
+// Unix seconds, ticking once a second while `active`
+function useNow(active: boolean): number {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000))
+  useEffect(() => {
+    if (!active) return
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000)
+    return () => clearInterval(timer)
+  }, [active])
+  return now
+}
+
+// Leave a channel without the ClearNode: challenge it on-chain with the latest
+// co-signed state, wait out the challenge period, then close and withdraw.
+export function ForceExitPanel() {
+  const { chainId: walletChainId } = useAccount()
+  const { exits, onChainChannels, busyChannelId, progress, error, challenge, finalize, dismiss, refresh } = useForceExit()
+  const [expanded, setExpanded] = useState(false)
+  const [confirmingId, setConfirmingId] = useState<string | null>(null)
+
+  const exiting = new Set(exits.map(e => e.channelId.toLowerCase()))
+  const challengeable = onChainChannels.filter(id => !exiting.has(id.toLowerCase()))
+  const inProgress = exits.filter(e => e.stage !== 'done').length
+
+  const handleChallenge = async (channelId: `0x${string}`) => {
+    setConfirmingId(null)
+    await challenge(channelId)
+  }
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex justify-between items-center text-sm font-medium text-gray-300 hover:text-white transition-colors"
+      >
+        <span>
+          Force Exit{inProgress > 0 && <span className="text-yellow-400"> ({inProgress} in progress)</span>}
+        </span>
+        <span className="text-xs text-gray-500">{expanded ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {expanded && (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-500">
+            If Yellow Network can&apos;t close your channel, challenge it on-chain with the last
+            state you both signed. After the challenge period the channel closes with that
+            state and you can withdraw — no ClearNode needed.
+          </p>
+
+          {exits.map(exit => (
+            <ExitRow
+              key={exit.channelId}
+              exit={exit}
+              isWrongChain={walletChainId !== exit.chainId}
+              isBusy={busyChannelId === exit.channelId}
+              disabled={!!busyChannelId}
+              progress={progress}
+              onFinalize={() => finalize(exit)}
+              onDismiss={() => dismiss(exit)}
+            />
+          ))}
+
+          {challengeable.length > 0 ? (
+            <div className="space-y-2">
+              {challengeable.map(channelId => (
+                <div key={channelId} className="p-3 bg-gray-800/50 rounded-lg border border-gray-700/50 space-y-2">
+                  <div className="flex justify-between items-center">
+                    <span className="text-xs font-mono text-gray-400">{truncateId(channelId)}</span>
+                    {confirmingId === channelId ? (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => setConfirmingId(null)}
+                          className="px-3 py-1.5 text-gray-400 hover:text-white text-xs transition-colors"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => handleChallenge(channelId)}
+                          disabled={!!busyChannelId}
+                          className="px-3 py-1.5 bg-red-600 hover:bg-red-500 disabled:bg-gray-700
+                                     text-white disabled:text-gray-400 text-xs font-medium rounded-lg
+                                     transition-colors"
+                        >
+                          Confirm challenge
+                        </button>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => setConfirmingId(channelId)}
+                        disabled={!!busyChannelId}
+                        className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white text-xs
+                                   font-medium rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        {busyChannelId === channelId ? 'Challenging...' : 'Force exit'}
+                      </button>
+                    )}
+                  </div>
+                  {confirmingId === channelId && (
+                    <p className="text-xs text-yellow-400">
+                      The channel is frozen during the challenge period (24 hours). Only use this
+                      if a normal withdrawal doesn&apos;t work.
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : exits.length === 0 && (
+            <p className="text-xs text-gray-500">
+              No open channels on {walletChainId ? chainName(walletChainId) : 'this chain'}.
+            </p>
+          )}
+
+          <button
+            onClick={refresh}
+            disabled={!!busyChannelId}
+            className="text-xs text-gray-500 hover:text-white disabled:text-gray-700 transition-colors"
+          >
+            Refresh
+          </button>
+
+          {error && (
+            <p className="text-xs text-red-400">{error}</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface ExitRowProps {
+  exit: ForceExit
+  isWrongChain: boolean
+  isBusy: boolean
+  disabled: boolean
+  progress: Partial<SettlementProgress>
+  onFinalize: () => void
+  onDismiss: () => void
+}
+
+function ExitRow({ exit, isWrongChain, isBusy, disabled, progress, onFinalize, onDismiss }: ExitRowProps) {
+  const { switchChain, isPending: isSwitchingChain } = useSwitchChain()
+  const now = useNow(exit.stage === 'challenged')
+  const remaining = exit.challengeExpiry !== undefined ? Math.max(exit.challengeExpiry - now, 0) : undefined
+  const canFinalize = exit.stage === 'withdrawing' || exit.stage === 'closing'
+    || (exit.stage === 'challenged' && remaining === 0)
+
+  return (
+    <div className="p-3 bg-gray-800/50 rounded-lg border border-gray-700/50 space-y-2">
+      <div className="flex justify-between items-center">
+        <div>
+          <p className="text-xs font-mono text-gray-400">{truncateId(exit.channelId)}</p>
+          <p className="text-xs text-gray-500">{chainName(exit.chainId)}</p>
+        </div>
+        <span className={`text-xs ${exit.stage === 'done' ? 'text-green-400' : 'text-yellow-400'}`}>
+          {STAGE_LABELS[exit.stage]}
+        </span>
+      </div>
+
+      {exit.stage === 'challenged' && remaining !== undefined && remaining > 0 && (
+        <div className="text-center">
+          <p className="text-lg font-mono text-white">{formatCountdown(remaining)}</p>
+          <p className="text-xs text-gray-500">until you can close the channel</p>
+        </div>
+      )}
+
+      {isBusy && (
+        <p className="text-xs text-yellow-400">
+          {exit.stage === 'challenging'
+            ? 'Confirm the challenge in your wallet, then wait for it to confirm...'
+            : progress.step === 'verifying'
+              ? 'Verifying payout...'
+              : progress.withdrawalTxHash
+                ? `Confirming withdrawal (${progress.confirmations ?? 0}/${REQUIRED_CONFIRMATIONS})...`
+                : 'Confirm the transaction in your wallet...'}
+        </p>
+      )}
+
+      {exit.error && !isBusy && (
+        <p className="text-xs text-red-400">{exit.error}</p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {(exit.stage === 'done' || (exit.error && exit.stage === 'challenging')) && (
+          <button
+            onClick={onDismiss}
+            disabled={isBusy}
+            className="px-3 py-1.5 text-gray-400 hover:text-white text-xs transition-colors"
+          >
+            Dismiss
+          </button>
+        )}
+        {canFinalize && (isWrongChain ? (
+          <button
+            onClick={() => switchChain({ chainId: exit.chainId })}
+            disabled={isSwitchingChain || disabled}
+            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white text-xs
+                       font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isSwitchingChain ? 'Switching...' : 'Switch chain'}
+          </button>
+        ) : (
+          <button
+            onClick={onFinalize}
+            disabled={disabled}
+            className="px-3 py-1.5 bg-yellow-500 hover:bg-yellow-400 disabled:bg-gray-700
+                       text-black disabled:text-gray-400 text-xs font-medium rounded-lg
+                       transition-colors"
+          >
+            {isBusy ? 'Withdrawing...' : 'Finalize & withdraw'}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
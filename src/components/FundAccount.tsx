@@ -1,15 +1,49 @@
 'use client'
 
 import { useState, useEffect, useMemo, useCallback, useRef } from 'react'
-import { useAccount, useWalletClient, useBalance } from 'wagmi'
+import { useAccount, useBalance } from 'wagmi'
 import { parseUnits, formatUnits } from 'viem'
-import { useLiFiQuote, useLiFiChains, useLiFiTokens, useTransactionStatus } from '@/hooks/useLiFi'
+import {
+  useLiFiRoutes,
+  useLiFiChains,
+  useLiFiChainClients,
+  useEmptyGasChains,
+  useDepositCostsUSD,
+  useLiFiPreflight,
+  useLiFiTokens,
+  useQuoteFreshness,
+  useTransactionStatus,
+} from '@/hooks/useLiFi'
 import { useYellow } from '@/hooks/useYellow'
-import { DEFAULT_ASSET_LABEL } from '@/lib/constants'
-import { addTx, updateTx } from '@/lib/txHistory'
+import { useSwapSettings } from '@/hooks/useSwapSettings'
+import { usePendingOps } from '@/hooks/usePendingOps'
+import { SETTLEMENT_CHAINS, getAssetLabel, getSettlementChains } from '@/lib/constants'
+import { addTx, getTx, removeTx, updateTx } from '@/lib/txHistory'
+import { PreflightError } from '@/lib/preflight'
+import { planFunding } from '@/lib/funding'
+import { getPendingSweep } from '@/lib/sweep'
+import {
+  arrivalProblem,
+  arrivalTxFields,
+  describeArrival,
+  removePendingOp,
+  savePendingOp,
+  updatePendingOp,
+  type Arrival,
+} from '@/lib/pendingOps'
 import { UnsupportedChainBanner } from './UnsupportedChainBanner'
-import type { LiFiToken } from '@/lib/lifi'
+import { YellowConnectionBanner } from './YellowConnectionBanner'
+import { PendingOpsPanel } from './PendingOpsPanel'
+import { ApprovalToggle } from './ApprovalToggle'
+import { GasRefuelToggle } from './GasRefuelToggle'
+import { SweepFunding } from './SweepFunding'
+import { RoutePicker } from './RoutePicker'
+import { RouteWarnings, SwapSettingsPopover } from './SwapSettingsPopover'
+import { PriceChangeNotice, QuoteCountdown } from './QuoteFreshness'
+import { estimateRefuelNative, executeLiFiRoute, quoteNeedsApproval, refuelAmount, routeKey } from '@/lib/lifi'
+import type { LiFiApprovalStatus, LiFiQuote, LiFiRoute, LiFiRouteOrder, LiFiToken } from '@/lib/lifi'
 import type { Address } from 'viem'
+import type { RPCAsset } from '@erc7824/nitrolite'
 
 // Debounce hook
 function useDebounce<T>(value: T, delayMs: number): T {
@@ -23,8 +57,30 @@ function useDebounce<T>(value: T, delayMs: number): T {
 
 export function FundAccount() {
   const { address, isConnected: walletConnected, chain: currentChain } = useAccount()
-  const { data: walletClient } = useWalletClient()
-  const { isConnected: yellowConnected, isAuthenticated, balance: yellowBalance, fetchBalances, depositToYellow } = useYellow()
+  const chainClients = useLiFiChainClients()
+  const {
+    isConnected: yellowConnected,
+    isAuthenticated,
+    connectionState,
+    reconnectAttempt,
+    retryConnection,
+    balances: yellowBalances,
+    fetchBalances,
+    fetchAssets,
+    depositToYellow,
+  } = useYellow()
+
+  // Funding interrupted by a reload — resumed here
+  const pendingOps = usePendingOps('fund', { depositToYellow, fetchBalances })
+
+  // One token at a time, or many swept into a single deposit (mode locked while a sweep runs)
+  const [fundMode, setFundMode] = useState<'single' | 'sweep'>('single')
+  const [sweepActive, setSweepActive] = useState(false)
+
+  // A sweep interrupted by a reload is resumed in sweep mode
+  useEffect(() => {
+    if (address && getPendingSweep(address)) setFundMode('sweep')
+  }, [address])
 
   // Chain & token selection
   const { chains, isLoading: chainsLoading, supportedChainIds } = useLiFiChains()
@@ -84,91 +140,245 @@ export function FundAccount() {
     ? parseFloat(formatUnits(walletBalance.data.value, walletBalance.data.decimals)).toFixed(4)
     : '0.00'
 
+  const isValidAmount = !!amount && parseFloat(amount) > 0
+
   // Debounced amount for quote fetching
   const debouncedAmount = useDebounce(amount, 500)
 
-  // LI.FI quote
-  const { quote, isLoading: quoteLoading, error: quoteError, fetchQuote, clearQuote } = useLiFiQuote()
+  // Tokens the ClearNode takes (get_assets); null until loaded. A channel can only be
+  // opened for these, so funds bridged to any other settlement token would be stranded.
+  const [clearNodeAssets, setClearNodeAssets] = useState<RPCAsset[] | null>(null)
+  const [assetsError, setAssetsError] = useState<string | null>(null)
+  useEffect(() => {
+    setClearNodeAssets(null)
+    setAssetsError(null)
+    if (!isAuthenticated) return
+    let cancelled = false
+    fetchAssets()
+      .then(assets => { if (!cancelled) setClearNodeAssets(assets) })
+      .catch(e => { if (!cancelled) setAssetsError(e instanceof Error ? e.message : 'Failed to load Yellow Network assets') })
+    return () => { cancelled = true }
+  }, [isAuthenticated, fetchAssets])
+
+  // Yellow asset to fund and the chain it settles on (null = the cheapest, picked from quotes)
+  const [targetAsset, setTargetAsset] = useState('usdc')
+  const [settlementChainId, setSettlementChainId] = useState<number | null>(null)
+  const settlementOptions = useMemo(
+    () => getSettlementChains(targetAsset).filter(t =>
+      supportedChainIds.has(t.chainId) &&
+      !!clearNodeAssets?.some(a => a.chainId === t.chainId && a.token.toLowerCase() === t.tokenAddress.toLowerCase())),
+    [targetAsset, supportedChainIds, clearNodeAssets]
+  )
+  // Ledger balance of the asset being funded: the ClearNode's name for its settlement token
+  // (e.g. ytest.usd on the sandbox), else the selected asset
+  const fundedAsset = useMemo(() => {
+    const asset = clearNodeAssets?.find(a => settlementOptions.some(t =>
+      a.chainId === t.chainId && a.token.toLowerCase() === t.tokenAddress.toLowerCase()))?.symbol ?? targetAsset
+    const amount = yellowBalances.find(b => b.asset.toLowerCase() === asset.toLowerCase())?.amount ?? '0'
+    return { amount, label: getAssetLabel(asset) }
+  }, [clearNodeAssets, settlementOptions, targetAsset, yellowBalances])
+  const chainName = (chainId: number) => chains.find(c => c.id === chainId)?.name ?? `Chain ${chainId}`
+
+  // How the selected token gets there: deposited as is when it already is one of the
+  // settlement targets, otherwise swapped/bridged by LI.FI
+  const fundingPlan = useMemo(() => {
+    if (!selectedToken || !selectedChainId) return null
+    const targets = settlementChainId
+      ? settlementOptions.filter(t => t.chainId === settlementChainId)
+      : settlementOptions
+    return planFunding({ chainId: selectedChainId, token: selectedToken.address }, targets)
+  }, [selectedToken, selectedChainId, settlementChainId, settlementOptions])
+  const isDirectDeposit = fundingPlan?.strategy.id === 'direct'
+
+  // Destination chains where the wallet has no gas for the custody deposit: LI.FI can
+  // swap a little of the amount into gas there (on by default, the deposit fails without)
+  const destinationChainIds = useMemo(
+    () => fundingPlan?.strategy.id === 'lifi'
+      ? fundingPlan.targets.map(t => t.chainId).filter(id => id !== selectedChainId)
+      : [],
+    [fundingPlan, selectedChainId]
+  )
+  const { emptyChainIds: gaslessChainIds, isChecking: isCheckingGas } = useEmptyGasChains(destinationChainIds)
+  const [refuelEnabled, setRefuelEnabled] = useState(true)
+  const refuelSourceAmount = useMemo(() => {
+    if (!selectedToken || !(parseFloat(debouncedAmount) > 0)) return null
+    return refuelAmount(selectedToken, parseUnits(debouncedAmount, selectedToken.decimals))
+  }, [selectedToken, debouncedAmount])
+
+  // When auto-picking among several settlement chains, their deposit gas counts in the ranking
+  const rankedChainIds = useMemo(
+    () => fundingPlan?.strategy.id === 'lifi' && fundingPlan.targets.length > 1
+      ? fundingPlan.targets.map(t => t.chainId)
+      : [],
+    [fundingPlan]
+  )
+  const { costs: depositCostsUSD, isEstimating: isEstimatingCosts } = useDepositCostsUSD(rankedChainIds, chains)
 
-  // Fetch quote when inputs change
+  // LI.FI routes — the user picks one (defaults to the first for the chosen order)
+  const { settings: swapSettings, quoteOptions } = useSwapSettings()
+  const {
+    routes,
+    isLoading: quoteLoading,
+    isRefreshing: quoteRefreshing,
+    isThrottled: quoteThrottled,
+    error: quoteError,
+    fetchedAt: routesFetchedAt,
+    generation: routesGeneration,
+    fetchRoutes,
+    refresh: refreshRoutes,
+    clearRoutes,
+  } = useLiFiRoutes()
+  const [routeOrder, setRouteOrder] = useState<LiFiRouteOrder>('CHEAPEST')
+  // Selected by tools rather than id, so the choice survives background refreshes
+  const [selectedRouteKey, setSelectedRouteKey] = useState<string | null>(null)
+  const route = routes.find(r => routeKey(r) === selectedRouteKey) ?? routes[0] ?? null
+
+  // Fetch routes when inputs change
   useEffect(() => {
     if (!selectedToken || !selectedChainId || !address || !debouncedAmount) {
-      clearQuote()
+      clearRoutes()
       return
     }
 
     const amountNum = parseFloat(debouncedAmount)
     if (isNaN(amountNum) || amountNum <= 0) {
-      clearQuote()
+      clearRoutes()
       return
     }
 
-    const fromAmount = parseUnits(debouncedAmount, selectedToken.decimals).toString()
-
-    // Route to Base USDC for Yellow Network settlement
-    const toChain = 8453
-    const toToken = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' // USDC on Base
+    // Route to the chosen settlement chain, or to every chain the asset settles on
+    // so the cheapest can be picked; a direct deposit needs no routes
+    if (fundingPlan?.strategy.id !== 'lifi') {
+      clearRoutes()
+      return
+    }
+    // Wait for the gas checks, so routes are requested once, with any refuel
+    if (isCheckingGas || isEstimatingCosts) return
 
-    fetchQuote({
+    const fromAmount = parseUnits(debouncedAmount, selectedToken.decimals).toString()
+    const requests = fundingPlan.targets.map(target => ({
       fromChain: selectedChainId,
-      toChain,
+      toChain: target.chainId,
       fromToken: selectedToken.address,
-      toToken,
+      toToken: target.tokenAddress,
       fromAmount,
       fromAddress: address,
-    })
-  }, [selectedToken, selectedChainId, address, debouncedAmount, clearQuote, fetchQuote])
+      fromAmountForGas: refuelEnabled && refuelSourceAmount && gaslessChainIds.has(target.chainId)
+        ? refuelSourceAmount.toString()
+        : undefined,
+      ...quoteOptions,
+      order: routeOrder,
+    }))
+
+    fetchRoutes(requests.length === 1 ? requests[0]! : requests, depositCostsUSD)
+  }, [selectedToken, selectedChainId, address, debouncedAmount, fundingPlan, isCheckingGas, isEstimatingCosts, depositCostsUSD, gaslessChainIds, refuelEnabled, refuelSourceAmount, routeOrder, quoteOptions, clearRoutes, fetchRoutes])
+
+  // Destination chains the current routes settle on; more than one when auto-picking
+  const routeChainIds = useMemo(() => Array.from(new Set(routes.map(r => r.toChainId))), [routes])
+
+  // Refuel for the selected route's destination: the part of the amount swapped and the gas it buys
+  const destinationGasless = !!route && gaslessChainIds.has(route.toChainId)
+  const refuelOffer = useMemo(() => {
+    if (!route || !selectedToken || !refuelSourceAmount || !gaslessChainIds.has(route.toChainId)) return null
+    const native = chains.find(c => c.id === route.toChainId)?.nativeToken
+    const gas = native ? estimateRefuelNative(selectedToken, refuelSourceAmount, native) : null
+    return {
+      nativeSymbol: native?.symbol ?? 'gas',
+      nativeAmount: native && gas ? parseFloat(formatUnits(gas, native.decimals)).toPrecision(3) : null,
+      sourceAmount: formatUnits(refuelSourceAmount, selectedToken.decimals),
+    }
+  }, [route, selectedToken, refuelSourceAmount, gaslessChainIds, chains])
 
   // Transaction execution state
   const [txHash, setTxHash] = useState<string | null>(null)
   const [txError, setTxError] = useState<string | null>(null)
   const [isExecuting, setIsExecuting] = useState(false)
+  const [approvalStatus, setApprovalStatus] = useState<LiFiApprovalStatus | null>(null)
+  const [unlimitedApproval, setUnlimitedApproval] = useState(false)
   // Step tracking: 'swap' (LI.FI swap/bridge) → 'deposit' (Yellow custody) → 'done'
   const [fundStep, setFundStep] = useState<'idle' | 'swap' | 'deposit' | 'done'>('idle')
   const fundTxIdRef = useRef<string | null>(null)
+  // Aborted on unmount, so a multi-step route stops waiting on an intermediate bridge
+  const lifecycleRef = useRef<AbortController | null>(null)
+  useEffect(() => {
+    const controller = new AbortController()
+    lifecycleRef.current = controller
+    return () => controller.abort()
+  }, [])
+  // The route being executed, the index of its current step, and its populated last step
+  const [executingRoute, setExecutingRoute] = useState<LiFiRoute | null>(null)
+  const [routeStepIndex, setRouteStepIndex] = useState(0)
+  const [finalStep, setFinalStep] = useState<LiFiQuote | null>(null)
+  // What the last step actually delivered, once LI.FI reports it
+  const [arrival, setArrival] = useState<Arrival | null>(null)
+  // A direct deposit (no LI.FI) in progress or done: what is being deposited
+  const [directDeposit, setDirectDeposit] = useState<{ amount: string; symbol: string } | null>(null)
 
-  // Track transaction status
+  // Track the last step's transaction status
   const { status: txStatus } = useTransactionStatus(
     txHash,
-    quote?.action.fromChainId ?? 0,
-    quote?.action.toChainId ?? 0,
-    quote?.tool,
+    finalStep?.action.fromChainId ?? 0,
+    finalStep?.action.toChainId ?? 0,
+    finalStep?.tool,
   )
 
+  // Dry-run the route's first step for this wallet before it can be executed
+  const preflight = useLiFiPreflight(fundStep === 'idle' && !isExecuting ? route?.steps[0] ?? null : null)
+
+  // Refresh routes while idle; a price that moved since it was shown needs accepting
+  const freshness = useQuoteFreshness({
+    fetchedAt: routesFetchedAt,
+    isRefreshing: quoteRefreshing,
+    refresh: refreshRoutes,
+    paused: isExecuting || fundStep !== 'idle',
+    baselineKey: `${routesGeneration}:${route ? routeKey(route) : ''}`,
+    amount: route?.toAmount ?? null,
+  })
+
   // Handle fund execution — two-step process:
-  // Step 1: LI.FI swap/bridge to get the right token on the right chain
+  // Step 1: LI.FI swap/bridge to get the right token on the right chain (after any token approval)
   // Step 2: Deposit into Yellow Network custody contract
   const handleFund = useCallback(async () => {
-    if (!quote || !walletClient || !address) return
+    if (!route || !address) return
 
     setIsExecuting(true)
     setTxError(null)
+    setApprovalStatus(null)
+    setExecutingRoute(route)
+    setRouteStepIndex(0)
     setFundStep('swap')
 
     // Log to tx history
-    const toAmount = formatUnits(BigInt(quote.estimate.toAmount), quote.action.toToken.decimals)
+    const toAmount = formatUnits(BigInt(route.toAmount), route.toToken.decimals)
     const chain = chains.find(c => c.id === selectedChainId)
     const tx = addTx({
       type: 'fund',
       status: 'pending',
-      asset: quote.action.toToken.symbol.toLowerCase(),
+      asset: route.toToken.symbol.toLowerCase(),
       amount: toAmount,
       sourceToken: selectedToken?.symbol,
       sourceAmount: amount,
       sourceChain: chain?.name,
+      gasRefuel: refuelEnabled && refuelOffer?.nativeAmount ? `${refuelOffer.nativeAmount} ${refuelOffer.nativeSymbol}` : undefined,
     })
     fundTxIdRef.current = tx.id
 
     try {
-      // Step 1: Execute LI.FI swap/bridge
-      const hash = await walletClient.sendTransaction({
-        to: quote.transactionRequest.to as `0x${string}`,
-        data: quote.transactionRequest.data as `0x${string}`,
-        value: BigInt(quote.transactionRequest.value || '0'),
-        gas: BigInt(quote.transactionRequest.gasLimit),
+      // Step 1: Execute the LI.FI route, step by step
+      const { txHash: hash, step } = await executeLiFiRoute(route, chainClients, {
+        unlimitedApproval,
+        signal: lifecycleRef.current?.signal,
+        onApproval: setApprovalStatus,
+        onStep: index => {
+          setRouteStepIndex(index)
+          setApprovalStatus(null)
+        },
+        onStepSent: (_, stepHash) => updateTx(tx.id, { txHash: stepHash }),
       })
+      setFinalStep(step)
       setTxHash(hash)
-      updateTx(tx.id, { txHash: hash })
+      // Persist so a reload mid-bridge can still finish the deposit
+      savePendingOp({ id: tx.id, kind: 'fund', wallet: address, step: 'swap', txHash: hash, quote: step, startedAt: Date.now() })
       // Step 2 triggers when txStatus becomes 'DONE' (see effect below)
     } catch (e) {
       const msg = e instanceof Error ? e.message : 'Transaction failed'
@@ -177,52 +387,134 @@ export function FundAccount() {
       } else {
         setTxError(msg)
       }
-      updateTx(tx.id, { status: 'failed' })
+      // Caught by the pre-flight before anything was sent: nothing to keep in the history
+      if (e instanceof PreflightError && !getTx(tx.id)?.txHash) removeTx(tx.id)
+      else updateTx(tx.id, { status: 'failed' })
       setFundStep('idle')
     } finally {
       setIsExecuting(false)
     }
-  }, [quote, walletClient, address, fetchBalances, chains, selectedChainId, selectedToken, amount])
+  }, [route, chainClients, address, fetchBalances, chains, selectedChainId, selectedToken, amount, unlimitedApproval, refuelEnabled, refuelOffer])
+
+  // Direct deposit: the token already is a settlement token, so it goes straight into
+  // custody on its chain (approving first if needed) — no LI.FI quote or status polling
+  const handleDirectDeposit = useCallback(async () => {
+    if (!selectedToken || !selectedChainId || !address || !amount) return
+
+    setIsExecuting(true)
+    setTxError(null)
+    setDirectDeposit({ amount, symbol: selectedToken.symbol })
+    setFundStep('deposit')
 
-  // When LI.FI transfer completes → deposit into Yellow Network custody
+    const tx = addTx({
+      type: 'fund',
+      status: 'pending',
+      asset: selectedToken.symbol.toLowerCase(),
+      amount,
+      sourceToken: selectedToken.symbol,
+      sourceAmount: amount,
+      sourceChain: chains.find(c => c.id === selectedChainId)?.name,
+    })
+    fundTxIdRef.current = tx.id
+
+    try {
+      const result = await depositToYellow(
+        selectedToken.address as Address,
+        parseUnits(amount, selectedToken.decimals),
+        selectedChainId,
+      )
+      setTxHash(result.txHash)
+      updateTx(tx.id, { status: 'completed', txHash: result.txHash })
+      setFundStep('done')
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : 'Deposit to Yellow Network failed'
+      if (msg.includes('rejected') || msg.includes('denied')) {
+        setTxError('Transaction was rejected')
+      } else {
+        setTxError(msg)
+      }
+      if (e instanceof PreflightError) removeTx(tx.id)
+      else updateTx(tx.id, { status: 'failed' })
+      setDirectDeposit(null)
+      setFundStep('idle')
+    } finally {
+      setIsExecuting(false)
+    }
+  }, [selectedToken, selectedChainId, address, amount, chains, depositToYellow])
+
+  // When the LI.FI transfer ends → deposit what actually arrived into Yellow Network custody
   useEffect(() => {
-    if (txStatus?.status !== 'DONE' || fundStep !== 'swap') return
-    if (!quote || !address) return
+    if (!txStatus || fundStep !== 'swap') return
+    if (!finalStep || !address) return
+    const result = describeArrival(txStatus, finalStep)
+    if (!result) return
+
+    const txId = fundTxIdRef.current
+    const received = result.received
+    setArrival(result)
+
+    // Refunded, or a token arrived that custody doesn't take — stop with next steps
+    const problem = arrivalProblem(result, 'fund')
+    if (problem) {
+      setTxError(problem)
+      setFundStep('idle')
+      if (txId) {
+        updateTx(txId, { status: 'failed', ...arrivalTxFields(result) })
+        removePendingOp(txId)
+      }
+      return
+    }
 
     const doDeposit = async () => {
       setFundStep('deposit')
+      if (txId) {
+        updateTx(txId, { asset: received.token.symbol.toLowerCase(), amount: result.receivedAmount, ...arrivalTxFields(result) })
+        updatePendingOp(txId, {
+          step: 'deposit',
+          received: { token: received.token, chainId: received.chainId, amount: received.amount.toString() },
+        })
+      }
       try {
-        const toToken = quote.action.toToken
-        const toAmount = BigInt(quote.estimate.toAmount)
-        const toChainId = quote.action.toChainId
-
         await depositToYellow(
-          toToken.address as Address,
-          toAmount,
-          toChainId,
+          received.token.address as Address,
+          received.amount,
+          received.chainId,
+          depositTxHash => { if (txId) updatePendingOp(txId, { depositTxHash }) },
         )
         setFundStep('done')
-        if (fundTxIdRef.current) updateTx(fundTxIdRef.current, { status: 'completed' })
+        if (fundTxIdRef.current) {
+          updateTx(fundTxIdRef.current, { status: 'completed' })
+          removePendingOp(fundTxIdRef.current)
+        }
       } catch (e) {
         const msg = e instanceof Error ? e.message : 'Deposit to Yellow Network failed'
         setTxError(msg)
-        if (fundTxIdRef.current) updateTx(fundTxIdRef.current, { status: 'failed' })
+        // The bridged tokens are still in the wallet — keep the operation so it can be finished later
+        if (fundTxIdRef.current) updatePendingOp(fundTxIdRef.current, { error: msg })
         setFundStep('idle')
       }
     }
 
     doDeposit()
-  }, [txStatus?.status, fundStep, quote, address, depositToYellow])
+  }, [txStatus, fundStep, finalStep, address, depositToYellow])
 
   // Reset for new transaction
   const handleReset = () => {
     setTxHash(null)
     setTxError(null)
+    setApprovalStatus(null)
+    setExecutingRoute(null)
+    setFinalStep(null)
+    setArrival(null)
+    setDirectDeposit(null)
     setFundStep('idle')
     setAmount('')
-    clearQuote()
+    clearRoutes()
+    pendingOps.refresh()
   }
 
+  const needsApproval = !!route && route.steps.some(quoteNeedsApproval)
+
   // --- Render ---
 
   if (!walletConnected) {
@@ -235,19 +527,99 @@ export function FundAccount() {
     )
   }
 
+  // Direct deposit in progress or completed
+  if (directDeposit) {
+    return (
+      <div className="p-6 bg-gray-900 rounded-xl border border-gray-800 space-y-4">
+        <h3 className="text-lg font-medium text-white">
+          {fundStep === 'done' ? 'Funding Complete' : 'Funding in Progress'}
+        </h3>
+
+        <YellowConnectionBanner
+          connectionState={connectionState}
+          reconnectAttempt={reconnectAttempt}
+          onRetry={retryConnection}
+        />
+
+        <div className="space-y-3">
+          <StatusStep
+            label={`Depositing ${directDeposit.amount} ${directDeposit.symbol} to Yellow Network`}
+            status={fundStep === 'done' ? 'done' : 'active'}
+          />
+          <StatusStep
+            label="Funds available"
+            status={fundStep === 'done' ? 'done' : 'pending'}
+          />
+        </div>
+
+        {fundStep === 'done' && (
+          <div className="p-3 bg-green-900/20 border border-green-700 rounded-lg">
+            <p className="text-sm text-green-400">
+              {directDeposit.amount} {directDeposit.symbol} is now available in your Yellow Network account.
+            </p>
+            {yellowConnected && isAuthenticated && (
+              <p className="text-xs text-green-500 mt-1">
+                Balance: {fundedAsset.amount} {fundedAsset.label}
+              </p>
+            )}
+          </div>
+        )}
+
+        {fundStep === 'done' && (
+          <button
+            onClick={handleReset}
+            className="w-full py-3 bg-gray-700 hover:bg-gray-600 text-white
+                       font-medium rounded-lg transition-colors"
+          >
+            Fund Again
+          </button>
+        )}
+
+        {txHash && (
+          <p className="text-xs text-gray-500 text-center">
+            {`TX: ${txHash.slice(0, 10)}...${txHash.slice(-8)}`}
+          </p>
+        )}
+      </div>
+    )
+  }
+
   // Transaction in progress or completed
-  if (txHash) {
+  if (executingRoute && (txHash || isExecuting)) {
+    const lastIndex = executingRoute.steps.length - 1
+    const currentStep = executingRoute.steps[routeStepIndex]!
+    const lastStep = executingRoute.steps[lastIndex]!
+
     return (
       <div className="p-6 bg-gray-900 rounded-xl border border-gray-800 space-y-4">
         <h3 className="text-lg font-medium text-white">
           {fundStep === 'done' ? 'Funding Complete' : 'Funding in Progress'}
         </h3>
 
+        <YellowConnectionBanner
+          connectionState={connectionState}
+          reconnectAttempt={reconnectAttempt}
+          onRetry={retryConnection}
+        />
+
         {/* Status indicator */}
         <div className="space-y-3">
+          {executingRoute.steps.slice(0, lastIndex).map((step, i) => (
+            <StatusStep
+              key={step.id}
+              label={`${step.toolDetails.name}: ${step.action.fromToken.symbol} → ${step.action.toToken.symbol}`}
+              status={i < routeStepIndex ? 'done' : i === routeStepIndex ? 'active' : 'pending'}
+            />
+          ))}
+          {!txHash && quoteNeedsApproval(currentStep) && (
+            <StatusStep
+              label={`Approve ${currentStep.action.fromToken.symbol}`}
+              status={approvalStatus === 'approved' ? 'done' : approvalStatus ? 'active' : 'pending'}
+            />
+          )}
           <StatusStep
             label="Transaction sent"
-            status="done"
+            status={txHash ? 'done' : routeStepIndex === lastIndex && approvalStatus === 'approved' ? 'active' : 'pending'}
           />
           <StatusStep
             label="Source chain confirmation"
@@ -258,7 +630,7 @@ export function FundAccount() {
             }
           />
           <StatusStep
-            label={quote?.type === 'cross' ? 'Bridging to destination' : 'Swapping tokens'}
+            label={lastStep.type === 'cross' ? 'Bridging to destination' : 'Swapping tokens'}
             status={
               !txStatus ? 'pending'
               : txStatus.substatus === 'WAIT_DESTINATION_TRANSACTION' ? 'active'
@@ -291,17 +663,30 @@ export function FundAccount() {
         {fundStep === 'done' && (
           <div className="p-3 bg-green-900/20 border border-green-700 rounded-lg">
             <p className="text-sm text-green-400">
-              Funds are now available in your Yellow Network account.
+              {arrival
+                ? `${arrival.receivedAmount} ${arrival.received.token.symbol} is now available in your Yellow Network account.`
+                : 'Funds are now available in your Yellow Network account.'}
             </p>
+            {arrival?.outcome === 'partial' && (
+              <p className="text-xs text-yellow-400 mt-1">
+                The bridge delivered {arrival.received.token.symbol} instead of the quoted token.
+              </p>
+            )}
             {yellowConnected && isAuthenticated && (
               <p className="text-xs text-green-500 mt-1">
-                Balance: {yellowBalance} {DEFAULT_ASSET_LABEL}
+                Balance: {fundedAsset.amount} {fundedAsset.label}
               </p>
             )}
           </div>
         )}
 
-        {(fundStep === 'done' || txStatus?.status === 'FAILED') && (
+        {txError && !isExecuting && (
+          <div className="p-3 bg-red-900/20 border border-red-700 rounded-lg">
+            <p className="text-sm text-red-400">{txError}</p>
+          </div>
+        )}
+
+        {(fundStep === 'done' || txStatus?.status === 'FAILED' || (txError && !isExecuting)) && (
           <button
             onClick={handleReset}
             className="w-full py-3 bg-gray-700 hover:bg-gray-600 text-white
@@ -311,21 +696,73 @@ export function FundAccount() {
           </button>
         )}
 
-        <p className="text-xs text-gray-500 text-center">
-          {`TX: ${txHash.slice(0, 10)}...${txHash.slice(-8)}`}
-        </p>
+        {txHash && (
+          <p className="text-xs text-gray-500 text-center">
+            {`TX: ${txHash.slice(0, 10)}...${txHash.slice(-8)}`}
+          </p>
+        )}
+      </div>
+    )
+  }
+
+  const modeToggle = (
+    <div className="flex bg-gray-800 rounded-lg p-1 border border-gray-700">
+      {(['single', 'sweep'] as const).map(mode => (
+        <button
+          key={mode}
+          onClick={() => setFundMode(mode)}
+          disabled={sweepActive}
+          className={`flex-1 py-2 text-sm font-medium rounded-md transition-colors disabled:cursor-not-allowed ${
+            fundMode === mode
+              ? 'bg-gray-600 text-white'
+              : 'text-gray-400 hover:text-white'
+          }`}
+        >
+          {mode === 'single' ? 'Single Token' : 'Sweep Wallet'}
+        </button>
+      ))}
+    </div>
+  )
+
+  // Sweep: many balances into one deposit
+  if (fundMode === 'sweep') {
+    return (
+      <div className="p-6 bg-gray-900 rounded-xl border border-gray-800 space-y-5">
+        <YellowConnectionBanner
+          connectionState={connectionState}
+          reconnectAttempt={reconnectAttempt}
+          onRetry={retryConnection}
+        />
+        {modeToggle}
+        <SweepFunding onActiveChange={setSweepActive} />
       </div>
     )
   }
 
   return (
     <div className="p-6 bg-gray-900 rounded-xl border border-gray-800 space-y-5">
+      <YellowConnectionBanner
+        connectionState={connectionState}
+        reconnectAttempt={reconnectAttempt}
+        onRetry={retryConnection}
+      />
+
+      {modeToggle}
+
+      <PendingOpsPanel
+        ops={pendingOps.ops}
+        busyId={pendingOps.busyId}
+        canFinish={yellowConnected && isAuthenticated}
+        onFinish={pendingOps.finish}
+        onDismiss={pendingOps.dismiss}
+      />
+
       {/* Yellow Network balance */}
       {yellowConnected && isAuthenticated && (
         <div className="flex justify-between items-center p-3 bg-gray-800 rounded-lg">
           <div>
             <p className="text-xs text-gray-500">Yellow Network Balance</p>
-            <p className="text-lg font-semibold text-white">{yellowBalance} {DEFAULT_ASSET_LABEL}</p>
+            <p className="text-lg font-semibold text-white">{fundedAsset.amount} {fundedAsset.label}</p>
           </div>
           <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-900/30 text-green-400 border border-green-800/50">
             Connected
@@ -400,11 +837,75 @@ export function FundAccount() {
         )}
       </div>
 
+      {/* Yellow asset + settlement chain */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-300">
+            Deposit As
+          </label>
+          <select
+            value={targetAsset}
+            onChange={(e) => {
+              setTargetAsset(e.target.value)
+              setSettlementChainId(null)
+            }}
+            className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg
+                       text-white focus:outline-none focus:ring-2 focus:ring-yellow-500
+                       focus:border-transparent appearance-none cursor-pointer"
+          >
+            {Object.entries(SETTLEMENT_CHAINS).map(([asset, tokens]) => (
+              <option key={asset} value={asset}>
+                {tokens[0]!.symbol}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-300">
+            Settle On
+          </label>
+          <select
+            value={settlementChainId ?? ''}
+            onChange={(e) => setSettlementChainId(e.target.value ? Number(e.target.value) : null)}
+            disabled={settlementOptions.length < 2}
+            className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg
+                       text-white focus:outline-none focus:ring-2 focus:ring-yellow-500
+                       focus:border-transparent appearance-none cursor-pointer
+                       disabled:cursor-default"
+          >
+            <option value="">
+              {settlementOptions.length > 1 ? 'Cheapest chain' : settlementOptions[0] ? chainName(settlementOptions[0].chainId) : '—'}
+            </option>
+            {settlementOptions.length > 1 && settlementOptions.map(option => (
+              <option key={option.chainId} value={option.chainId}>
+                {chainName(option.chainId)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {!isAuthenticated ? (
+        <p className="text-xs text-gray-500">
+          Connect to Yellow Network to see the chains it accepts deposits on.
+        </p>
+      ) : assetsError ? (
+        <p className="text-xs text-red-400">
+          Couldn&apos;t load the tokens Yellow Network accepts: {assetsError}
+        </p>
+      ) : clearNodeAssets && settlementOptions.length === 0 && (
+        <p className="text-xs text-yellow-400">
+          Yellow Network doesn&apos;t accept {getAssetLabel(targetAsset)} deposits on any chain LI.FI reaches — pick another asset.
+        </p>
+      )}
+
       {/* Amount input */}
       <div className="space-y-2">
-        <label className="block text-sm font-medium text-gray-300">
-          Amount
-        </label>
+        <div className="flex justify-between items-center">
+          <label className="block text-sm font-medium text-gray-300">
+            Amount
+          </label>
+          <SwapSettingsPopover disabled={isExecuting} />
+        </div>
         <div className="relative">
           <input
             type="number"
@@ -435,50 +936,86 @@ export function FundAccount() {
         <div className="p-4 bg-gray-800/50 rounded-lg border border-gray-700/50">
           <div className="flex items-center gap-2 text-gray-400">
             <div className="w-4 h-4 border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
-            <span className="text-sm">Finding best route...</span>
+            <span className="text-sm">
+              {quoteThrottled ? 'Finding routes (slowed down to save LI.FI rate limit)...' : 'Finding routes...'}
+            </span>
           </div>
         </div>
       )}
 
-      {quote && !quoteLoading && (
-        <div className="p-4 bg-gray-800/50 rounded-lg border border-gray-700/50 space-y-3">
-          <div className="flex justify-between items-center">
-            <span className="text-sm text-gray-400">You receive</span>
-            <span className="text-lg font-semibold text-white">
-              {formatUnits(BigInt(quote.estimate.toAmount), quote.action.toToken.decimals)}{' '}
-              <span className="text-sm text-gray-400">{quote.action.toToken.symbol}</span>
-            </span>
-          </div>
+      {routes.length > 0 && !quoteLoading && (
+        <RoutePicker
+          routes={routes}
+          selectedRouteId={route?.id ?? null}
+          onSelect={id => {
+            const picked = routes.find(r => r.id === id)
+            if (picked) setSelectedRouteKey(routeKey(picked))
+          }}
+          order={routeOrder}
+          onOrderChange={setRouteOrder}
+          destinationName={routeChainIds.length > 1 ? chainName : undefined}
+          disabled={isExecuting}
+        />
+      )}
 
-          <div className="space-y-1.5 pt-2 border-t border-gray-700/50">
-            <QuoteDetail
-              label="Route"
-              value={`${quote.toolDetails.name} (${quote.type === 'cross' ? 'bridge' : 'swap'})`}
-            />
-            <QuoteDetail
-              label="Estimated time"
-              value={quote.estimate.executionDuration < 60
-                ? `~${quote.estimate.executionDuration}s`
-                : `~${Math.ceil(quote.estimate.executionDuration / 60)} min`
-              }
-            />
-            {quote.estimate.gasCosts[0] && (
-              <QuoteDetail
-                label="Gas cost"
-                value={`~$${quote.estimate.gasCosts[0].amountUSD}`}
-              />
-            )}
-            {quote.estimate.feeCosts[0] && (
-              <QuoteDetail
-                label="Fee"
-                value={`~$${quote.estimate.feeCosts[0].amountUSD}`}
-              />
-            )}
-            <QuoteDetail
-              label="Min received"
-              value={`${formatUnits(BigInt(quote.estimate.toAmountMin), quote.action.toToken.decimals)} ${quote.action.toToken.symbol}`}
-            />
-          </div>
+      {route && !quoteLoading && refuelOffer && selectedToken && (
+        <GasRefuelToggle
+          chainName={chainName(route.toChainId)}
+          nativeSymbol={refuelOffer.nativeSymbol}
+          nativeAmount={refuelOffer.nativeAmount}
+          sourceAmount={refuelOffer.sourceAmount}
+          sourceSymbol={selectedToken.symbol}
+          purpose="the Yellow Network deposit"
+          enabled={refuelEnabled}
+          onChange={setRefuelEnabled}
+          disabled={isExecuting}
+        />
+      )}
+      {route && !quoteLoading && destinationGasless && !refuelOffer && (
+        <div className="p-3 bg-yellow-900/20 border border-yellow-700/50 rounded-lg">
+          <p className="text-xs text-yellow-400">
+            Your wallet has no gas on {chainName(route.toChainId)}. Add some before the Yellow Network deposit there, or the deposit will fail.
+          </p>
+        </div>
+      )}
+
+      {route && !quoteLoading && routeChainIds.length > 1 && (
+        <p className="text-xs text-gray-500">
+          Settles on {chainName(route.toChainId)}
+          {route.toChainId === routes[0]!.toChainId && ` — the cheapest of ${routeChainIds.length} chains quoted`}
+        </p>
+      )}
+
+      {routes.length > 0 && !quoteLoading && (
+        <QuoteCountdown
+          secondsLeft={freshness.secondsLeft}
+          isExpired={freshness.isExpired}
+          isRefreshing={quoteRefreshing}
+          onRefresh={freshness.refreshNow}
+          disabled={isExecuting}
+        />
+      )}
+
+      {route && !quoteLoading && <RouteWarnings route={route} settings={swapSettings} />}
+
+      {route && !quoteLoading && freshness.priceMoved && freshness.shownAmount && (
+        <PriceChangeNotice
+          shownAmount={freshness.shownAmount}
+          amount={route.toAmount}
+          decimals={route.toToken.decimals}
+          symbol={route.toToken.symbol}
+          change={freshness.priceChange}
+        />
+      )}
+
+      {route && !quoteLoading && preflight.problem && (
+        <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg">
+          <p className="text-sm text-red-400">{preflight.problem}</p>
+        </div>
+      )}
+      {route && !quoteLoading && preflight.warning && (
+        <div className="p-3 bg-yellow-900/20 border border-yellow-700/50 rounded-lg">
+          <p className="text-xs text-yellow-400">{preflight.warning}</p>
         </div>
       )}
 
@@ -492,54 +1029,92 @@ export function FundAccount() {
         </div>
       )}
 
+      {needsApproval && (
+        <ApprovalToggle
+          tokenSymbol={route!.fromToken.symbol}
+          unlimited={unlimitedApproval}
+          onChange={setUnlimitedApproval}
+          disabled={isExecuting}
+        />
+      )}
+
       {txError && (
         <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg">
           <p className="text-sm text-red-400">{txError}</p>
         </div>
       )}
 
+      {isDirectDeposit && selectedToken && (
+        <div className="p-4 bg-gray-800/50 rounded-lg border border-gray-700/50">
+          <p className="text-sm text-white">Direct deposit</p>
+          <p className="text-xs text-gray-400 mt-1">
+            {selectedToken.symbol} on {selectedChainId ? chainName(selectedChainId) : 'this chain'} is already a Yellow Network
+            settlement token, so it goes straight into the custody contract — no swap, bridge or LI.FI fees.
+          </p>
+        </div>
+      )}
+
       {/* Fund button */}
-      <button
-        onClick={handleFund}
-        disabled={!quote || isExecuting || quoteLoading || (!!amount && parseFloat(amount) > parseFloat(formattedWalletBalance))}
-        className="w-full py-3 bg-yellow-500 hover:bg-yellow-400 disabled:bg-gray-700
-                   disabled:cursor-not-allowed text-black disabled:text-gray-400
-                   font-medium rounded-lg transition-colors
-                   flex items-center justify-center gap-2"
-      >
-        {isExecuting ? (
-          <>
-            <div className="w-4 h-4 border-2 border-black border-t-transparent rounded-full animate-spin" />
-            Confirming...
-          </>
-        ) : quote ? (
-          `Fund ${formatUnits(BigInt(quote.estimate.toAmount), quote.action.toToken.decimals)} ${quote.action.toToken.symbol}`
-        ) : amount ? (
-          'Enter amount for quote'
-        ) : (
-          'Enter amount'
-        )}
-      </button>
+      {isDirectDeposit ? (
+        <button
+          onClick={handleDirectDeposit}
+          disabled={!isValidAmount || isExecuting || parseFloat(amount) > parseFloat(formattedWalletBalance)}
+          className="w-full py-3 bg-yellow-500 hover:bg-yellow-400 disabled:bg-gray-700
+                     disabled:cursor-not-allowed text-black disabled:text-gray-400
+                     font-medium rounded-lg transition-colors
+                     flex items-center justify-center gap-2"
+        >
+          {isExecuting ? (
+            <>
+              <div className="w-4 h-4 border-2 border-black border-t-transparent rounded-full animate-spin" />
+              Confirming...
+            </>
+          ) : isValidAmount && selectedToken ? (
+            `Deposit ${amount} ${selectedToken.symbol}`
+          ) : (
+            'Enter amount'
+          )}
+        </button>
+      ) : (
+        <button
+          onClick={freshness.priceMoved ? freshness.confirmPrice : handleFund}
+          disabled={!route || isExecuting || quoteLoading || freshness.isExpired || !!preflight.problem || (!!amount && parseFloat(amount) > parseFloat(formattedWalletBalance))}
+          className="w-full py-3 bg-yellow-500 hover:bg-yellow-400 disabled:bg-gray-700
+                     disabled:cursor-not-allowed text-black disabled:text-gray-400
+                     font-medium rounded-lg transition-colors
+                     flex items-center justify-center gap-2"
+        >
+          {isExecuting ? (
+            <>
+              <div className="w-4 h-4 border-2 border-black border-t-transparent rounded-full animate-spin" />
+              Confirming...
+            </>
+          ) : route && freshness.isExpired ? (
+            'Quote expired — refresh to continue'
+          ) : route && freshness.priceMoved ? (
+            'Accept new price'
+          ) : route ? (
+            `Fund ${formatUnits(BigInt(route.toAmount), route.toToken.decimals)} ${route.toToken.symbol}`
+          ) : amount ? (
+            'Enter amount for quote'
+          ) : (
+            'Enter amount'
+          )}
+        </button>
+      )}
 
       {/* Info */}
-      <p className="text-xs text-gray-500 text-center">
-        Powered by LI.FI — best rates across 30+ bridges & DEXs
-      </p>
+      {!isDirectDeposit && (
+        <p className="text-xs text-gray-500 text-center">
+          Powered by LI.FI — best rates across 30+ bridges & DEXs
+        </p>
+      )}
     </div>
   )
 }
 
 // --- Sub-components ---
 
-function QuoteDetail({ label, value }: { label: string; value: string }) {
-  return (
-    <div className="flex justify-between items-center">
-      <span className="text-xs text-gray-500">{label}</span>
-      <span className="text-xs text-gray-300">{value}</span>
-    </div>
-  )
-}
-
 function StatusStep({ label, status }: { label: string; status: 'pending' | 'active' | 'done' }) {
   return (
     <div className="flex items-center gap-3">
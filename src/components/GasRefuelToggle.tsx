@@ -0,0 +1,47 @@
+'use client'
+
+interface GasRefuelToggleProps {
+  chainName: string
+  nativeSymbol: string
+  nativeAmount: string | null // human-readable estimate; null when LI.FI has no prices
+  sourceAmount: string // human-readable part of the amount swapped for gas
+  sourceSymbol: string
+  purpose: string // what the gas is needed for, e.g. "the Yellow Network deposit"
+  enabled: boolean
+  onChange: (enabled: boolean) => void
+  disabled?: boolean
+}
+
+// Offered when the wallet has no native gas on the destination chain: LI.FI swaps a
+// little of the amount into gas there as part of the same transfer
+export function GasRefuelToggle({
+  chainName,
+  nativeSymbol,
+  nativeAmount,
+  sourceAmount,
+  sourceSymbol,
+  purpose,
+  enabled,
+  onChange,
+  disabled,
+}: GasRefuelToggleProps) {
+  return (
+    <label className="flex items-start gap-2 p-3 bg-gray-800/50 rounded-lg border border-gray-700/50 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={enabled}
+        onChange={(e) => onChange(e.target.checked)}
+        disabled={disabled}
+        className="mt-0.5 accent-yellow-500"
+      />
+      <span className="text-xs text-gray-400">
+        Get {nativeSymbol} for gas on {chainName}
+        <span className="block text-gray-500">
+          {enabled
+            ? `Your wallet has no ${nativeSymbol} there for ${purpose}. ${sourceAmount} ${sourceSymbol} is swapped into ${nativeAmount ? `~${nativeAmount}` : 'some'} ${nativeSymbol} on arrival.`
+            : `Your wallet has no ${nativeSymbol} on ${chainName} — ${purpose} will fail until you add some.`}
+        </span>
+      </span>
+    </label>
+  )
+}
@@ -0,0 +1,153 @@
+'use client'
+
+import { useState, useCallback, useEffect, useRef, type ReactNode } from 'react'
+import { IncomingPaymentContext } from '@/hooks/useYellow'
+import { useENSName } from '@/hooks/useENS'
+import { getAssetLabel } from '@/lib/constants'
+import { addTx, updateTx } from '@/lib/txHistory'
+import type { IncomingPayment } from '@/lib/yellow'
+
+interface Toast {
+  id: string
+  payment: IncomingPayment
+  txId?: string // history record written for a payment with a known sender
+}
+
+const TOAST_DURATION_MS = 8_000
+// Every client on the page (e.g. Fund's form and sweep) reports the same credit, within
+// moments of each other; a credit without a ledger tx id is told apart by asset and amount
+const DUPLICATE_WINDOW_MS = 1_000
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`
+}
+
+function canNotify(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window
+}
+
+function paymentKey(payment: IncomingPayment): string {
+  return payment.ledgerTxId !== undefined
+    ? `tx:${payment.ledgerTxId}`
+    : `credit:${payment.asset.toLowerCase()}:${payment.amount}`
+}
+
+// Credits to the connected wallet on Yellow Network, as reported by the useYellow clients
+// of the forms rendered inside it: records received payments in tx history, shows a toast,
+// and (if the user allowed it) a browser notification while the tab is in the background.
+export function IncomingPaymentToasts({ children }: { children: ReactNode }) {
+  const [toasts, setToasts] = useState<Toast[]>([])
+  const [permission, setPermission] = useState<NotificationPermission | null>(null)
+  const recent = useRef(new Map<string, number>()) // payment key → when it was last reported
+
+  useEffect(() => {
+    if (canNotify()) setPermission(Notification.permission)
+  }, [])
+
+  const dismiss = useCallback((id: string) => {
+    setToasts(prev => prev.filter(t => t.id !== id))
+  }, [])
+
+  const handleIncoming = useCallback((payment: IncomingPayment) => {
+    const now = Date.now()
+    for (const [key, at] of recent.current) if (now - at > DUPLICATE_WINDOW_MS) recent.current.delete(key)
+    const key = paymentKey(payment)
+    if (recent.current.has(key)) return
+    recent.current.set(key, now)
+
+    const id = `${payment.receivedAt}-${Math.random().toString(36).slice(2, 8)}`
+
+    // Bare balance increases (no sender) may be the user's own deposit — toast only
+    const tx = payment.sender
+      ? addTx({
+          type: 'payment',
+          status: 'completed',
+          direction: 'incoming',
+          asset: payment.asset,
+          amount: payment.amount,
+          sender: payment.sender,
+          senderAddress: payment.sender,
+          ledgerTxId: payment.ledgerTxId,
+        })
+      : undefined
+
+    setToasts(prev => [...prev, { id, payment, txId: tx?.id }])
+    setTimeout(() => dismiss(id), TOAST_DURATION_MS)
+
+    if (canNotify() && Notification.permission === 'granted' && document.hidden) {
+      const amount = `${payment.amount} ${getAssetLabel(payment.asset)}`
+      new Notification(payment.sender ? 'Payment received' : 'Balance credited', {
+        body: payment.sender ? `${amount} from ${shortAddress(payment.sender)}` : `+${amount} on Yellow Network`,
+      })
+    }
+  }, [dismiss])
+
+  const enableAlerts = async () => {
+    setPermission(await Notification.requestPermission())
+  }
+
+  return (
+    <IncomingPaymentContext.Provider value={handleIncoming}>
+      {toasts.length > 0 && (
+        <div className="fixed top-20 right-4 z-50 w-80 space-y-2">
+          {toasts.map(toast => (
+            <PaymentToast
+              key={toast.id}
+              toast={toast}
+              onDismiss={() => dismiss(toast.id)}
+              onEnableAlerts={permission === 'default' ? enableAlerts : undefined}
+            />
+          ))}
+        </div>
+      )}
+      {children}
+    </IncomingPaymentContext.Provider>
+  )
+}
+
+interface PaymentToastProps {
+  toast: Toast
+  onDismiss: () => void
+  onEnableAlerts?: () => void
+}
+
+function PaymentToast({ toast, onDismiss, onEnableAlerts }: PaymentToastProps) {
+  const { payment, txId } = toast
+  const ensName = useENSName(payment.sender)
+  const assetLabel = getAssetLabel(payment.asset)
+
+  // Store the sender's ENS name once resolved, so History shows it
+  useEffect(() => {
+    if (ensName && txId) updateTx(txId, { sender: ensName })
+  }, [ensName, txId])
+
+  return (
+    <div className="p-3 bg-gray-900 border border-green-700/50 rounded-lg shadow-lg space-y-1">
+      <div className="flex justify-between items-start gap-2">
+        <p className="text-sm text-green-400 font-medium">
+          {payment.sender ? 'Payment received' : 'Balance credited'}
+        </p>
+        <button
+          onClick={onDismiss}
+          className="text-xs text-gray-500 hover:text-white transition-colors"
+        >
+          Dismiss
+        </button>
+      </div>
+      <p className="text-sm text-white">
+        +{payment.amount} {assetLabel}
+        {payment.sender && (
+          <span className="text-gray-400"> from {ensName ?? shortAddress(payment.sender)}</span>
+        )}
+      </p>
+      {onEnableAlerts && (
+        <button
+          onClick={onEnableAlerts}
+          className="text-xs text-blue-400 hover:text-blue-300 font-medium"
+        >
+          Notify me when this tab is in the background
+        </button>
+      )}
+    </div>
+  )
+}
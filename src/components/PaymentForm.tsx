@@ -1,19 +1,48 @@
 'use client'
 
 import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
-import { useAccount, useWalletClient, useBalance } from 'wagmi'
+import { useAccount, useBalance } from 'wagmi'
 import { parseUnits, formatUnits } from 'viem'
 import type { Address } from 'viem'
 import { ENSInput } from './ENSInput'
 import { useYellow } from '@/hooks/useYellow'
 import { useENSProfile } from '@/hooks/useENS'
-import { useLiFiQuote, useLiFiChains, useLiFiTokens, useTransactionStatus } from '@/hooks/useLiFi'
+import { useSwapSettings } from '@/hooks/useSwapSettings'
+import { usePendingOps } from '@/hooks/usePendingOps'
+import {
+  useLiFiQuote,
+  useLiFiRoutes,
+  useLiFiChains,
+  useLiFiChainClients,
+  useLiFiPreflight,
+  useLiFiTokens,
+  useQuoteFreshness,
+  useTransactionStatus,
+} from '@/hooks/useLiFi'
 import { DEFAULT_ASSET, getAssetLabel, getSettlementToken } from '@/lib/constants'
 import { UnsupportedChainBanner } from './UnsupportedChainBanner'
 import { RequestPayment } from './RequestPayment'
-import { addTx, updateTx } from '@/lib/txHistory'
+import { YellowConnectionBanner } from './YellowConnectionBanner'
+import { SessionPolicyEditor } from './SessionPolicyEditor'
+import { ApprovalToggle } from './ApprovalToggle'
+import { RoutePicker } from './RoutePicker'
+import { PendingOpsPanel } from './PendingOpsPanel'
+import { RouteWarnings, SwapSettingsPopover } from './SwapSettingsPopover'
+import { PriceChangeNotice, QuoteCountdown } from './QuoteFreshness'
+import { addTx, getTx, removeTx, updateTx } from '@/lib/txHistory'
+import { PreflightError } from '@/lib/preflight'
+import {
+  arrivalProblem,
+  arrivalTxFields,
+  describeArrival,
+  removePendingOp,
+  savePendingOp,
+  updatePendingOp,
+  type Arrival,
+} from '@/lib/pendingOps'
 import type { PaymentPrefill } from '@/app/page'
-import type { LiFiToken } from '@/lib/lifi'
+import { executeLiFiRoute, quoteNeedsApproval, quoteToRoute, routeKey } from '@/lib/lifi'
+import type { LiFiApprovalStatus, LiFiQuote, LiFiRoute, LiFiRouteOrder, LiFiToken } from '@/lib/lifi'
 
 // Debounce hook
 function useDebounce<T>(value: T, delayMs: number): T {
@@ -28,6 +57,21 @@ function useDebounce<T>(value: T, delayMs: number): T {
 type PayMode = 'balance' | 'wallet'
 type FormMode = 'send' | 'request'
 type WalletPayStep = 'idle' | 'swap' | 'deposit' | 'transfer' | 'done'
+// Any Token: spend a set source amount, or deliver a set amount of the settlement asset
+type AmountMode = 'source' | 'exact'
+
+// Exact-output quotes pad the requested output by the slippage tolerance, so even
+// the minimum received still covers the fixed payment
+function withSlippageBuffer(amount: bigint, slippage: number): bigint {
+  const denominator = BigInt(10_000 - Math.round(slippage * 10_000))
+  return (amount * BigInt(10_000) + denominator - BigInt(1)) / denominator // round up
+}
+
+// What's left in the Yellow balance after paying `fixedAmount` out of `received`
+function surplusAfter(received: string, fixedAmount: string, decimals: number): string | null {
+  const surplus = BigInt(received) - parseUnits(fixedAmount, decimals)
+  return surplus > BigInt(0) ? formatUnits(surplus, decimals) : null
+}
 
 interface PaymentFormProps {
   prefill?: PaymentPrefill | null
@@ -36,7 +80,7 @@ interface PaymentFormProps {
 
 export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
   const { address: walletAddress, isConnected: walletConnected, chain: currentChain } = useAccount()
-  const { data: walletClient } = useWalletClient()
+  const chainClients = useLiFiChainClients()
   const senderProfile = useENSProfile(walletAddress)
   const [senderAvatarOk, setSenderAvatarOk] = useState(false)
 
@@ -47,18 +91,27 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
   const {
     isConnected,
     isAuthenticated,
+    connectionState,
+    reconnectAttempt,
     balance,
     balances,
+    allowances,
+    sessionPolicy,
     error,
     isConnecting,
     isSending,
     connect,
+    setSessionPolicy,
+    retryConnection,
     sendPayment,
     disconnect,
     fetchBalances,
     depositToYellow,
   } = useYellow()
 
+  // Any Token payments interrupted by a reload — resumed here
+  const pendingOps = usePendingOps('payment', { depositToYellow, sendPayment, fetchBalances })
+
   // Shared state
   const [recipient, setRecipient] = useState('')
   const [resolvedRecipient, setResolvedRecipient] = useState<Address | null>(null)
@@ -71,12 +124,16 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
 
   // Payment mode toggle
   const [payMode, setPayMode] = useState<PayMode>('balance')
+  const [amountMode, setAmountMode] = useState<AmountMode>('source')
 
-  // Consume prefill from URL params
+  // Consume prefill from URL params — a requested amount is paid exactly in Any Token mode
   useEffect(() => {
     if (!prefill) return
     if (prefill.to) setRecipient(prefill.to)
-    if (prefill.amount) setAmount(prefill.amount)
+    if (prefill.amount) {
+      setAmount(prefill.amount)
+      setAmountMode('exact')
+    }
     if (prefill.asset) setSelectedAsset(prefill.asset)
     onPrefillConsumed?.()
   }, [prefill, onPrefillConsumed])
@@ -138,50 +195,151 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
     ? parseFloat(formatUnits(walletBalance.data.value, walletBalance.data.decimals)).toFixed(4)
     : '0.00'
 
-  // LI.FI quote for wallet mode
+  // LI.FI routes for wallet mode — the user picks one (defaults to the first for the chosen order)
+  const { settings: swapSettings, quoteOptions } = useSwapSettings()
   const debouncedSourceAmount = useDebounce(sourceAmount, 500)
-  const { quote, isLoading: quoteLoading, error: quoteError, fetchQuote, clearQuote } = useLiFiQuote()
+  const {
+    routes: sourceRoutes,
+    isLoading: routesLoading,
+    isRefreshing: routesRefreshing,
+    isThrottled: routesThrottled,
+    error: routesError,
+    fetchedAt: routesFetchedAt,
+    generation: routesGeneration,
+    fetchRoutes,
+    refresh: refreshRoutes,
+    clearRoutes,
+  } = useLiFiRoutes()
+  const [routeOrder, setRouteOrder] = useState<LiFiRouteOrder>('CHEAPEST')
+  // Selected by tools rather than id, so the choice survives background refreshes
+  const [selectedRouteKey, setSelectedRouteKey] = useState<string | null>(null)
+
+  // Exact-output mode: one reverse quote for the fixed amount, shown as a single route
+  const debouncedAmount = useDebounce(amount, 500)
+  const {
+    quote: exactQuote,
+    isLoading: exactLoading,
+    isRefreshing: exactRefreshing,
+    isThrottled: exactThrottled,
+    error: exactError,
+    fetchedAt: exactFetchedAt,
+    generation: exactGeneration,
+    fetchQuote,
+    refresh: refreshExactQuote,
+    clearQuote,
+  } = useLiFiQuote()
+  const exactRoutes = useMemo(() => exactQuote ? [quoteToRoute(exactQuote)] : [], [exactQuote])
+
+  const isExactOutput = amountMode === 'exact'
+  const routes = isExactOutput ? exactRoutes : sourceRoutes
+  const quoteLoading = isExactOutput ? exactLoading || amount !== debouncedAmount : routesLoading
+  const quoteError = isExactOutput ? exactError : routesError
+  const quoteThrottled = isExactOutput ? exactThrottled : routesThrottled
+  const quoteRefreshing = isExactOutput ? exactRefreshing : routesRefreshing
+
+  // Fetch LI.FI routes when wallet mode inputs change
+  useEffect(() => {
+    if (payMode !== 'wallet') return
+    if (isExactOutput || !selectedToken || !selectedChainId || !walletAddress || !debouncedSourceAmount) {
+      clearRoutes()
+      return
+    }
+
+    const amountNum = parseFloat(debouncedSourceAmount)
+    if (isNaN(amountNum) || amountNum <= 0) {
+      clearRoutes()
+      return
+    }
+
+    const fromAmount = parseUnits(debouncedSourceAmount, selectedToken.decimals).toString()
+    const settlement = getSettlementToken(selectedAsset)
+
+    fetchRoutes({
+      fromChain: selectedChainId,
+      toChain: settlement.chainId,
+      fromToken: selectedToken.address,
+      toToken: settlement.tokenAddress,
+      fromAmount,
+      fromAddress: walletAddress,
+      ...quoteOptions,
+      order: routeOrder,
+    })
+  }, [payMode, isExactOutput, selectedToken, selectedChainId, walletAddress, debouncedSourceAmount, selectedAsset, routeOrder, quoteOptions, clearRoutes, fetchRoutes])
 
-  // Fetch LI.FI quote when wallet mode inputs change
+  // Fetch a reverse quote for the fixed amount (plus slippage buffer) in exact-output mode
   useEffect(() => {
     if (payMode !== 'wallet') return
-    if (!selectedToken || !selectedChainId || !walletAddress || !debouncedSourceAmount) {
+    if (!isExactOutput || !selectedToken || !selectedChainId || !walletAddress || !debouncedAmount) {
       clearQuote()
       return
     }
 
-    const amountNum = parseFloat(debouncedSourceAmount)
+    const amountNum = parseFloat(debouncedAmount)
     if (isNaN(amountNum) || amountNum <= 0) {
       clearQuote()
       return
     }
 
-    const fromAmount = parseUnits(debouncedSourceAmount, selectedToken.decimals).toString()
     const settlement = getSettlementToken(selectedAsset)
+    const toAmount = withSlippageBuffer(parseUnits(debouncedAmount, settlement.decimals), swapSettings.slippage)
 
     fetchQuote({
       fromChain: selectedChainId,
       toChain: settlement.chainId,
       fromToken: selectedToken.address,
       toToken: settlement.tokenAddress,
-      fromAmount,
+      toAmount: toAmount.toString(),
       fromAddress: walletAddress,
+      ...quoteOptions,
     })
-  }, [payMode, selectedToken, selectedChainId, walletAddress, debouncedSourceAmount, selectedAsset, clearQuote, fetchQuote])
+  }, [payMode, isExactOutput, selectedToken, selectedChainId, walletAddress, debouncedAmount, selectedAsset, swapSettings.slippage, quoteOptions, clearQuote, fetchQuote])
 
   // Wallet mode execution state
   const [walletPayStep, setWalletPayStep] = useState<WalletPayStep>('idle')
   const [swapTxHash, setSwapTxHash] = useState<string | null>(null)
   const [walletPayError, setWalletPayError] = useState<string | null>(null)
   const [isExecuting, setIsExecuting] = useState(false)
+  const [approvalStatus, setApprovalStatus] = useState<LiFiApprovalStatus | null>(null)
+  const [unlimitedApproval, setUnlimitedApproval] = useState(false)
   const walletTxIdRef = useRef<string | null>(null)
+  // Aborted on unmount, so a multi-step route stops waiting on an intermediate bridge
+  const lifecycleRef = useRef<AbortController | null>(null)
+  useEffect(() => {
+    const controller = new AbortController()
+    lifecycleRef.current = controller
+    return () => controller.abort()
+  }, [])
+  // The route being executed, the index of its current step, and its populated last step
+  const [executingRoute, setExecutingRoute] = useState<LiFiRoute | null>(null)
+  const [routeStepIndex, setRouteStepIndex] = useState(0)
+  const [finalStep, setFinalStep] = useState<LiFiQuote | null>(null)
+  // What the last step actually delivered, and the amount sent on to the recipient
+  const [arrival, setArrival] = useState<Arrival | null>(null)
+  const [transferAmount, setTransferAmount] = useState<string | null>(null)
+
+  // Selected route; pinned to the executing one once a payment starts
+  const route = executingRoute ?? routes.find(r => routeKey(r) === selectedRouteKey) ?? routes[0] ?? null
+
+  // Dry-run the route's first step for this wallet before the payment can start
+  const preflight = useLiFiPreflight(payMode === 'wallet' && !executingRoute ? route?.steps[0] ?? null : null)
+
+  // Refresh quotes while idle; a price that moved since it was shown needs accepting.
+  // For a fixed amount the recipient's side can't change, so what matters is what the payer pays.
+  const freshness = useQuoteFreshness({
+    fetchedAt: isExactOutput ? exactFetchedAt : routesFetchedAt,
+    isRefreshing: quoteRefreshing,
+    refresh: isExactOutput ? refreshExactQuote : refreshRoutes,
+    paused: payMode !== 'wallet' || !!executingRoute || isExecuting,
+    baselineKey: `${amountMode}:${isExactOutput ? exactGeneration : routesGeneration}:${route ? routeKey(route) : ''}`,
+    amount: route ? (isExactOutput ? route.fromAmount : route.toAmount) : null,
+  })
 
-  // Track swap status
+  // Track the last step's swap status
   const { status: swapStatus } = useTransactionStatus(
     swapTxHash,
-    quote?.action.fromChainId ?? 0,
-    quote?.action.toChainId ?? 0,
-    quote?.tool,
+    finalStep?.action.fromChainId ?? 0,
+    finalStep?.action.toChainId ?? 0,
+    finalStep?.tool,
   )
 
   // Balance for selected asset
@@ -194,11 +352,35 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
     return isNaN(num) ? '0.00' : num.toFixed(2)
   })()
 
-  // Delivery amount from LI.FI quote (what the recipient gets)
-  const deliveryAmount = quote
-    ? formatUnits(BigInt(quote.estimate.toAmount), quote.action.toToken.decimals)
+  // Delivery amount (what the recipient gets): the fixed amount in exact-output mode, else the route's output
+  const deliveryAmount = !route
+    ? null
+    : isExactOutput
+      ? amount
+      : formatUnits(BigInt(route.toAmount), route.toToken.decimals)
+
+  // What the payer spends: typed in, or worked out by the reverse quote
+  const walletSourceAmount = !isExactOutput
+    ? sourceAmount
+    : route
+      ? formatUnits(BigInt(route.fromAmount), route.fromToken.decimals)
+      : ''
+
+  // Expected extra output over the fixed amount; it stays in the payer's Yellow balance
+  const expectedSurplus = isExactOutput && route && deliveryAmount
+    ? surplusAfter(route.toAmount, deliveryAmount, route.toToken.decimals)
     : null
 
+  // Session allowance left for the selected asset (null = not covered by the session policy)
+  const selectedAllowance = allowances.find(
+    a => a.asset.toLowerCase() === selectedAsset.toLowerCase()
+  ) ?? null
+  const exceedsAllowance = (value: string | null) =>
+    !!value && (!selectedAllowance || parseFloat(value) > parseFloat(selectedAllowance.remaining))
+  const allowanceMessage = selectedAllowance
+    ? `Exceeds your session allowance (${parseFloat(selectedAllowance.remaining).toFixed(2)} ${getAssetLabel(selectedAsset)} left)`
+    : `${getAssetLabel(selectedAsset)} is not allowed for this session. Reconnect to allow it.`
+
   // Handle connection
   const handleConnect = async () => {
     setTxStatus('idle')
@@ -223,8 +405,8 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
       recipientAddress: resolvedRecipient,
     })
     try {
-      await sendPayment(resolvedRecipient, amount, selectedAsset)
-      updateTx(tx.id, { status: 'completed' })
+      const result = await sendPayment(resolvedRecipient, amount, selectedAsset)
+      updateTx(tx.id, { status: 'completed', ledgerTxId: result.transactions[0]?.id })
       setTxStatus('success')
       setAmount('')
       setRecipient('')
@@ -239,10 +421,13 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
 
   // ─── Wallet mode: swap → deposit → transfer ───
   const handleSendFromWallet = useCallback(async () => {
-    if (!quote || !walletClient || !walletAddress || !resolvedRecipient || !deliveryAmount) return
+    if (!route || !walletAddress || !resolvedRecipient || !deliveryAmount) return
 
     setIsExecuting(true)
     setWalletPayError(null)
+    setApprovalStatus(null)
+    setExecutingRoute(route)
+    setRouteStepIndex(0)
     setWalletPayStep('swap')
 
     // Log to tx history
@@ -255,21 +440,40 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
       recipient: recipient || resolvedRecipient,
       recipientAddress: resolvedRecipient,
       sourceToken: selectedToken?.symbol,
-      sourceAmount: sourceAmount,
+      sourceAmount: walletSourceAmount,
       sourceChain: chain?.name,
     })
     walletTxIdRef.current = tx.id
 
     try {
-      // Step 1: Execute LI.FI swap/bridge
-      const hash = await walletClient.sendTransaction({
-        to: quote.transactionRequest.to as `0x${string}`,
-        data: quote.transactionRequest.data as `0x${string}`,
-        value: BigInt(quote.transactionRequest.value || '0'),
-        gas: BigInt(quote.transactionRequest.gasLimit),
+      // Step 1: Execute the LI.FI route step by step (approving tokens as needed)
+      const { txHash: hash, step } = await executeLiFiRoute(route, chainClients, {
+        unlimitedApproval,
+        signal: lifecycleRef.current?.signal,
+        onApproval: setApprovalStatus,
+        onStep: index => {
+          setRouteStepIndex(index)
+          setApprovalStatus(null)
+        },
+        onStepSent: (_, stepHash) => updateTx(tx.id, { txHash: stepHash }),
       })
+      setFinalStep(step)
       setSwapTxHash(hash)
-      updateTx(tx.id, { txHash: hash })
+      // Persist so a reload mid-bridge can still finish the deposit and transfer
+      savePendingOp({
+        id: tx.id,
+        kind: 'payment',
+        wallet: walletAddress,
+        step: 'swap',
+        txHash: hash,
+        quote: step,
+        recipient: recipient || resolvedRecipient,
+        recipientAddress: resolvedRecipient,
+        asset: selectedAsset,
+        amount: deliveryAmount,
+        exactOutput: isExactOutput,
+        startedAt: Date.now(),
+      })
       // Steps 2 & 3 trigger via effects when swapStatus changes
     } catch (e) {
       const msg = e instanceof Error ? e.message : 'Transaction failed'
@@ -278,80 +482,124 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
       } else {
         setWalletPayError(msg)
       }
-      updateTx(tx.id, { status: 'failed' })
+      // Caught by the pre-flight before anything was sent: nothing to keep in the history
+      if (e instanceof PreflightError && !getTx(tx.id)?.txHash) removeTx(tx.id)
+      else updateTx(tx.id, { status: 'failed' })
       setWalletPayStep('idle')
+      setExecutingRoute(null)
     } finally {
       setIsExecuting(false)
     }
-  }, [quote, walletClient, walletAddress, resolvedRecipient, deliveryAmount, selectedAsset, sendPayment, fetchBalances, chains, selectedChainId, selectedToken, sourceAmount, recipient])
+  }, [route, chainClients, walletAddress, resolvedRecipient, deliveryAmount, selectedAsset, sendPayment, fetchBalances, chains, selectedChainId, selectedToken, walletSourceAmount, recipient, unlimitedApproval, isExactOutput])
 
-  // Effect: when LI.FI swap completes → deposit to Yellow Network
+  // Effect: when the LI.FI swap ends → deposit what actually arrived to Yellow Network
   useEffect(() => {
-    if (swapStatus?.status !== 'DONE' || walletPayStep !== 'swap') return
-    if (!quote || !walletAddress) return
+    if (!swapStatus || walletPayStep !== 'swap') return
+    if (!finalStep || !walletAddress || !deliveryAmount) return
+    const result = describeArrival(swapStatus, finalStep)
+    if (!result) return
+
+    const txId = walletTxIdRef.current
+    const received = result.received
+    setArrival(result)
+
+    // Refunded, or a different token arrived — stop with next steps instead of paying
+    const problem = arrivalProblem(result, 'payment')
+    if (problem) {
+      setWalletPayError(problem)
+      setWalletPayStep('idle')
+      if (txId) {
+        updateTx(txId, { status: 'failed', ...arrivalTxFields(result) })
+        removePendingOp(txId)
+      }
+      return
+    }
+
+    // A fixed amount is paid as agreed; otherwise the recipient gets whatever arrived
+    const sendAmount = isExactOutput ? deliveryAmount : result.receivedAmount
+    setTransferAmount(sendAmount)
 
     const doDeposit = async () => {
       setWalletPayStep('deposit')
+      if (txId) {
+        updateTx(txId, { amount: sendAmount, ...arrivalTxFields(result) })
+        updatePendingOp(txId, {
+          step: 'deposit',
+          amount: sendAmount,
+          received: { token: received.token, chainId: received.chainId, amount: received.amount.toString() },
+        })
+      }
       try {
-        const toToken = quote.action.toToken
-        const toAmount = BigInt(quote.estimate.toAmount)
-        const toChainId = quote.action.toChainId
-
         await depositToYellow(
-          toToken.address as Address,
-          toAmount,
-          toChainId,
+          received.token.address as Address,
+          received.amount,
+          received.chainId,
+          depositTxHash => { if (txId) updatePendingOp(txId, { depositTxHash }) },
         )
         // Deposit done → now send the payment
+        if (txId) updatePendingOp(txId, { step: 'transfer' })
         setWalletPayStep('transfer')
       } catch (e) {
         const msg = e instanceof Error ? e.message : 'Deposit to Yellow Network failed'
         setWalletPayError(msg)
-        if (walletTxIdRef.current) updateTx(walletTxIdRef.current, { status: 'failed' })
+        // The bridged tokens are still in the wallet — keep the payment so it can be finished later
+        if (walletTxIdRef.current) updatePendingOp(walletTxIdRef.current, { error: msg })
         setWalletPayStep('idle')
       }
     }
 
     doDeposit()
-  }, [swapStatus?.status, walletPayStep, quote, walletAddress, depositToYellow])
+  }, [swapStatus, walletPayStep, finalStep, walletAddress, deliveryAmount, isExactOutput, depositToYellow])
 
   // Effect: when deposit completes → send payment to recipient
   useEffect(() => {
     if (walletPayStep !== 'transfer') return
-    if (!resolvedRecipient || !deliveryAmount) return
+    if (!resolvedRecipient || !transferAmount) return
 
     const doTransfer = async () => {
       try {
-        await sendPayment(resolvedRecipient, deliveryAmount, selectedAsset)
+        const result = await sendPayment(resolvedRecipient, transferAmount, selectedAsset)
         setWalletPayStep('done')
-        if (walletTxIdRef.current) updateTx(walletTxIdRef.current, { status: 'completed' })
+        if (walletTxIdRef.current) {
+          updateTx(walletTxIdRef.current, { status: 'completed', ledgerTxId: result.transactions[0]?.id })
+          removePendingOp(walletTxIdRef.current)
+        }
         fetchBalances()
       } catch (e) {
         const msg = e instanceof Error ? e.message : 'Payment transfer failed'
         setWalletPayError(msg)
-        if (walletTxIdRef.current) updateTx(walletTxIdRef.current, { status: 'failed' })
+        // Funds are in the Yellow balance — keep the payment so it can be sent later
+        if (walletTxIdRef.current) updatePendingOp(walletTxIdRef.current, { error: msg })
         setWalletPayStep('idle')
       }
     }
 
     doTransfer()
-  }, [walletPayStep, resolvedRecipient, deliveryAmount, selectedAsset, sendPayment, fetchBalances])
+  }, [walletPayStep, resolvedRecipient, transferAmount, selectedAsset, sendPayment, fetchBalances])
 
   // Reset wallet mode for a new payment
   const handleWalletReset = () => {
     setSwapTxHash(null)
     setWalletPayError(null)
+    setApprovalStatus(null)
+    setExecutingRoute(null)
+    setFinalStep(null)
+    setArrival(null)
+    setTransferAmount(null)
     setWalletPayStep('idle')
     setSourceAmount('')
-    clearQuote()
+    clearRoutes()
+    if (isExactOutput) setAmount('')
     setRecipient('')
     setResolvedRecipient(null)
+    pendingOps.refresh()
   }
 
   // --- Validation ---
   const isValidBalanceAmount = amount && parseFloat(amount) > 0 && parseFloat(amount) <= parseFloat(selectedBalance)
-  const isValidWalletAmount = sourceAmount && parseFloat(sourceAmount) > 0 && parseFloat(sourceAmount) <= parseFloat(formattedWalletBalance)
+  const isValidWalletAmount = walletSourceAmount && parseFloat(walletSourceAmount) > 0 && parseFloat(walletSourceAmount) <= parseFloat(formattedWalletBalance)
   const nonZeroBalances = balances.filter(b => parseFloat(b.amount) > 0)
+  const needsApproval = !!route && route.steps.some(quoteNeedsApproval)
 
   // --- Render: not wallet connected ---
   if (!walletConnected) {
@@ -365,7 +613,8 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
   }
 
   // --- Render: not connected to Yellow Network ---
-  if (!isConnected || !isAuthenticated) {
+  // (while the supervisor is reconnecting, keep the form and show a banner instead)
+  if ((!isConnected || !isAuthenticated) && connectionState !== 'reconnecting') {
     return (
       <div className="p-6 bg-gray-900 rounded-xl border border-gray-800 space-y-4">
         <div className="text-center">
@@ -377,6 +626,13 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
           </p>
         </div>
 
+        <SessionPolicyEditor
+          allowances={sessionPolicy}
+          balances={balances}
+          onChange={setSessionPolicy}
+          disabled={isConnecting}
+        />
+
         <button
           onClick={handleConnect}
           disabled={isConnecting}
@@ -402,7 +658,13 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
   }
 
   // --- Render: wallet mode transaction in progress ---
-  if (swapTxHash && payMode === 'wallet') {
+  if (executingRoute && (swapTxHash || isExecuting) && payMode === 'wallet') {
+    const lastIndex = executingRoute.steps.length - 1
+    const currentStep = executingRoute.steps[routeStepIndex]!
+    const keptSurplus = isExactOutput && arrival && transferAmount
+      ? surplusAfter(arrival.received.amount.toString(), transferAmount, arrival.received.token.decimals)
+      : null
+
     return (
       <div className="p-6 bg-gray-900 rounded-xl border border-gray-800 space-y-4">
         <h3 className="text-lg font-medium text-white">
@@ -410,8 +672,20 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
         </h3>
 
         <div className="space-y-3">
+          {executingRoute.steps.slice(0, lastIndex).map((step, i) => (
+            <StatusStep key={step.id} label={`${step.toolDetails.name}: ${step.action.fromToken.symbol} → ${step.action.toToken.symbol}`} status={
+              i < routeStepIndex ? 'done' : i === routeStepIndex ? 'active' : 'pending'
+            } />
+          ))}
+          {!swapTxHash && quoteNeedsApproval(currentStep) && (
+            <StatusStep label={`Approve ${currentStep.action.fromToken.symbol}`} status={
+              approvalStatus === 'approved' ? 'done' : approvalStatus ? 'active' : 'pending'
+            } />
+          )}
           <StatusStep label="Swapping tokens" status={
-            walletPayStep === 'swap' ? 'active' : walletPayStep !== 'idle' ? 'done' : 'pending'
+            walletPayStep === 'swap'
+              ? (swapTxHash || (routeStepIndex === lastIndex && approvalStatus === 'approved') ? 'active' : 'pending')
+              : walletPayStep !== 'idle' ? 'done' : 'pending'
           } />
           <StatusStep label="Depositing to Yellow Network" status={
             walletPayStep === 'deposit' ? 'active'
@@ -445,8 +719,13 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
         {walletPayStep === 'done' && (
           <div className="p-3 bg-green-900/20 border border-green-700 rounded-lg">
             <p className="text-sm text-green-400">
-              {deliveryAmount} {getAssetLabel(selectedAsset)} sent to {recipient || 'recipient'}
+              {transferAmount} {getAssetLabel(selectedAsset)} sent to {recipient || 'recipient'}
             </p>
+            {keptSurplus && (
+              <p className="text-xs text-green-400/70 mt-1">
+                ~{keptSurplus} {getAssetLabel(selectedAsset)} surplus kept in your Yellow balance
+              </p>
+            )}
           </div>
         )}
 
@@ -460,9 +739,11 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
           </button>
         )}
 
-        <p className="text-xs text-gray-500 text-center">
-          {`TX: ${swapTxHash.slice(0, 10)}...${swapTxHash.slice(-8)}`}
-        </p>
+        {swapTxHash && (
+          <p className="text-xs text-gray-500 text-center">
+            {`TX: ${swapTxHash.slice(0, 10)}...${swapTxHash.slice(-8)}`}
+          </p>
+        )}
       </div>
     )
   }
@@ -497,6 +778,20 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
         </button>
       </div>
 
+      <YellowConnectionBanner
+        connectionState={connectionState}
+        reconnectAttempt={reconnectAttempt}
+        onRetry={retryConnection}
+      />
+
+      <PendingOpsPanel
+        ops={pendingOps.ops}
+        busyId={pendingOps.busyId}
+        canFinish={isConnected && isAuthenticated}
+        onFinish={pendingOps.finish}
+        onDismiss={pendingOps.dismiss}
+      />
+
       {/* Sender info */}
       <div className="flex items-center gap-3 p-3 bg-gray-800 rounded-lg">
         <div className="relative w-9 h-9 flex-shrink-0">
@@ -636,15 +931,22 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
               </div>
             </div>
 
-            {amount && parseFloat(amount) > parseFloat(selectedBalance) && (
+            {amount && parseFloat(amount) > parseFloat(selectedBalance) ? (
               <p className="text-sm text-red-400">Insufficient balance</p>
+            ) : exceedsAllowance(amount) ? (
+              <p className="text-sm text-red-400">{allowanceMessage}</p>
+            ) : selectedAllowance && (
+              <p className="text-xs text-gray-500">
+                Session allowance: {parseFloat(selectedAllowance.remaining).toFixed(2)} of{' '}
+                {parseFloat(selectedAllowance.cap).toFixed(2)} {getAssetLabel(selectedAsset)} left
+              </p>
             )}
           </div>
 
           {/* Send button */}
           <button
             onClick={handleSendFromBalance}
-            disabled={!resolvedRecipient || !isValidBalanceAmount || isSending}
+            disabled={!resolvedRecipient || !isValidBalanceAmount || exceedsAllowance(amount) || isSending || !isAuthenticated}
             className="w-full py-3 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700
                        disabled:cursor-not-allowed text-white font-medium rounded-lg
                        transition-colors flex items-center justify-center gap-2"
@@ -664,7 +966,32 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
       {/* ═══ Wallet (Any Token) Mode ═══ */}
       {payMode === 'wallet' && (
         <>
-          {/* Delivery asset selector */}
+          {/* Amount mode toggle */}
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setAmountMode('source')}
+              className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-colors ${
+                amountMode === 'source'
+                  ? 'bg-gray-700 text-white'
+                  : 'text-gray-500 hover:text-gray-300'
+              }`}
+            >
+              I pay a set amount
+            </button>
+            <button
+              onClick={() => setAmountMode('exact')}
+              className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-colors ${
+                amountMode === 'exact'
+                  ? 'bg-gray-700 text-white'
+                  : 'text-gray-500 hover:text-gray-300'
+              }`}
+            >
+              Recipient gets a set amount
+            </button>
+            <SwapSettingsPopover disabled={isExecuting} />
+          </div>
+
+          {/* Delivery asset selector (+ fixed amount in exact-output mode) */}
           <div className="space-y-2">
             <label className="block text-sm font-medium text-gray-300">Recipient Gets</label>
             <select
@@ -678,6 +1005,24 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
               <option value="usdt">USDT</option>
               <option value="eth">ETH</option>
             </select>
+            {isExactOutput && (
+              <div className="relative">
+                <input
+                  type="number"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="0.00"
+                  min="0"
+                  step="any"
+                  className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg
+                             text-white placeholder-gray-500 focus:outline-none focus:ring-2
+                             focus:ring-yellow-500 focus:border-transparent pr-16"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-500">
+                  {getAssetLabel(selectedAsset)}
+                </span>
+              </div>
+            )}
           </div>
 
           {/* Source chain selector */}
@@ -742,6 +1087,7 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
           </div>
 
           {/* Source amount input */}
+          {!isExactOutput && (
           <div className="space-y-2">
             <label className="block text-sm font-medium text-gray-300">You Pay</label>
             <div className="relative">
@@ -768,19 +1114,31 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
               <p className="text-sm text-red-400">Insufficient wallet balance</p>
             )}
           </div>
+          )}
 
           {/* LI.FI Quote Preview */}
-          {quoteLoading && sourceAmount && (
+          {quoteLoading && (isExactOutput ? amount : sourceAmount) && (
             <div className="p-4 bg-gray-800/50 rounded-lg border border-gray-700/50">
               <div className="flex items-center gap-2 text-gray-400">
                 <div className="w-4 h-4 border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
-                <span className="text-sm">Finding best route...</span>
+                <span className="text-sm">
+                  {quoteThrottled ? 'Finding routes (slowed down to save LI.FI rate limit)...' : 'Finding routes...'}
+                </span>
               </div>
             </div>
           )}
 
-          {quote && !quoteLoading && (
-            <div className="p-4 bg-gray-800/50 rounded-lg border border-yellow-700/30 space-y-3">
+          {route && !quoteLoading && (
+            <div className="p-4 bg-gray-800/50 rounded-lg border border-yellow-700/30 space-y-2">
+              {isExactOutput && (
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-400">You pay</span>
+                  <span className="text-lg font-semibold text-white">
+                    {walletSourceAmount}{' '}
+                    <span className="text-sm text-gray-400">{route.fromToken.symbol}</span>
+                  </span>
+                </div>
+              )}
               <div className="flex justify-between items-center">
                 <span className="text-sm text-gray-400">Recipient gets</span>
                 <span className="text-lg font-semibold text-white">
@@ -788,32 +1146,74 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
                   <span className="text-sm text-gray-400">{getAssetLabel(selectedAsset)}</span>
                 </span>
               </div>
+              {isExactOutput && (
+                <p className="text-xs text-gray-500">
+                  Includes a {parseFloat((swapSettings.slippage * 100).toFixed(2))}% slippage buffer
+                  {expectedSurplus && ` — ~${expectedSurplus} ${getAssetLabel(selectedAsset)} left over stays in your Yellow balance`}
+                </p>
+              )}
+              {isExactOutput && parseFloat(walletSourceAmount) > parseFloat(formattedWalletBalance) && (
+                <p className="text-sm text-red-400">Insufficient wallet balance</p>
+              )}
+            </div>
+          )}
 
-              <div className="space-y-1.5 pt-2 border-t border-gray-700/50">
-                <QuoteDetail
-                  label="Route"
-                  value={`${quote.toolDetails.name} (${quote.type === 'cross' ? 'bridge' : 'swap'})`}
-                />
-                <QuoteDetail
-                  label="Estimated time"
-                  value={quote.estimate.executionDuration < 60
-                    ? `~${quote.estimate.executionDuration}s`
-                    : `~${Math.ceil(quote.estimate.executionDuration / 60)} min`
-                  }
-                />
-                {quote.estimate.gasCosts[0] && (
-                  <QuoteDetail
-                    label="Gas cost"
-                    value={`~$${quote.estimate.gasCosts[0].amountUSD}`}
-                  />
-                )}
-                {quote.estimate.feeCosts[0] && (
-                  <QuoteDetail
-                    label="Fee"
-                    value={`~$${quote.estimate.feeCosts[0].amountUSD}`}
-                  />
-                )}
-              </div>
+          {routes.length > 0 && !quoteLoading && (
+            <RoutePicker
+              routes={routes}
+              selectedRouteId={route?.id ?? null}
+              onSelect={id => {
+                const picked = routes.find(r => r.id === id)
+                if (picked) setSelectedRouteKey(routeKey(picked))
+              }}
+              order={isExactOutput ? undefined : routeOrder}
+              onOrderChange={isExactOutput ? undefined : setRouteOrder}
+              disabled={isExecuting}
+            />
+          )}
+
+          {routes.length > 0 && !quoteLoading && (
+            <QuoteCountdown
+              secondsLeft={freshness.secondsLeft}
+              isExpired={freshness.isExpired}
+              isRefreshing={quoteRefreshing}
+              onRefresh={freshness.refreshNow}
+              disabled={isExecuting}
+            />
+          )}
+
+          {route && !quoteLoading && <RouteWarnings route={route} settings={swapSettings} />}
+
+          {route && !quoteLoading && freshness.priceMoved && freshness.shownAmount && (
+            isExactOutput ? (
+              <PriceChangeNotice
+                shownAmount={freshness.shownAmount}
+                amount={route.fromAmount}
+                decimals={route.fromToken.decimals}
+                symbol={route.fromToken.symbol}
+                change={freshness.priceChange}
+                label="You pay"
+                higherIsBetter={false}
+              />
+            ) : (
+              <PriceChangeNotice
+                shownAmount={freshness.shownAmount}
+                amount={route.toAmount}
+                decimals={route.toToken.decimals}
+                symbol={route.toToken.symbol}
+                change={freshness.priceChange}
+              />
+            )
+          )}
+
+          {route && !quoteLoading && preflight.problem && (
+            <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg">
+              <p className="text-sm text-red-400">{preflight.problem}</p>
+            </div>
+          )}
+          {route && !quoteLoading && preflight.warning && (
+            <div className="p-3 bg-yellow-900/20 border border-yellow-700/50 rounded-lg">
+              <p className="text-xs text-yellow-400">{preflight.warning}</p>
             </div>
           )}
 
@@ -827,6 +1227,21 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
             </div>
           )}
 
+          {exceedsAllowance(deliveryAmount) && (
+            <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg">
+              <p className="text-sm text-red-400">{allowanceMessage}</p>
+            </div>
+          )}
+
+          {needsApproval && (
+            <ApprovalToggle
+              tokenSymbol={route!.fromToken.symbol}
+              unlimited={unlimitedApproval}
+              onChange={setUnlimitedApproval}
+              disabled={isExecuting}
+            />
+          )}
+
           {walletPayError && (
             <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg">
               <p className="text-sm text-red-400">{walletPayError}</p>
@@ -835,8 +1250,8 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
 
           {/* Send button */}
           <button
-            onClick={handleSendFromWallet}
-            disabled={!resolvedRecipient || !quote || !isValidWalletAmount || isExecuting || quoteLoading}
+            onClick={freshness.priceMoved ? freshness.confirmPrice : handleSendFromWallet}
+            disabled={!resolvedRecipient || !route || !isValidWalletAmount || exceedsAllowance(deliveryAmount) || isExecuting || quoteLoading || freshness.isExpired || !!preflight.problem}
             className="w-full py-3 bg-yellow-500 hover:bg-yellow-400 disabled:bg-gray-700
                        disabled:cursor-not-allowed text-black disabled:text-gray-400
                        font-medium rounded-lg transition-colors
@@ -847,9 +1262,13 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
                 <div className="w-4 h-4 border-2 border-black border-t-transparent rounded-full animate-spin" />
                 Confirming...
               </>
-            ) : quote && deliveryAmount ? (
+            ) : route && freshness.isExpired ? (
+              'Quote expired — refresh to continue'
+            ) : route && freshness.priceMoved ? (
+              'Accept new price'
+            ) : route && deliveryAmount ? (
               `Pay ${parseFloat(deliveryAmount).toFixed(2)} ${getAssetLabel(selectedAsset)} to Recipient`
-            ) : sourceAmount ? (
+            ) : (isExactOutput ? amount : sourceAmount) ? (
               'Getting quote...'
             ) : (
               'Enter amount'
@@ -889,15 +1308,6 @@ export function PaymentForm({ prefill, onPrefillConsumed }: PaymentFormProps) {
 
 // --- Sub-components ---
 
-function QuoteDetail({ label, value }: { label: string; value: string }) {
-  return (
-    <div className="flex justify-between items-center">
-      <span className="text-xs text-gray-500">{label}</span>
-      <span className="text-xs text-gray-300">{value}</span>
-    </div>
-  )
-}
-
 function StatusStep({ label, status }: { label: string; status: 'pending' | 'active' | 'done' }) {
   return (
     <div className="flex items-center gap-3">
@@ -0,0 +1,122 @@
+'use client'
+
+import { useAccount, useSwitchChain } from 'wagmi'
+import { formatUnits } from 'viem'
+import type { PendingOp, PendingOpStep } from '@/lib/pendingOps'
+import { getAssetLabel, YELLOW_CHAINS } from '@/lib/constants'
+
+const STEP_LABELS: Record<PendingOpStep, string> = {
+  swap: 'Bridging',
+  deposit: 'Ready to deposit',
+  transfer: 'Ready to send',
+  stopped: 'Needs attention',
+}
+
+function chainName(chainId: number): string {
+  return YELLOW_CHAINS.find(c => c.chainId === chainId)?.name ?? `Chain ${chainId}`
+}
+
+interface PendingOpsPanelProps {
+  ops: PendingOp[]
+  busyId: string | null
+  canFinish: boolean // connected and authenticated to Yellow Network
+  onFinish: (op: PendingOp) => void
+  onDismiss: (op: PendingOp) => void
+}
+
+// Funding/payments interrupted by a reload: bridging ones are tracked until their
+// tokens arrive, then the user finishes the remaining deposit/transfer steps
+export function PendingOpsPanel({ ops, busyId, canFinish, onFinish, onDismiss }: PendingOpsPanelProps) {
+  const { chainId: walletChainId } = useAccount()
+  const { switchChain, isPending: isSwitchingChain } = useSwitchChain()
+
+  if (ops.length === 0) return null
+
+  return (
+    <div className="p-3 bg-yellow-900/10 border border-yellow-700/40 rounded-lg space-y-3">
+      <p className="text-sm font-medium text-yellow-400">
+        Unfinished {ops[0]!.kind === 'fund' ? 'funding' : 'payments'} ({ops.length})
+      </p>
+
+      {ops.map(op => {
+        // What arrived, or the quoted estimate while still bridging
+        const funds = op.received ?? {
+          token: op.quote.action.toToken,
+          chainId: op.quote.action.toChainId,
+          amount: op.quote.estimate.toAmount,
+        }
+        const depositChainId = funds.chainId
+        const needsChain = op.step === 'deposit' && walletChainId !== depositChainId
+        const isBusy = busyId === op.id
+
+        return (
+          <div key={op.id} className="space-y-2">
+            <div className="flex justify-between items-start gap-2">
+              <div className="min-w-0">
+                <p className="text-sm text-white">
+                  {op.kind === 'payment' && op.amount && op.asset
+                    ? `${op.amount} ${getAssetLabel(op.asset)} to ${op.recipient || op.recipientAddress}`
+                    : `${formatUnits(BigInt(funds.amount), funds.token.decimals)} ${funds.token.symbol} on ${chainName(funds.chainId)}`}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Started {new Date(op.startedAt).toLocaleString()} · TX {op.txHash.slice(0, 10)}...
+                </p>
+              </div>
+              <span className="text-xs text-yellow-400 whitespace-nowrap flex items-center gap-1.5">
+                {op.step === 'swap' && (
+                  <span className="w-3 h-3 border-2 border-yellow-400 border-t-transparent rounded-full animate-spin" />
+                )}
+                {STEP_LABELS[op.step]}
+              </span>
+            </div>
+
+            {op.step === 'deposit' && !isBusy && (
+              <p className="text-xs text-gray-500">
+                If the deposit already went through before the reload, dismiss this instead.
+              </p>
+            )}
+            {op.error && !isBusy && (
+              <p className="text-xs text-red-400">{op.error}</p>
+            )}
+
+            {op.step !== 'swap' && (
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => onDismiss(op)}
+                  disabled={isBusy}
+                  className="px-3 py-1.5 text-gray-400 hover:text-white text-xs transition-colors"
+                >
+                  Dismiss
+                </button>
+                {op.step === 'stopped' ? null : needsChain ? (
+                  <button
+                    onClick={() => switchChain({ chainId: depositChainId })}
+                    disabled={isSwitchingChain || !!busyId}
+                    className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white text-xs
+                               font-medium rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {isSwitchingChain ? 'Switching...' : `Switch to ${chainName(depositChainId)}`}
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => onFinish(op)}
+                    disabled={!canFinish || !!busyId}
+                    className="px-3 py-1.5 bg-yellow-500 hover:bg-yellow-400 disabled:bg-gray-700
+                               text-black disabled:text-gray-400 text-xs font-medium rounded-lg
+                               transition-colors"
+                  >
+                    {isBusy ? 'Finishing...' : op.step === 'deposit' ? 'Finish deposit' : 'Send payment'}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        )
+      })}
+
+      {!canFinish && ops.some(op => op.step === 'deposit' || op.step === 'transfer') && (
+        <p className="text-xs text-gray-500">Connect to Yellow Network to finish.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,201 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAccount, useSwitchChain } from 'wagmi'
+import { formatUnits, type Address } from 'viem'
+import type { RPCChannelOperation } from '@erc7824/nitrolite'
+import { YELLOW_CHAINS, findSettlementTokenByAddress } from '@/lib/constants'
+import { updateTx } from '@/lib/txHistory'
+import {
+  REQUIRED_CONFIRMATIONS,
+  SETTLEMENTS_CHANGED_EVENT,
+  getPendingSettlements,
+  removePendingSettlement,
+  savePendingSettlement,
+  type PendingSettlement,
+  type SettlementProgress,
+} from '@/lib/yellow'
+
+function chainName(chainId: number): string {
+  return YELLOW_CHAINS.find(c => c.chainId === chainId)?.name ?? `Chain ${chainId}`
+}
+
+function formatAmount(settlement: PendingSettlement): string {
+  const token = findSettlementTokenByAddress(settlement.chainId, settlement.token)
+  return token
+    ? `${formatUnits(BigInt(settlement.amount), token.decimals)} ${token.symbol}`
+    : `${settlement.amount} units of ${settlement.token.slice(0, 10)}...`
+}
+
+function progressLabel(progress: SettlementProgress): string {
+  switch (progress.step) {
+    case 'submitting': return 'Confirm the transaction in your wallet...'
+    case 'confirming': return `Confirming on-chain (${progress.confirmations}/${REQUIRED_CONFIRMATIONS})...`
+    case 'withdrawing': return progress.withdrawalTxHash
+      ? `Withdrawing to your wallet (${progress.confirmations}/${REQUIRED_CONFIRMATIONS})...`
+      : 'Confirm the withdrawal in your wallet...'
+    case 'verifying': return 'Verifying payout...'
+    case 'settled': return 'Funds in wallet'
+  }
+}
+
+interface PendingSettlementsPanelProps {
+  settleWithdrawal: (
+    operation: RPCChannelOperation,
+    kind: 'close' | 'resize',
+    chainId: number,
+    token: Address,
+    amount: bigint,
+    onProgress?: (progress: SettlementProgress) => void,
+    resumeFrom?: SettlementProgress,
+  ) => Promise<SettlementProgress>
+}
+
+// Withdrawals the ClearNode signed but that weren't settled on-chain. The signed
+// close/resize state is kept, so settling it again needs only the wallet.
+export function PendingSettlementsPanel({ settleWithdrawal }: PendingSettlementsPanelProps) {
+  const { address, chainId: walletChainId } = useAccount()
+  const [settlements, setSettlements] = useState<PendingSettlement[]>([])
+  const [busyTxId, setBusyTxId] = useState<string | null>(null)
+  const [progress, setProgress] = useState<SettlementProgress | null>(null)
+
+  const refresh = useCallback(() => {
+    setSettlements(address ? getPendingSettlements(address) : [])
+  }, [address])
+
+  useEffect(() => {
+    refresh()
+    window.addEventListener(SETTLEMENTS_CHANGED_EVENT, refresh)
+    return () => window.removeEventListener(SETTLEMENTS_CHANGED_EVENT, refresh)
+  }, [refresh])
+
+  const retry = async (settlement: PendingSettlement) => {
+    setBusyTxId(settlement.txId)
+    setProgress(null)
+    let current = { ...settlement, error: undefined }
+    savePendingSettlement(current)
+    try {
+      await settleWithdrawal(
+        settlement.operation,
+        settlement.kind,
+        settlement.chainId,
+        settlement.token,
+        BigInt(settlement.amount),
+        next => {
+          setProgress(next)
+          current = { ...current, progress: next }
+          savePendingSettlement(current)
+          updateTx(settlement.txId, {
+            settlementStep: next.step,
+            txHash: next.channelTxHash,
+            withdrawalTxHash: next.withdrawalTxHash,
+          })
+        },
+        settlement.progress,
+      )
+      removePendingSettlement(settlement.txId)
+      updateTx(settlement.txId, { status: 'completed' })
+    } catch (e) {
+      savePendingSettlement({ ...current, error: e instanceof Error ? e.message : 'Settlement failed' })
+    } finally {
+      setBusyTxId(null)
+      setProgress(null)
+    }
+  }
+
+  // Give up on settling: the signed state is dropped and the record marked failed
+  const dismiss = (settlement: PendingSettlement) => {
+    removePendingSettlement(settlement.txId)
+    updateTx(settlement.txId, { status: 'failed' })
+  }
+
+  if (settlements.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-gray-300">Unsettled Withdrawals</p>
+      <p className="text-xs text-gray-500">
+        Yellow Network signed these withdrawals, but they weren&apos;t settled on-chain yet.
+        Your funds stay in the custody contract until they are.
+      </p>
+      {settlements.map(settlement => (
+        <SettlementRow
+          key={settlement.txId}
+          settlement={settlement}
+          isWrongChain={walletChainId !== settlement.chainId}
+          isBusy={busyTxId === settlement.txId}
+          disabled={!!busyTxId}
+          progress={busyTxId === settlement.txId ? progress : null}
+          onRetry={() => retry(settlement)}
+          onDismiss={() => dismiss(settlement)}
+        />
+      ))}
+    </div>
+  )
+}
+
+interface SettlementRowProps {
+  settlement: PendingSettlement
+  isWrongChain: boolean
+  isBusy: boolean
+  disabled: boolean
+  progress: SettlementProgress | null
+  onRetry: () => void
+  onDismiss: () => void
+}
+
+function SettlementRow({ settlement, isWrongChain, isBusy, disabled, progress, onRetry, onDismiss }: SettlementRowProps) {
+  const { switchChain, isPending: isSwitchingChain } = useSwitchChain()
+
+  return (
+    <div className="p-3 bg-gray-800/50 rounded-lg border border-gray-700/50 space-y-2">
+      <div className="flex justify-between items-center">
+        <div>
+          <p className="text-sm text-white">{formatAmount(settlement)}</p>
+          <p className="text-xs text-gray-500">
+            {chainName(settlement.chainId)} · {settlement.kind === 'close' ? 'Full withdrawal' : 'Partial withdrawal'}
+          </p>
+        </div>
+        <span className="text-xs text-yellow-400">Not settled</span>
+      </div>
+
+      {isBusy && progress && (
+        <p className="text-xs text-yellow-400">{progressLabel(progress)}</p>
+      )}
+
+      {settlement.error && !isBusy && (
+        <p className="text-xs text-red-400">{settlement.error}</p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onDismiss}
+          disabled={disabled}
+          className="px-3 py-1.5 text-gray-400 hover:text-white disabled:opacity-50 text-xs transition-colors"
+        >
+          Dismiss
+        </button>
+        {isWrongChain ? (
+          <button
+            onClick={() => switchChain({ chainId: settlement.chainId })}
+            disabled={isSwitchingChain || disabled}
+            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white text-xs
+                       font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isSwitchingChain ? 'Switching...' : 'Switch chain'}
+          </button>
+        ) : (
+          <button
+            onClick={onRetry}
+            disabled={disabled}
+            className="px-3 py-1.5 bg-yellow-500 hover:bg-yellow-400 disabled:bg-gray-700
+                       text-black disabled:text-gray-400 text-xs font-medium rounded-lg
+                       transition-colors"
+          >
+            {isBusy ? 'Settling...' : 'Retry settlement'}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
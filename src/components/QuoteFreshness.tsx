@@ -0,0 +1,73 @@
+'use client'
+
+import { formatUnits } from 'viem'
+
+interface QuoteCountdownProps {
+  secondsLeft: number | null // null once auto-refresh has stopped
+  isExpired: boolean
+  isRefreshing: boolean
+  onRefresh: () => void
+  disabled?: boolean
+}
+
+// Time until the quote refreshes in the background, with a manual refresh
+export function QuoteCountdown({ secondsLeft, isExpired, isRefreshing, onRefresh, disabled }: QuoteCountdownProps) {
+  return (
+    <div className="flex justify-end items-center gap-2 text-xs">
+      {isRefreshing ? (
+        <span className="flex items-center gap-1.5 text-gray-400">
+          <span className="w-3 h-3 border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
+          Refreshing quote...
+        </span>
+      ) : isExpired ? (
+        <span className="text-yellow-400">Quote expired</span>
+      ) : secondsLeft !== null ? (
+        <span className="text-gray-500">Quote refreshes in {secondsLeft}s</span>
+      ) : (
+        <span className="text-gray-500">Quote paused</span>
+      )}
+      <button
+        onClick={onRefresh}
+        disabled={disabled || isRefreshing}
+        className="text-gray-400 hover:text-white disabled:opacity-50 transition-colors"
+      >
+        Refresh
+      </button>
+    </div>
+  )
+}
+
+interface PriceChangeNoticeProps {
+  shownAmount: string // smallest units
+  amount: string
+  decimals: number
+  symbol: string
+  change: number // relative
+  label?: string // what the amount is, e.g. "You receive"
+  higherIsBetter?: boolean // false for amounts the user pays
+}
+
+// A refreshed quote moved the price away from what the user saw; they accept it before executing
+export function PriceChangeNotice({
+  shownAmount,
+  amount,
+  decimals,
+  symbol,
+  change,
+  label = 'You receive',
+  higherIsBetter = true,
+}: PriceChangeNoticeProps) {
+  const format = (value: string) => parseFloat(formatUnits(BigInt(value), decimals)).toFixed(6)
+  const worse = higherIsBetter ? change < 0 : change > 0
+
+  return (
+    <div className={`p-3 rounded-lg border ${
+      worse ? 'bg-yellow-900/20 border-yellow-700/50' : 'bg-green-900/20 border-green-700/50'
+    }`}>
+      <p className={`text-sm ${worse ? 'text-yellow-400' : 'text-green-400'}`}>
+        Price updated — {label}: {format(shownAmount)} → {format(amount)} {symbol} ({change > 0 ? '+' : ''}{(change * 100).toFixed(2)}%)
+      </p>
+      <p className="text-xs text-gray-400 mt-1">Accept the new price to continue.</p>
+    </div>
+  )
+}
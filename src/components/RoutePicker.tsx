@@ -0,0 +1,134 @@
+'use client'
+
+import { formatUnits } from 'viem'
+import {
+  formatDuration,
+  routeDuration,
+  routeFeesUSD,
+  routeGasUSD,
+  routeTools,
+  type LiFiRoute,
+  type LiFiRouteOrder,
+} from '@/lib/lifi'
+
+const ORDER_LABELS: Record<LiFiRouteOrder, string> = {
+  CHEAPEST: 'Cheapest',
+  FASTEST: 'Fastest',
+  SAFEST: 'Safest',
+}
+
+interface RoutePickerProps {
+  routes: LiFiRoute[]
+  selectedRouteId: string | null
+  onSelect: (routeId: string) => void
+  // Omit both to hide the order tabs (e.g. a single reverse quote)
+  order?: LiFiRouteOrder
+  onOrderChange?: (order: LiFiRouteOrder) => void
+  // Set when routes end on different chains, to label each with its destination
+  destinationName?: (chainId: number) => string
+  disabled?: boolean
+}
+
+// LI.FI routes for the current swap/bridge, ordered by the chosen preference
+export function RoutePicker({ routes, selectedRouteId, onSelect, order, onOrderChange, destinationName, disabled }: RoutePickerProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <label className="block text-sm font-medium text-gray-300">
+          Route{routes.length > 1 && ` (${routes.length} options)`}
+        </label>
+        {onOrderChange && (
+        <div className="flex gap-1">
+          {(Object.keys(ORDER_LABELS) as LiFiRouteOrder[]).map(o => (
+            <button
+              key={o}
+              onClick={() => onOrderChange(o)}
+              disabled={disabled}
+              className={`px-2 py-0.5 text-xs font-medium rounded-md transition-colors ${
+                order === o
+                  ? 'bg-gray-700 text-white'
+                  : 'text-gray-500 hover:text-gray-300'
+              }`}
+            >
+              {ORDER_LABELS[o]}
+            </button>
+          ))}
+        </div>
+        )}
+      </div>
+
+      <div className="space-y-2 max-h-[320px] overflow-y-auto pr-1">
+        {routes.map(route => (
+          <RouteOption
+            key={route.id}
+            route={route}
+            selected={route.id === selectedRouteId}
+            onSelect={() => onSelect(route.id)}
+            destination={destinationName?.(route.toChainId)}
+            disabled={disabled}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+interface RouteOptionProps {
+  route: LiFiRoute
+  selected: boolean
+  onSelect: () => void
+  destination?: string
+  disabled?: boolean
+}
+
+function RouteOption({ route, selected, onSelect, destination, disabled }: RouteOptionProps) {
+  const { toToken } = route
+
+  return (
+    <button
+      onClick={onSelect}
+      disabled={disabled}
+      className={`w-full p-3 rounded-lg border text-left transition-colors space-y-2 ${
+        selected
+          ? 'bg-yellow-900/20 border-yellow-500/50'
+          : 'bg-gray-800/50 border-gray-700/50 hover:border-gray-600'
+      }`}
+    >
+      <div className="flex justify-between items-start gap-2">
+        <div className="min-w-0">
+          <p className="text-sm text-white font-medium truncate">{routeTools(route)}</p>
+          <p className="text-xs text-gray-500">
+            {route.steps.length} step{route.steps.length !== 1 ? 's' : ''}
+            {destination && ` · to ${destination}`}
+            {route.tags?.map(tag => (
+              <span key={tag} className="ml-1.5 text-[10px] text-yellow-400 uppercase">{tag}</span>
+            ))}
+          </p>
+        </div>
+        <p className="text-sm text-white font-semibold whitespace-nowrap">
+          {formatUnits(BigInt(route.toAmount), toToken.decimals)}{' '}
+          <span className="text-xs text-gray-400 font-normal">{toToken.symbol}</span>
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+        <RouteDetail label="Time" value={formatDuration(routeDuration(route))} />
+        <RouteDetail label="Fees" value={`~$${routeFeesUSD(route).toFixed(2)}`} />
+        <RouteDetail label="Gas" value={`~$${routeGasUSD(route).toFixed(2)}`} />
+        <RouteDetail
+          label="Min received"
+          value={`${formatUnits(BigInt(route.toAmountMin), toToken.decimals)} ${toToken.symbol}`}
+        />
+      </div>
+    </button>
+  )
+}
+
+function RouteDetail({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between items-center">
+      <span className="text-xs text-gray-500">{label}</span>
+      <span className="text-xs text-gray-300">{value}</span>
+    </div>
+  )
+}
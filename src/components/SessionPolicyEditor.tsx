@@ -0,0 +1,110 @@
+'use client'
+
+import { useState } from 'react'
+import type { RPCAllowance, RPCBalance } from '@erc7824/nitrolite'
+
+import { getAssetLabel } from '@/lib/constants'
+import { sessionPolicyAssets, DEFAULT_SESSION_CAP } from '@/lib/yellow'
+
+interface SessionPolicyEditorProps {
+  allowances: RPCAllowance[]
+  balances: RPCBalance[]
+  onChange: (allowances: RPCAllowance[]) => void
+  disabled?: boolean
+}
+
+// Spending policy shown before the wallet signs a new session key.
+// Collapsed to a summary; "Edit" lists every asset with its own cap.
+export function SessionPolicyEditor({ allowances, balances, onChange, disabled }: SessionPolicyEditorProps) {
+  const [isEditing, setIsEditing] = useState(false)
+
+  const findAllowance = (asset: string) =>
+    allowances.find(a => a.asset.toLowerCase() === asset.toLowerCase())
+
+  const findBalance = (asset: string) =>
+    balances.find(b => b.asset.toLowerCase() === asset.toLowerCase())?.amount
+
+  const toggleAsset = (asset: string) => {
+    if (findAllowance(asset)) {
+      onChange(allowances.filter(a => a.asset.toLowerCase() !== asset.toLowerCase()))
+      return
+    }
+    const balance = findBalance(asset)
+    const amount = balance && parseFloat(balance) > 0 ? balance : DEFAULT_SESSION_CAP
+    onChange([...allowances, { asset, amount }])
+  }
+
+  const setCap = (asset: string, amount: string) => {
+    onChange(allowances.map(a => (a.asset.toLowerCase() === asset.toLowerCase() ? { ...a, amount } : a)))
+  }
+
+  return (
+    <div className="p-3 bg-gray-800 rounded-lg space-y-2">
+      <div className="flex justify-between items-center">
+        <p className="text-xs text-gray-500">Session spending policy</p>
+        <button
+          onClick={() => setIsEditing(!isEditing)}
+          disabled={disabled}
+          className="text-xs text-blue-400 hover:text-blue-300 disabled:text-gray-600 font-medium"
+        >
+          {isEditing ? 'Done' : 'Edit'}
+        </button>
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-2">
+          {sessionPolicyAssets(balances).map(asset => {
+            const allowance = findAllowance(asset)
+            const balance = findBalance(asset)
+            return (
+              <div key={asset} className="flex items-center gap-2">
+                <label className="flex items-center gap-2 flex-1 min-w-0 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!allowance}
+                    onChange={() => toggleAsset(asset)}
+                    className="accent-yellow-500"
+                  />
+                  <span className="text-sm text-white">{getAssetLabel(asset)}</span>
+                  {balance && parseFloat(balance) > 0 && (
+                    <span className="text-xs text-gray-500 truncate">
+                      {parseFloat(balance).toFixed(2)} available
+                    </span>
+                  )}
+                </label>
+                <input
+                  type="number"
+                  value={allowance?.amount ?? ''}
+                  onChange={(e) => setCap(asset, e.target.value)}
+                  disabled={!allowance}
+                  placeholder="Cap"
+                  min="0"
+                  step="0.01"
+                  className="w-28 px-2 py-1.5 bg-gray-900 border border-gray-700 rounded-lg
+                             text-white text-sm text-right placeholder-gray-600 focus:outline-none
+                             focus:ring-2 focus:ring-yellow-500 focus:border-transparent
+                             disabled:opacity-40"
+                />
+              </div>
+            )
+          })}
+        </div>
+      ) : allowances.length > 0 ? (
+        <div className="space-y-0.5">
+          {allowances.map(a => (
+            <p key={a.asset} className="text-sm text-white">
+              Up to <span className="font-medium">{a.amount || '0'}</span>{' '}
+              <span className="text-gray-400">{getAssetLabel(a.asset)}</span>
+            </p>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-red-400">No assets allowed — this session could not send payments.</p>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Your wallet signs this policy. The session key can spend at most these amounts for 24 hours.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,224 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useSwapSettings } from '@/hooks/useSwapSettings'
+import { useLiFiTools } from '@/hooks/useLiFi'
+import {
+  HIGH_SLIPPAGE,
+  MAX_PRICE_IMPACT_PRESETS,
+  SLIPPAGE_PRESETS,
+  routeWarnings,
+  type SwapSettings,
+} from '@/lib/swapSettings'
+import type { LiFiRoute, LiFiTool } from '@/lib/lifi'
+
+const formatPercent = (fraction: number) => `${parseFloat((fraction * 100).toFixed(2))}%`
+
+// Gear button + popover for the swap settings every LI.FI quote uses
+export function SwapSettingsPopover({ disabled }: { disabled?: boolean }) {
+  const { settings, update, reset } = useSwapSettings()
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close on outside click
+  useEffect(() => {
+    if (!isOpen) return
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [isOpen])
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        title="Swap settings"
+        className="flex items-center gap-1 text-xs text-gray-400 hover:text-white disabled:opacity-50 transition-colors"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+          <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+        </svg>
+        {formatPercent(settings.slippage)} slippage
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-80 p-4 bg-gray-900 border border-gray-700 rounded-xl shadow-xl space-y-4">
+          <div className="flex justify-between items-center">
+            <h4 className="text-sm font-medium text-white">Swap Settings</h4>
+            <button onClick={reset} className="text-xs text-gray-500 hover:text-gray-300">
+              Reset
+            </button>
+          </div>
+
+          <SlippageSetting slippage={settings.slippage} onChange={slippage => update({ slippage })} />
+
+          <div className="space-y-2">
+            <label className="block text-xs font-medium text-gray-400">Max price impact</label>
+            <div className="flex gap-1">
+              {MAX_PRICE_IMPACT_PRESETS.map(preset => (
+                <PresetButton
+                  key={preset}
+                  label={formatPercent(preset)}
+                  active={settings.maxPriceImpact === preset}
+                  onClick={() => update({ maxPriceImpact: preset })}
+                />
+              ))}
+            </div>
+          </div>
+
+          <ToolPreferences settings={settings} onChange={update} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Warnings for a quoted route that breaks the user's thresholds
+export function RouteWarnings({ route, settings }: { route: LiFiRoute; settings: SwapSettings }) {
+  const warnings = routeWarnings(route, settings)
+  if (warnings.length === 0) return null
+
+  return (
+    <div className="p-3 bg-yellow-900/20 border border-yellow-700/50 rounded-lg space-y-1">
+      {warnings.map(warning => (
+        <p key={warning} className="text-xs text-yellow-400">{warning}</p>
+      ))}
+    </div>
+  )
+}
+
+// --- Sub-components ---
+
+function SlippageSetting({ slippage, onChange }: { slippage: number; onChange: (slippage: number) => void }) {
+  const isPreset = SLIPPAGE_PRESETS.includes(slippage)
+  const [custom, setCustom] = useState(isPreset ? '' : (slippage * 100).toString())
+
+  const handleCustom = (value: string) => {
+    setCustom(value)
+    const percent = parseFloat(value)
+    if (!isNaN(percent) && percent > 0 && percent < 50) onChange(percent / 100)
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-xs font-medium text-gray-400">Slippage tolerance</label>
+      <div className="flex gap-1">
+        {SLIPPAGE_PRESETS.map(preset => (
+          <PresetButton
+            key={preset}
+            label={formatPercent(preset)}
+            active={slippage === preset}
+            onClick={() => { setCustom(''); onChange(preset) }}
+          />
+        ))}
+        <div className="relative flex-1">
+          <input
+            type="number"
+            value={custom}
+            onChange={(e) => handleCustom(e.target.value)}
+            placeholder="Custom"
+            min="0"
+            step="0.1"
+            className={`w-full px-2 py-1 bg-gray-800 border rounded-md text-xs text-white
+                        placeholder-gray-500 focus:outline-none pr-5 ${
+                          !isPreset ? 'border-yellow-500/50' : 'border-gray-700'
+                        }`}
+          />
+          <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-gray-500">%</span>
+        </div>
+      </div>
+      {slippage > HIGH_SLIPPAGE ? (
+        <p className="text-xs text-yellow-400">High slippage — the swap may be front-run</p>
+      ) : slippage < 0.001 && (
+        <p className="text-xs text-yellow-400">Very low slippage — the swap may fail</p>
+      )}
+    </div>
+  )
+}
+
+type ToolPreference = 'neutral' | 'preferred' | 'blocked'
+
+function ToolPreferences({ settings, onChange }: {
+  settings: SwapSettings
+  onChange: (updates: Partial<SwapSettings>) => void
+}) {
+  const { bridges, exchanges, isLoading } = useLiFiTools()
+  const [kind, setKind] = useState<'bridges' | 'exchanges'>('bridges')
+
+  const tools = kind === 'bridges' ? bridges : exchanges
+  const preferred = kind === 'bridges' ? settings.preferredBridges : settings.preferredExchanges
+  const blocked = kind === 'bridges' ? settings.blockedBridges : settings.blockedExchanges
+
+  const preferenceOf = (key: string): ToolPreference =>
+    preferred.includes(key) ? 'preferred' : blocked.includes(key) ? 'blocked' : 'neutral'
+
+  // neutral → preferred → blocked → neutral
+  const cycle = (tool: LiFiTool) => {
+    const current = preferenceOf(tool.key)
+    const nextPreferred = preferred.filter(k => k !== tool.key)
+    const nextBlocked = blocked.filter(k => k !== tool.key)
+    if (current === 'neutral') nextPreferred.push(tool.key)
+    if (current === 'preferred') nextBlocked.push(tool.key)
+
+    onChange(kind === 'bridges'
+      ? { preferredBridges: nextPreferred, blockedBridges: nextBlocked }
+      : { preferredExchanges: nextPreferred, blockedExchanges: nextBlocked })
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <label className="block text-xs font-medium text-gray-400">Routing</label>
+        <div className="flex gap-1">
+          <PresetButton label="Bridges" active={kind === 'bridges'} onClick={() => setKind('bridges')} />
+          <PresetButton label="Exchanges" active={kind === 'exchanges'} onClick={() => setKind('exchanges')} />
+        </div>
+      </div>
+      <p className="text-[11px] text-gray-500">Tap to prefer, tap again to block.</p>
+
+      {isLoading ? (
+        <p className="text-xs text-gray-500">Loading {kind}...</p>
+      ) : tools.length === 0 ? (
+        <p className="text-xs text-gray-500">No {kind} available</p>
+      ) : (
+        <div className="flex flex-wrap gap-1 max-h-36 overflow-y-auto">
+          {tools.map(tool => {
+            const preference = preferenceOf(tool.key)
+            return (
+              <button
+                key={tool.key}
+                onClick={() => cycle(tool)}
+                className={`px-2 py-0.5 text-xs rounded-md border transition-colors ${
+                  preference === 'preferred'
+                    ? 'bg-green-900/30 border-green-700 text-green-400'
+                    : preference === 'blocked'
+                      ? 'bg-red-900/30 border-red-700 text-red-400 line-through'
+                      : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-gray-500'
+                }`}
+              >
+                {tool.name}
+              </button>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function PresetButton({ label, active, onClick }: { label: string; active: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className={`px-2 py-1 text-xs font-medium rounded-md transition-colors ${
+        active ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'
+      }`}
+    >
+      {label}
+    </button>
+  )
+}
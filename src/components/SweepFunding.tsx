@@ -0,0 +1,488 @@
+'use client'
+
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import { useAccount } from 'wagmi'
+import { formatUnits } from 'viem'
+import { useEmptyGasChains } from '@/hooks/useLiFi'
+import { useSweepBalances, useSweepRun } from '@/hooks/useSweep'
+import { useYellow } from '@/hooks/useYellow'
+import { useSwapSettings } from '@/hooks/useSwapSettings'
+import { DEFAULT_ASSET_LABEL, SETTLEMENT_CHAINS, getSettlementChains } from '@/lib/constants'
+import {
+  isSettlementBalance,
+  sweepTotal,
+  type SweepBalance,
+  type SweepItem,
+  type SweepItemStatus,
+} from '@/lib/sweep'
+import { SwapSettingsPopover } from './SwapSettingsPopover'
+
+const DEFAULT_MIN_USD = '1'
+
+const balanceKey = (balance: SweepBalance) => `${balance.chainId}:${balance.token.address.toLowerCase()}`
+
+function formatAmount(amount: bigint, decimals: number): string {
+  return parseFloat(formatUnits(amount, decimals)).toFixed(4)
+}
+
+interface SweepFundingProps {
+  // Told when a sweep starts and when it is over (deposited, or given up), so the parent can keep it mounted
+  onActiveChange?: (active: boolean) => void
+}
+
+// Sweep mode of the Fund tab: many small wallet balances, across chains, swapped into
+// one settlement token and deposited into Yellow Network together
+export function SweepFunding({ onActiveChange }: SweepFundingProps) {
+  const { address } = useAccount()
+  const { quoteOptions } = useSwapSettings()
+  const {
+    isConnected: yellowConnected,
+    isAuthenticated,
+    balance: yellowBalance,
+    depositToYellow,
+  } = useYellow()
+
+  // The running (or resumed) sweep; balances are only scanned while there is none
+  const { run, isThrottled, isDepositing, start, deposit, reset } = useSweepRun({ depositToYellow })
+  const { balances, chains, supportedChainIds, isScanning, error: scanError, rescan } = useSweepBalances(!run)
+  const chainName = useCallback(
+    (chainId: number) => chains.find(c => c.id === chainId)?.name ?? `Chain ${chainId}`,
+    [chains]
+  )
+
+  const isActive = run?.step === 'sweeping' || run?.step === 'deposit'
+  useEffect(() => {
+    onActiveChange?.(isActive)
+  }, [isActive, onActiveChange])
+
+  // Yellow asset to fund and the one chain everything settles on
+  const [targetAsset, setTargetAsset] = useState('usdc')
+  const [settlementChainId, setSettlementChainId] = useState<number | null>(null)
+  const settlementOptions = useMemo(
+    () => getSettlementChains(targetAsset).filter(t => supportedChainIds.has(t.chainId)),
+    [targetAsset, supportedChainIds]
+  )
+  const target = settlementOptions.find(t => t.chainId === settlementChainId) ?? settlementOptions[0] ?? null
+
+  // The deposit is a transaction on the settlement chain, so it needs gas there
+  const targetChainIds = useMemo(() => target ? [target.chainId] : [], [target])
+  const { emptyChainIds: gaslessChainIds } = useEmptyGasChains(targetChainIds)
+
+  // Balances worth at least the threshold; all are selected unless unticked
+  const [minUSD, setMinUSD] = useState(DEFAULT_MIN_USD)
+  const [excluded, setExcluded] = useState<Set<string>>(new Set())
+  const listed = useMemo(
+    () => balances.filter(b => b.valueUSD >= (parseFloat(minUSD) || 0)),
+    [balances, minUSD]
+  )
+  const selected = useMemo(() => listed.filter(b => !excluded.has(balanceKey(b))), [listed, excluded])
+  const selectedUSD = selected.reduce((sum, b) => sum + b.valueUSD, 0)
+
+  const toggle = (balance: SweepBalance) => {
+    setExcluded(prev => {
+      const next = new Set(prev)
+      const key = balanceKey(balance)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+  const toggleAll = () => {
+    setExcluded(selected.length === listed.length ? new Set(listed.map(balanceKey)) : new Set())
+  }
+
+  // Each token is quoted and sent in turn (one wallet prompt at a time); the transfers
+  // are then tracked, and everything that arrived as the target is deposited at once
+  const handleSweep = () => {
+    if (!target || !address || selected.length === 0) return
+    start(selected, target, { quoteOptions, chainName })
+  }
+
+  // --- Render ---
+
+  // Sweep in progress, resumed or finished
+  if (run) {
+    const { target: runTarget, items, step } = run
+    const doneCount = items.filter(item => item.status === 'done').length
+    const total = sweepTotal(run)
+    const deposited = total > BigInt(0) ? formatUnits(total, runTarget.decimals) : null
+    const canDeposit = step === 'deposit' && !isDepositing
+
+    return (
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium text-white">
+          {step === 'done' ? 'Sweep Complete' : step === 'failed' ? 'Sweep Ended' : 'Sweep in Progress'}
+        </h3>
+
+        <div className="space-y-3">
+          {items.map(item => (
+            <SweepItemRow
+              key={balanceKey(item.balance)}
+              item={item}
+              chainName={chainName(item.balance.chainId)}
+              targetSymbol={runTarget.symbol}
+              isThrottled={isThrottled}
+            />
+          ))}
+          <div className="pt-3 border-t border-gray-800">
+            <SweepStepRow
+              label={deposited && step !== 'sweeping'
+                ? `Depositing ${deposited} ${runTarget.symbol} to Yellow Network`
+                : `Depositing ${runTarget.symbol} to Yellow Network`}
+              detail={step === 'sweeping' ? `${doneCount} of ${items.length} tokens arrived` : undefined}
+              status={
+                step === 'done' ? 'done'
+                : isDepositing ? 'active'
+                : step === 'deposit' && run.error ? 'failed'
+                : 'pending'
+              }
+            />
+          </div>
+        </div>
+
+        {step === 'done' && (
+          <div className="p-3 bg-green-900/20 border border-green-700 rounded-lg">
+            <p className="text-sm text-green-400">
+              {deposited} {runTarget.symbol} is now available in your Yellow Network account.
+            </p>
+            {doneCount < items.length && (
+              <p className="text-xs text-yellow-400 mt-1">
+                {items.length - doneCount} of {items.length} tokens weren&apos;t swept — see above.
+              </p>
+            )}
+            {yellowConnected && isAuthenticated && (
+              <p className="text-xs text-green-500 mt-1">
+                Balance: {yellowBalance} {DEFAULT_ASSET_LABEL}
+              </p>
+            )}
+          </div>
+        )}
+
+        {run.error && !isDepositing && (
+          <div className="p-3 bg-red-900/20 border border-red-700 rounded-lg">
+            <p className="text-sm text-red-400">{run.error}</p>
+            {step === 'deposit' && (
+              <p className="text-xs text-red-400/80 mt-1">
+                The swept {runTarget.symbol} is in your wallet on {chainName(runTarget.chainId)}.
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Resumed after a reload, or the deposit failed: it's finished by hand */}
+        {canDeposit && (
+          <>
+            {!run.error && (
+              <p className="text-xs text-gray-400">
+                Check your Yellow Network balance first if the deposit may already have gone through before the reload.
+              </p>
+            )}
+            <button
+              onClick={deposit}
+              disabled={!yellowConnected || !isAuthenticated}
+              className="w-full py-3 bg-yellow-500 hover:bg-yellow-400 disabled:bg-gray-700
+                         disabled:cursor-not-allowed text-black disabled:text-gray-400
+                         font-medium rounded-lg transition-colors"
+            >
+              {yellowConnected && isAuthenticated
+                ? `Deposit ${deposited} ${runTarget.symbol}`
+                : 'Connect to Yellow Network to deposit'}
+            </button>
+            <button
+              onClick={reset}
+              className="w-full py-2 text-sm text-gray-400 hover:text-white transition-colors"
+            >
+              Leave it in my wallet
+            </button>
+          </>
+        )}
+
+        {(step === 'done' || step === 'failed') && (
+          <button
+            onClick={reset}
+            className="w-full py-3 bg-gray-700 hover:bg-gray-600 text-white
+                       font-medium rounded-lg transition-colors"
+          >
+            Sweep Again
+          </button>
+        )}
+
+        {run.depositTxHash && (
+          <p className="text-xs text-gray-500 text-center">
+            {`TX: ${run.depositTxHash.slice(0, 10)}...${run.depositTxHash.slice(-8)}`}
+          </p>
+        )}
+      </div>
+    )
+  }
+
+  const canSweep = !!target && selected.length > 0 && yellowConnected && isAuthenticated && !isScanning
+
+  return (
+    <div className="space-y-5">
+      {/* Yellow asset + settlement chain */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-300">
+            Deposit As
+          </label>
+          <select
+            value={targetAsset}
+            onChange={(e) => {
+              setTargetAsset(e.target.value)
+              setSettlementChainId(null)
+            }}
+            className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg
+                       text-white focus:outline-none focus:ring-2 focus:ring-yellow-500
+                       focus:border-transparent appearance-none cursor-pointer"
+          >
+            {Object.entries(SETTLEMENT_CHAINS).map(([asset, tokens]) => (
+              <option key={asset} value={asset}>
+                {tokens[0]!.symbol}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-300">
+            Settle On
+          </label>
+          <select
+            value={target?.chainId ?? ''}
+            onChange={(e) => setSettlementChainId(Number(e.target.value))}
+            disabled={settlementOptions.length < 2}
+            className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg
+                       text-white focus:outline-none focus:ring-2 focus:ring-yellow-500
+                       focus:border-transparent appearance-none cursor-pointer
+                       disabled:cursor-default"
+          >
+            {settlementOptions.length === 0 && <option value="">—</option>}
+            {settlementOptions.map(option => (
+              <option key={option.chainId} value={option.chainId}>
+                {chainName(option.chainId)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Threshold */}
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <label className="block text-sm font-medium text-gray-300">
+            Tokens worth at least
+          </label>
+          <SwapSettingsPopover />
+        </div>
+        <div className="relative">
+          <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500">$</span>
+          <input
+            type="number"
+            value={minUSD}
+            onChange={(e) => setMinUSD(e.target.value)}
+            placeholder="0.00"
+            min="0"
+            step="any"
+            className="w-full pl-8 pr-4 py-3 bg-gray-800 border border-gray-700 rounded-lg
+                       text-white placeholder-gray-500 focus:outline-none focus:ring-2
+                       focus:ring-yellow-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      {/* Wallet balances */}
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <label className="block text-sm font-medium text-gray-300">
+            Wallet Tokens
+          </label>
+          <div className="flex items-center gap-3">
+            {listed.length > 0 && (
+              <button
+                onClick={toggleAll}
+                className="text-xs text-yellow-400 hover:text-yellow-300 font-medium"
+              >
+                {selected.length === listed.length ? 'Select none' : 'Select all'}
+              </button>
+            )}
+            <button
+              onClick={rescan}
+              disabled={isScanning}
+              className="text-xs text-gray-400 hover:text-white disabled:opacity-50"
+            >
+              Rescan
+            </button>
+          </div>
+        </div>
+
+        {isScanning ? (
+          <div className="p-4 bg-gray-800/50 rounded-lg border border-gray-700/50">
+            <div className="flex items-center gap-2 text-gray-400">
+              <div className="w-4 h-4 border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
+              <span className="text-sm">Scanning balances on {chains.length} chains...</span>
+            </div>
+          </div>
+        ) : listed.length === 0 ? (
+          <p className="p-4 bg-gray-800/50 rounded-lg border border-gray-700/50 text-sm text-gray-500 text-center">
+            {balances.length === 0 ? 'No token balances found' : `No tokens worth $${minUSD || '0'} or more`}
+          </p>
+        ) : (
+          <div className="max-h-72 overflow-y-auto bg-gray-800/50 rounded-lg border border-gray-700/50 divide-y divide-gray-700/50">
+            {listed.map(balance => (
+              <label key={balanceKey(balance)} className="flex items-center gap-3 px-3 py-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!excluded.has(balanceKey(balance))}
+                  onChange={() => toggle(balance)}
+                  className="accent-yellow-500"
+                />
+                <span className="flex-1 min-w-0">
+                  <span className="block text-sm text-white truncate">
+                    {formatAmount(balance.amount, balance.token.decimals)} {balance.token.symbol}
+                  </span>
+                  <span className="block text-xs text-gray-500">
+                    {chainName(balance.chainId)}
+                    {target && isSettlementBalance(balance, target) && ' · deposited as is'}
+                  </span>
+                </span>
+                <span className="text-sm text-gray-400">${balance.valueUSD.toFixed(2)}</span>
+              </label>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-gray-500">
+          Native tokens aren&apos;t listed — they pay the gas for the swaps.
+        </p>
+      </div>
+
+      {scanError && (
+        <div className="p-3 bg-yellow-900/20 border border-yellow-700/50 rounded-lg">
+          <p className="text-xs text-yellow-400">{scanError}</p>
+        </div>
+      )}
+
+      {target && gaslessChainIds.has(target.chainId) && (
+        <div className="p-3 bg-yellow-900/20 border border-yellow-700/50 rounded-lg">
+          <p className="text-xs text-yellow-400">
+            Your wallet has no gas on {chainName(target.chainId)}. Add some before sweeping, or the Yellow Network deposit there will fail.
+          </p>
+        </div>
+      )}
+
+      {selected.length > 0 && target && (
+        <div className="p-4 bg-gray-800/50 rounded-lg border border-gray-700/50">
+          <p className="text-sm text-white">
+            {selected.length} token{selected.length !== 1 ? 's' : ''} · ~${selectedUSD.toFixed(2)}
+          </p>
+          <p className="text-xs text-gray-400 mt-1">
+            Each is swapped into {target.symbol} on {chainName(target.chainId)} with its own wallet transaction
+            (plus an approval where needed), then everything that arrives is deposited to Yellow Network at once.
+            Swap and bridge fees apply to each token.
+          </p>
+        </div>
+      )}
+
+      <button
+        onClick={handleSweep}
+        disabled={!canSweep}
+        className="w-full py-3 bg-yellow-500 hover:bg-yellow-400 disabled:bg-gray-700
+                   disabled:cursor-not-allowed text-black disabled:text-gray-400
+                   font-medium rounded-lg transition-colors"
+      >
+        {!yellowConnected || !isAuthenticated
+          ? 'Connect to Yellow Network to sweep'
+          : selected.length > 0 && target
+            ? `Sweep ${selected.length} token${selected.length !== 1 ? 's' : ''} into ${target.symbol}`
+            : 'Select tokens to sweep'}
+      </button>
+
+      <p className="text-xs text-gray-500 text-center">
+        Powered by LI.FI — best rates across 30+ bridges & DEXs
+      </p>
+    </div>
+  )
+}
+
+// --- Sub-components ---
+
+type StepStatus = 'pending' | 'active' | 'done' | 'failed'
+
+const ITEM_STEP_STATUS: Record<SweepItemStatus, StepStatus> = {
+  queued: 'pending',
+  quoting: 'active',
+  sending: 'active',
+  bridging: 'active',
+  done: 'done',
+  failed: 'failed',
+}
+
+interface SweepItemRowProps {
+  item: SweepItem
+  chainName: string
+  targetSymbol: string
+  isThrottled: boolean // quotes are held back to save LI.FI rate limit
+}
+
+function SweepItemRow({ item, chainName, targetSymbol, isThrottled }: SweepItemRowProps) {
+  const { balance, quote, received } = item
+  const estimate = quote ? `~${formatAmount(BigInt(quote.estimate.toAmount), quote.action.toToken.decimals)} ${targetSymbol}` : ''
+  const detail =
+    item.status === 'queued' ? 'Waiting'
+    : item.status === 'quoting' ? (isThrottled ? 'Getting quote (slowed down to save LI.FI rate limit)...' : 'Getting quote...')
+    : item.status === 'sending' ? 'Confirm in your wallet'
+    : item.status === 'bridging' ? `${quote?.action.fromChainId === quote?.action.toChainId ? 'Swapping' : 'Bridging'} to ${estimate}`
+    : item.status === 'done' && received ? `${formatAmount(received.amount, received.token.decimals)} ${received.token.symbol} arrived`
+    : item.error ?? 'Failed'
+
+  return (
+    <SweepStepRow
+      label={`${formatAmount(balance.amount, balance.token.decimals)} ${balance.token.symbol} on ${chainName}`}
+      detail={detail}
+      status={ITEM_STEP_STATUS[item.status]}
+    />
+  )
+}
+
+function SweepStepRow({ label, detail, status }: { label: string; detail?: string; status: StepStatus }) {
+  return (
+    <div className="flex items-start gap-3">
+      <div className="flex-shrink-0">
+        {status === 'done' && (
+          <div className="w-6 h-6 rounded-full bg-green-500/20 flex items-center justify-center">
+            <svg className="w-3.5 h-3.5 text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+            </svg>
+          </div>
+        )}
+        {status === 'active' && (
+          <div className="w-6 h-6 rounded-full bg-yellow-500/20 flex items-center justify-center">
+            <div className="w-3 h-3 border-2 border-yellow-400 border-t-transparent rounded-full animate-spin" />
+          </div>
+        )}
+        {status === 'pending' && (
+          <div className="w-6 h-6 rounded-full bg-gray-700 flex items-center justify-center">
+            <div className="w-2 h-2 rounded-full bg-gray-500" />
+          </div>
+        )}
+        {status === 'failed' && (
+          <div className="w-6 h-6 rounded-full bg-red-500/20 flex items-center justify-center">
+            <svg className="w-3.5 h-3.5 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </div>
+        )}
+      </div>
+      <div className="min-w-0">
+        <p className={`text-sm ${
+          status === 'done' ? 'text-green-400' :
+          status === 'active' ? 'text-yellow-400' :
+          status === 'failed' ? 'text-red-400' :
+          'text-gray-500'
+        }`}>
+          {label}
+        </p>
+        {detail && <p className="text-xs text-gray-500 break-words">{detail}</p>}
+      </div>
+    </div>
+  )
+}
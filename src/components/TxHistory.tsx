@@ -1,9 +1,11 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useMemo } from 'react'
 import { useTxHistory } from '@/hooks/useTxHistory'
+import { useLedgerHistory } from '@/hooks/useLedgerHistory'
 import { getAssetLabel } from '@/lib/constants'
-import type { TxRecord, TxType } from '@/lib/txHistory'
+import { mergeTxHistory, type TxRecord, type TxType } from '@/lib/txHistory'
+import type { SettlementStep } from '@/lib/yellow'
 
 const TYPE_LABELS: Record<TxType, string> = {
   payment: 'Payment',
@@ -27,17 +29,45 @@ const STATUS_DOT: Record<string, string> = {
   failed: 'bg-red-400',
 }
 
+const SETTLEMENT_LABELS: Record<SettlementStep, string> = {
+  submitting: 'Submitting on-chain',
+  confirming: 'Confirming on-chain',
+  withdrawing: 'Withdrawing from custody',
+  verifying: 'Verifying payout',
+  settled: 'In wallet',
+}
+
+const WITHDRAW_KIND_LABELS: Record<NonNullable<TxRecord['withdrawKind']>, string> = {
+  full: 'Full (channel closed)',
+  partial: 'Partial (channel resized)',
+  custody: 'From custody contract',
+  force: 'Force exit (on-chain challenge)',
+}
+
+const BRIDGE_OUTCOME_LABELS: Record<NonNullable<TxRecord['bridgeOutcome']>, string> = {
+  partial: 'Partial (different token delivered)',
+  refunded: 'Refunded to wallet',
+}
+
 type FilterType = 'all' | TxType
 
 export function TxHistory() {
-  const { records, clear } = useTxHistory()
+  const { records: localRecords, clear } = useTxHistory()
+  const ledger = useLedgerHistory()
   const [filter, setFilter] = useState<FilterType>('all')
 
+  // Local records de-duplicated against the Yellow Network ledger
+  const records = useMemo(
+    () => mergeTxHistory(localRecords, ledger.records),
+    [localRecords, ledger.records],
+  )
+  const networkCount = records.filter(r => r.source === 'network').length
+
   const filtered = filter === 'all'
     ? records
     : records.filter(r => r.type === filter)
 
-  if (records.length === 0) {
+  if (records.length === 0 && !ledger.isLoading) {
     return (
       <div className="p-6 bg-gray-900 rounded-xl border border-gray-800">
         <div className="text-center py-8">
@@ -50,6 +80,14 @@ export function TxHistory() {
           <p className="text-gray-500 text-xs mt-1">
             Your payments, deposits, and withdrawals will appear here
           </p>
+          {!ledger.isAvailable && (
+            <p className="text-gray-600 text-xs mt-3">
+              Connect to Yellow Network in the Pay tab to load payments from other devices
+            </p>
+          )}
+          {ledger.error && (
+            <p className="text-red-400 text-xs mt-3">{ledger.error}</p>
+          )}
         </div>
       </div>
     )
@@ -75,12 +113,23 @@ export function TxHistory() {
             </button>
           ))}
         </div>
-        <button
-          onClick={clear}
-          className="text-xs text-gray-500 hover:text-red-400 transition-colors"
-        >
-          Clear
-        </button>
+        <div className="flex items-center gap-3">
+          {ledger.isAvailable && (
+            <button
+              onClick={ledger.refresh}
+              disabled={ledger.isLoading}
+              className="text-xs text-gray-500 hover:text-white disabled:text-gray-700 transition-colors"
+            >
+              Refresh
+            </button>
+          )}
+          <button
+            onClick={clear}
+            className="text-xs text-gray-500 hover:text-red-400 transition-colors"
+          >
+            Clear
+          </button>
+        </div>
       </div>
 
       {/* Transaction list */}
@@ -94,12 +143,28 @@ export function TxHistory() {
             <TxRow key={record.id} record={record} />
           ))
         )}
+
+        {ledger.hasMore && (
+          <button
+            onClick={ledger.loadMore}
+            disabled={ledger.isLoading}
+            className="w-full py-2 text-xs text-gray-400 hover:text-white disabled:text-gray-600 transition-colors"
+          >
+            {ledger.isLoading ? 'Loading...' : 'Load older transactions'}
+          </button>
+        )}
       </div>
 
+      {ledger.error && (
+        <p className="text-xs text-red-400 text-center">{ledger.error}</p>
+      )}
+
       {/* Summary */}
       <div className="pt-2 border-t border-gray-800">
         <p className="text-xs text-gray-500 text-center">
-          {records.length} transaction{records.length !== 1 ? 's' : ''} stored locally
+          {ledger.isAvailable
+            ? `${networkCount} from Yellow Network · ${records.length - networkCount} local only`
+            : `${records.length} transaction${records.length !== 1 ? 's' : ''} stored locally · connect to Yellow Network for full history`}
         </p>
       </div>
     </div>
@@ -110,6 +175,7 @@ function TxRow({ record }: { record: TxRecord }) {
   const [expanded, setExpanded] = useState(false)
   const time = formatTime(record.timestamp)
   const assetLabel = getAssetLabel(record.asset)
+  const isIncoming = record.type === 'payment' && record.direction === 'incoming'
 
   return (
     <div
@@ -120,17 +186,22 @@ function TxRow({ record }: { record: TxRecord }) {
       <div className="flex items-center gap-3">
         {/* Type badge */}
         <span className={`inline-flex items-center px-2 py-0.5 rounded text-[10px] font-medium border ${TYPE_COLORS[record.type]}`}>
-          {TYPE_LABELS[record.type]}
+          {isIncoming ? 'Received' : record.withdrawKind === 'partial' ? 'Partial withdraw' : record.withdrawKind === 'force' ? 'Force exit' : TYPE_LABELS[record.type]}
         </span>
 
         {/* Amount + asset */}
         <div className="flex-1 min-w-0">
           <p className="text-sm text-white font-medium truncate">
-            {record.type === 'payment' && record.recipient && (
-              <span className="text-gray-400 font-normal">to </span>
-            )}
-            {record.type === 'payment' && record.recipient ? (
-              <span>{record.recipient}</span>
+            {isIncoming && record.sender ? (
+              <>
+                <span className="text-gray-400 font-normal">from </span>
+                <span>{record.sender}</span>
+              </>
+            ) : record.type === 'payment' && record.recipient ? (
+              <>
+                <span className="text-gray-400 font-normal">to </span>
+                <span>{record.recipient}</span>
+              </>
             ) : record.type === 'fund' && record.sourceToken ? (
               <span>{record.sourceAmount} {record.sourceToken} → {record.amount} {assetLabel}</span>
             ) : (record.type === 'earn_deposit' || record.type === 'earn_withdraw') && record.vaultName ? (
@@ -139,9 +210,9 @@ function TxRow({ record }: { record: TxRecord }) {
               <span>{record.amount} {assetLabel}</span>
             )}
           </p>
-          {record.type === 'payment' && record.recipient && (
+          {record.type === 'payment' && (record.recipient || (isIncoming && record.sender)) && (
             <p className="text-xs text-gray-500 truncate">
-              {record.amount} {assetLabel}
+              {isIncoming ? '+' : ''}{record.amount} {assetLabel}
             </p>
           )}
           {record.type === 'earn_withdraw' && record.yieldEarned && (
@@ -155,9 +226,11 @@ function TxRow({ record }: { record: TxRecord }) {
         <div className="flex-shrink-0 text-right">
           <div className="flex items-center gap-1.5 justify-end">
             <div className={`w-1.5 h-1.5 rounded-full ${STATUS_DOT[record.status]}`} />
-            <span className="text-[10px] text-gray-500 capitalize">{record.status}</span>
+            <span className="text-[10px] text-gray-500 capitalize">{record.bridgeOutcome ?? record.status}</span>
           </div>
-          <p className="text-[10px] text-gray-600 mt-0.5">{time}</p>
+          <p className="text-[10px] text-gray-600 mt-0.5">
+            {record.source === 'network' ? 'Yellow' : 'Local'} &bull; {time}
+          </p>
         </div>
       </div>
 
@@ -167,12 +240,36 @@ function TxRow({ record }: { record: TxRecord }) {
           {record.recipientAddress && (
             <Detail label="Address" value={truncateAddr(record.recipientAddress)} />
           )}
+          {record.senderAddress && (
+            <Detail label="From" value={truncateAddr(record.senderAddress)} />
+          )}
           {record.sourceChain && (
             <Detail label="Source chain" value={record.sourceChain} />
           )}
           {record.txHash && (
             <Detail label="TX hash" value={truncateAddr(record.txHash)} />
           )}
+          {record.bridgeOutcome && (
+            <Detail label="Bridge" value={BRIDGE_OUTCOME_LABELS[record.bridgeOutcome]} />
+          )}
+          {record.receivedAmount && (
+            <Detail label="Received" value={`${record.receivedAmount} ${record.receivedToken ?? ''}`.trim()} />
+          )}
+          {record.gasRefuel && (
+            <Detail label="Gas refuel" value={`~${record.gasRefuel}`} />
+          )}
+          {record.withdrawKind && (
+            <Detail label="Withdrawal" value={WITHDRAW_KIND_LABELS[record.withdrawKind]} />
+          )}
+          {record.remainingAmount && (
+            <Detail label="Left in channel" value={record.remainingAmount} />
+          )}
+          {record.settlementStep && (
+            <Detail label="Settlement" value={SETTLEMENT_LABELS[record.settlementStep]} />
+          )}
+          {record.withdrawalTxHash && (
+            <Detail label="Withdrawal TX" value={truncateAddr(record.withdrawalTxHash)} />
+          )}
           {record.channelId && (
             <Detail label="Channel" value={truncateAddr(record.channelId)} />
           )}
@@ -182,6 +279,10 @@ function TxRow({ record }: { record: TxRecord }) {
           {record.yieldEarned && (
             <Detail label="Yield earned" value={`+${record.yieldEarned}`} />
           )}
+          {record.ledgerTxId !== undefined && (
+            <Detail label="Ledger TX" value={`#${record.ledgerTxId}`} />
+          )}
+          <Detail label="Source" value={record.source === 'network' ? 'Yellow Network ledger' : 'This browser'} />
           <Detail label="Time" value={new Date(record.timestamp).toLocaleString()} />
         </div>
       )}
@@ -1,30 +1,81 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useAccount } from 'wagmi'
-import { formatUnits } from 'viem'
+import { useAccount, useSwitchChain } from 'wagmi'
+import { formatUnits, parseUnits } from 'viem'
+import type { RPCChannelUpdateWithWallet } from '@erc7824/nitrolite'
 import { useYellow } from '@/hooks/useYellow'
+import { useTokenDecimals } from '@/hooks/useTokenDecimals'
 import { getAssetLabel } from '@/lib/constants'
 import { addTx, updateTx } from '@/lib/txHistory'
+import {
+  REQUIRED_CONFIRMATIONS,
+  removePendingSettlement,
+  savePendingSettlement,
+  type PendingSettlement,
+  type SettlementProgress,
+} from '@/lib/yellow'
+import { YellowConnectionBanner } from './YellowConnectionBanner'
+import { SessionPolicyEditor } from './SessionPolicyEditor'
+import { CustodyPanel } from './CustodyPanel'
+import { ForceExitPanel } from './ForceExitPanel'
+import { PendingSettlementsPanel } from './PendingSettlementsPanel'
+
+const PERCENT_SHORTCUTS = [25, 50, 75]
+
+// Parse a withdrawal amount into token units, or explain why it can't be withdrawn
+function parseWithdrawAmount(
+  value: string,
+  decimals: number,
+  channelAmount: bigint,
+): { units: bigint | null; error: string | null } {
+  if (!value) return { units: null, error: null }
+  const fraction = value.split('.')[1] ?? ''
+  if (fraction.length > decimals) {
+    return { units: null, error: `This token supports at most ${decimals} decimal places.` }
+  }
+  let units: bigint
+  try {
+    units = parseUnits(value, decimals)
+  } catch {
+    return { units: null, error: 'Enter a valid amount.' }
+  }
+  if (units <= BigInt(0)) return { units: null, error: 'Enter an amount greater than zero.' }
+  if (units > channelAmount) return { units: null, error: 'Amount exceeds the channel balance.' }
+  return { units, error: null }
+}
 
 export function WithdrawForm() {
-  const { address, isConnected: walletConnected } = useAccount()
+  const { address, chainId: walletChainId, isConnected: walletConnected } = useAccount()
+  const { switchChain, isPending: isSwitchingChain } = useSwitchChain()
 
   const {
     isConnected,
     isAuthenticated,
+    connectionState,
+    reconnectAttempt,
     balances,
     channels,
     error,
     isConnecting,
+    sessionPolicy,
     connect,
+    setSessionPolicy,
+    retryConnection,
     withdrawFromChannel,
+    settleWithdrawal,
+    withdrawCustodyBalance,
+    fetchAssets,
     disconnect,
   } = useYellow()
 
   const [selectedChannelId, setSelectedChannelId] = useState<`0x${string}` | null>(null)
+  const [withdrawAmount, setWithdrawAmount] = useState('')
   const [isWithdrawing, setIsWithdrawing] = useState(false)
   const [withdrawStatus, setWithdrawStatus] = useState<'idle' | 'success' | 'error'>('idle')
+  const [lastWithdrawKind, setLastWithdrawKind] = useState<'full' | 'partial'>('full')
+  // On-chain settlement of the withdrawal in progress (null before the ClearNode signs it)
+  const [settlement, setSettlement] = useState<SettlementProgress | null>(null)
 
   // Auto-select first channel
   useEffect(() => {
@@ -34,37 +85,97 @@ export function WithdrawForm() {
   }, [channels, selectedChannelId])
 
   const selectedChannel = channels.find(c => c.channelId === selectedChannelId)
+  const decimals = useTokenDecimals(selectedChannel?.chainId, selectedChannel?.token)
+  const channelAmount = selectedChannel ? BigInt(selectedChannel.amount.toString()) : BigInt(0)
+
+  // Default to the full channel balance whenever the selected channel (or its balance) changes
+  useEffect(() => {
+    setWithdrawAmount(decimals !== undefined && channelAmount > BigInt(0) ? formatUnits(channelAmount, decimals) : '')
+  }, [selectedChannelId, decimals, channelAmount])
+
+  const { units: withdrawUnits, error: amountError } = decimals !== undefined
+    ? parseWithdrawAmount(withdrawAmount, decimals, channelAmount)
+    : { units: null, error: null }
+  const isFullWithdraw = withdrawUnits !== null && withdrawUnits === channelAmount
+  const remainingAmount = withdrawUnits !== null && decimals !== undefined
+    ? formatUnits(channelAmount - withdrawUnits, decimals)
+    : null
+
+  const setPercent = (percent: number) => {
+    if (decimals === undefined) return
+    setWithdrawAmount(formatUnits((channelAmount * BigInt(percent)) / BigInt(100), decimals))
+  }
+
+  const isWrongChain = !!selectedChannel && walletChainId !== selectedChannel.chainId
 
   const handleWithdraw = async () => {
-    if (!selectedChannelId || !address) return
+    if (!selectedChannel || !address || withdrawUnits === null || decimals === undefined) return
+    const { channelId, chainId, token } = selectedChannel
 
     setIsWithdrawing(true)
     setWithdrawStatus('idle')
+    setSettlement(null)
 
-    // Build amount string from selected channel
-    const withdrawAmount = selectedChannel
-      ? formatUnits(BigInt(selectedChannel.amount.toString()), 6)
-      : '0'
-
+    const kind = isFullWithdraw ? 'full' : 'partial'
+    setLastWithdrawKind(kind)
     const tx = addTx({
       type: 'withdraw',
       status: 'pending',
-      asset: selectedChannel?.token || 'unknown',
-      amount: withdrawAmount,
-      channelId: selectedChannelId,
+      asset: token,
+      amount: formatUnits(withdrawUnits, decimals),
+      channelId,
+      withdrawKind: kind,
+      remainingAmount: kind === 'partial' ? remainingAmount ?? undefined : undefined,
     })
 
+    let pending: PendingSettlement | null = null
     try {
-      // Full withdrawal — close the channel, send all funds to wallet
-      await withdrawFromChannel(selectedChannelId, address)
+      // Full withdrawal closes the channel; partial resizes it and keeps it open
+      const operation = await withdrawFromChannel(channelId, address, kind === 'full' ? undefined : withdrawUnits)
+
+      // Keep the signed state until it is settled, so a failed settlement can be retried
+      pending = {
+        txId: tx.id,
+        wallet: address,
+        chainId,
+        kind: kind === 'full' ? 'close' : 'resize',
+        token,
+        amount: withdrawUnits.toString(),
+        operation,
+        startedAt: Date.now(),
+      }
+      savePendingSettlement(pending)
+
+      // Completed only once the custody contract has paid out to the wallet
+      await settleWithdrawal(operation, pending.kind, chainId, token, withdrawUnits, progress => {
+        setSettlement(progress)
+        if (pending) {
+          pending = { ...pending, progress }
+          savePendingSettlement(pending)
+        }
+        updateTx(tx.id, {
+          settlementStep: progress.step,
+          txHash: progress.channelTxHash,
+          withdrawalTxHash: progress.withdrawalTxHash,
+        })
+      })
+      removePendingSettlement(tx.id)
       updateTx(tx.id, { status: 'completed' })
       setWithdrawStatus('success')
-      setSelectedChannelId(null)
+      if (kind === 'full') setSelectedChannelId(null)
 
-      setTimeout(() => setWithdrawStatus('idle'), 5000)
+      setTimeout(() => {
+        setWithdrawStatus('idle')
+        setSettlement(null)
+      }, 5000)
     } catch (e) {
       console.error('Withdraw failed:', e)
-      updateTx(tx.id, { status: 'failed' })
+      if (pending) {
+        // Signed but not settled: stays pending, to be retried from the panel
+        savePendingSettlement({ ...pending, error: e instanceof Error ? e.message : 'Settlement failed' })
+      } else {
+        updateTx(tx.id, { status: 'failed' })
+      }
       setWithdrawStatus('error')
     } finally {
       setIsWithdrawing(false)
@@ -87,7 +198,8 @@ export function WithdrawForm() {
     )
   }
 
-  if (!isConnected || !isAuthenticated) {
+  // While the supervisor is reconnecting, keep the form and show a banner instead
+  if ((!isConnected || !isAuthenticated) && connectionState !== 'reconnecting') {
     return (
       <div className="p-6 bg-gray-900 rounded-xl border border-gray-800 space-y-4">
         <div className="text-center">
@@ -98,6 +210,13 @@ export function WithdrawForm() {
             View your channels and withdraw funds
           </p>
         </div>
+        <SessionPolicyEditor
+          allowances={sessionPolicy}
+          balances={balances}
+          onChange={setSessionPolicy}
+          disabled={isConnecting}
+        />
+
         <button
           onClick={handleConnect}
           disabled={isConnecting}
@@ -117,6 +236,23 @@ export function WithdrawForm() {
         {error && (
           <p className="text-sm text-red-400 text-center">{error}</p>
         )}
+
+        {/* Settlement is on-chain only, so unfinished withdrawals can be retried while disconnected */}
+        <PendingSettlementsPanel settleWithdrawal={settleWithdrawal} />
+
+        {/* Custody is on-chain too: funds left there can be withdrawn without a session */}
+        <div className="pt-4 border-t border-gray-800">
+          <CustodyPanel
+            isAuthenticated={false}
+            fetchAssets={fetchAssets}
+            withdrawCustodyBalance={withdrawCustodyBalance}
+          />
+        </div>
+
+        {/* Works without the ClearNode — the way out if connecting keeps failing */}
+        <div className="pt-4 border-t border-gray-800">
+          <ForceExitPanel />
+        </div>
       </div>
     )
   }
@@ -156,6 +292,14 @@ export function WithdrawForm() {
         </button>
       </div>
 
+      <YellowConnectionBanner
+        connectionState={connectionState}
+        reconnectAttempt={reconnectAttempt}
+        onRetry={retryConnection}
+      />
+
+      <PendingSettlementsPanel settleWithdrawal={settleWithdrawal} />
+
       {/* Channels */}
       <div className="space-y-2">
         <label className="block text-sm font-medium text-gray-300">
@@ -174,37 +318,73 @@ export function WithdrawForm() {
         ) : (
           <div className="space-y-2">
             {openChannels.map(channel => (
-              <button
+              <ChannelOption
                 key={channel.channelId}
-                onClick={() => setSelectedChannelId(channel.channelId)}
-                className={`w-full p-3 rounded-lg border text-left transition-colors ${
-                  selectedChannelId === channel.channelId
-                    ? 'bg-gray-800 border-yellow-500/50'
-                    : 'bg-gray-800/50 border-gray-700/50 hover:border-gray-600'
-                }`}
-              >
-                <div className="flex justify-between items-center">
-                  <div>
-                    <p className="text-sm text-white font-medium">
-                      Chain {channel.chainId}
-                    </p>
-                    <p className="text-xs text-gray-500 font-mono">
-                      {channel.channelId.slice(0, 10)}...{channel.channelId.slice(-8)}
-                    </p>
-                  </div>
-                  <div className="text-right">
-                    <p className="text-sm text-white font-semibold">
-                      {formatUnits(BigInt(channel.amount.toString()), 6)}
-                    </p>
-                    <p className="text-xs text-gray-500">{channel.status}</p>
-                  </div>
-                </div>
-              </button>
+                channel={channel}
+                selected={selectedChannelId === channel.channelId}
+                onSelect={() => setSelectedChannelId(channel.channelId)}
+              />
             ))}
           </div>
         )}
       </div>
 
+      {/* Withdraw amount */}
+      {selectedChannel && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-300">
+            Amount
+          </label>
+          <div className="relative">
+            <input
+              type="number"
+              value={withdrawAmount}
+              onChange={(e) => setWithdrawAmount(e.target.value)}
+              placeholder="0.00"
+              min="0"
+              step="any"
+              disabled={decimals === undefined}
+              className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg
+                         text-white placeholder-gray-500 focus:outline-none focus:ring-2
+                         focus:ring-yellow-500 focus:border-transparent pr-20
+                         disabled:opacity-50"
+            />
+            <button
+              onClick={() => setPercent(100)}
+              disabled={decimals === undefined}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-xs
+                         text-yellow-400 hover:text-yellow-300 font-medium"
+            >
+              MAX
+            </button>
+          </div>
+          <div className="flex gap-2">
+            {PERCENT_SHORTCUTS.map(percent => (
+              <button
+                key={percent}
+                onClick={() => setPercent(percent)}
+                disabled={decimals === undefined}
+                className="flex-1 py-1.5 bg-gray-800 hover:bg-gray-700 border border-gray-700
+                           text-xs text-gray-300 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {percent}%
+              </button>
+            ))}
+          </div>
+          {decimals === undefined ? (
+            <p className="text-xs text-gray-500">Loading token details...</p>
+          ) : amountError ? (
+            <p className="text-xs text-red-400">{amountError}</p>
+          ) : remainingAmount !== null && (
+            <p className="text-xs text-gray-500">
+              {isFullWithdraw
+                ? 'Withdraws the full balance and closes the channel'
+                : `${remainingAmount} stays in the channel, which remains open`}
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Withdraw destination */}
       {selectedChannel && (
         <div className="space-y-2">
@@ -217,16 +397,30 @@ export function WithdrawForm() {
               {address?.slice(0, 10)}...{address?.slice(-8)}
             </p>
             <p className="text-xs text-gray-500 mt-1">
-              Chain {selectedChannel.chainId} &bull; Closes the channel and returns all funds on-chain
+              Chain {selectedChannel.chainId} &bull; {isFullWithdraw
+                ? 'Closes the channel and returns all funds on-chain'
+                : 'Resizes the channel and returns the amount on-chain'}
             </p>
           </div>
         </div>
       )}
 
+      {/* Settlement needs the wallet on the channel's chain */}
+      {isWrongChain && !isWithdrawing && (
+        <button
+          onClick={() => switchChain({ chainId: selectedChannel.chainId })}
+          disabled={isSwitchingChain}
+          className="w-full py-2 bg-gray-700 hover:bg-gray-600 text-white font-medium
+                     text-sm rounded-lg transition-colors disabled:opacity-50"
+        >
+          {isSwitchingChain ? 'Switching...' : `Switch wallet to chain ${selectedChannel.chainId}`}
+        </button>
+      )}
+
       {/* Withdraw button */}
       <button
         onClick={handleWithdraw}
-        disabled={!selectedChannelId || isWithdrawing || openChannels.length === 0}
+        disabled={!selectedChannelId || isWithdrawing || openChannels.length === 0 || !isAuthenticated || withdrawUnits === null || isWrongChain}
         className="w-full py-3 bg-yellow-500 hover:bg-yellow-400 disabled:bg-gray-700
                    disabled:cursor-not-allowed text-black disabled:text-gray-400
                    font-medium rounded-lg transition-colors
@@ -235,20 +429,58 @@ export function WithdrawForm() {
         {isWithdrawing ? (
           <>
             <div className="w-4 h-4 border-2 border-black border-t-transparent rounded-full animate-spin" />
-            Withdrawing...
+            {settlement ? 'Settling on-chain...' : 'Withdrawing...'}
           </>
         ) : openChannels.length === 0 ? (
           'No channels to withdraw'
-        ) : (
+        ) : isFullWithdraw || withdrawUnits === null ? (
           'Withdraw to Wallet'
+        ) : (
+          'Withdraw Partial Amount'
         )}
       </button>
 
+      {/* On-chain settlement progress */}
+      {settlement && (
+        <div className="p-3 bg-gray-800/50 rounded-lg border border-gray-700/50 space-y-3">
+          <StatusStep label="Channel state signed by Yellow Network" status="done" />
+          <StatusStep
+            label={`${lastWithdrawKind === 'full' ? 'Closing' : 'Resizing'} channel on-chain${
+              settlement.step === 'confirming' ? ` (${settlement.confirmations}/${REQUIRED_CONFIRMATIONS} confirmations)` : ''
+            }`}
+            status={settlement.step === 'submitting' || settlement.step === 'confirming' ? 'active' : 'done'}
+          />
+          <StatusStep
+            label={`Withdrawing from custody to your wallet${
+              settlement.step === 'withdrawing' ? ` (${settlement.confirmations}/${REQUIRED_CONFIRMATIONS} confirmations)` : ''
+            }`}
+            status={
+              settlement.step === 'withdrawing' || settlement.step === 'verifying' ? 'active'
+              : settlement.step === 'settled' ? 'done'
+              : 'pending'
+            }
+          />
+          <StatusStep label="Funds in your wallet" status={settlement.step === 'settled' ? 'done' : 'pending'} />
+          {(settlement.channelTxHash || settlement.withdrawalTxHash) && (
+            <div className="text-xs text-gray-500 font-mono space-y-0.5">
+              {settlement.channelTxHash && (
+                <p>Channel TX: {settlement.channelTxHash.slice(0, 10)}...{settlement.channelTxHash.slice(-8)}</p>
+              )}
+              {settlement.withdrawalTxHash && (
+                <p>Withdrawal TX: {settlement.withdrawalTxHash.slice(0, 10)}...{settlement.withdrawalTxHash.slice(-8)}</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Status */}
       {withdrawStatus === 'success' && (
         <div className="p-3 bg-green-900/20 border border-green-700 rounded-lg">
           <p className="text-sm text-green-400 text-center">
-            Withdrawal initiated! Funds will settle on-chain shortly.
+            {lastWithdrawKind === 'full'
+              ? 'Withdrawal settled! The funds are in your wallet.'
+              : 'Partial withdrawal settled! Your channel stays open with the remaining balance.'}
           </p>
         </div>
       )}
@@ -261,9 +493,93 @@ export function WithdrawForm() {
         </div>
       )}
 
+      <div className="pt-4 border-t border-gray-800">
+        <CustodyPanel
+          isAuthenticated={isAuthenticated}
+          fetchAssets={fetchAssets}
+          withdrawCustodyBalance={withdrawCustodyBalance}
+        />
+      </div>
+
+      <div className="pt-4 border-t border-gray-800">
+        <ForceExitPanel />
+      </div>
+
       <p className="text-xs text-gray-500 text-center">
-        Withdrawing closes your channel and settles funds on-chain.
+        Withdrawing the full balance closes your channel; a partial withdrawal resizes it.
+        Either way, your wallet confirms the on-chain settlement and the custody withdrawal.
       </p>
     </div>
   )
 }
+
+function StatusStep({ label, status }: { label: string; status: 'pending' | 'active' | 'done' }) {
+  return (
+    <div className="flex items-center gap-3">
+      <div className="flex-shrink-0">
+        {status === 'done' && (
+          <div className="w-6 h-6 rounded-full bg-green-500/20 flex items-center justify-center">
+            <svg className="w-3.5 h-3.5 text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+            </svg>
+          </div>
+        )}
+        {status === 'active' && (
+          <div className="w-6 h-6 rounded-full bg-yellow-500/20 flex items-center justify-center">
+            <div className="w-3 h-3 border-2 border-yellow-400 border-t-transparent rounded-full animate-spin" />
+          </div>
+        )}
+        {status === 'pending' && (
+          <div className="w-6 h-6 rounded-full bg-gray-700 flex items-center justify-center">
+            <div className="w-2 h-2 rounded-full bg-gray-500" />
+          </div>
+        )}
+      </div>
+      <span className={`text-sm ${
+        status === 'done' ? 'text-green-400' :
+        status === 'active' ? 'text-yellow-400' :
+        'text-gray-500'
+      }`}>
+        {label}
+      </span>
+    </div>
+  )
+}
+
+interface ChannelOptionProps {
+  channel: RPCChannelUpdateWithWallet
+  selected: boolean
+  onSelect: () => void
+}
+
+function ChannelOption({ channel, selected, onSelect }: ChannelOptionProps) {
+  const decimals = useTokenDecimals(channel.chainId, channel.token)
+
+  return (
+    <button
+      onClick={onSelect}
+      className={`w-full p-3 rounded-lg border text-left transition-colors ${
+        selected
+          ? 'bg-gray-800 border-yellow-500/50'
+          : 'bg-gray-800/50 border-gray-700/50 hover:border-gray-600'
+      }`}
+    >
+      <div className="flex justify-between items-center">
+        <div>
+          <p className="text-sm text-white font-medium">
+            Chain {channel.chainId}
+          </p>
+          <p className="text-xs text-gray-500 font-mono">
+            {channel.channelId.slice(0, 10)}...{channel.channelId.slice(-8)}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-sm text-white font-semibold">
+            {decimals !== undefined ? formatUnits(BigInt(channel.amount.toString()), decimals) : '—'}
+          </p>
+          <p className="text-xs text-gray-500">{channel.status}</p>
+        </div>
+      </div>
+    </button>
+  )
+}
@@ -0,0 +1,56 @@
+'use client'
+
+import type { YellowConnectionState } from '@/lib/yellow'
+
+interface YellowConnectionBannerProps {
+  connectionState: YellowConnectionState
+  reconnectAttempt?: number
+  onRetry?: () => void
+}
+
+// Shows the Yellow Network connection supervisor state.
+// Renders nothing while connected (or before the user has connected at all).
+export function YellowConnectionBanner({ connectionState, reconnectAttempt, onRetry }: YellowConnectionBannerProps) {
+  if (connectionState === 'reconnecting') {
+    return (
+      <div className="p-3 bg-yellow-900/20 border border-yellow-700/50 rounded-lg flex items-center gap-2">
+        <div className="w-3.5 h-3.5 border-2 border-yellow-400 border-t-transparent rounded-full animate-spin flex-shrink-0" />
+        <p className="text-sm text-yellow-400">
+          Connection lost. Reconnecting to Yellow Network
+          {reconnectAttempt ? ` (attempt ${reconnectAttempt})` : ''}...
+        </p>
+      </div>
+    )
+  }
+
+  if (connectionState === 'degraded') {
+    return (
+      <div className="p-3 bg-yellow-900/20 border border-yellow-700/50 rounded-lg">
+        <p className="text-sm text-yellow-400">
+          Yellow Network is responding slowly. Balances may be out of date.
+        </p>
+      </div>
+    )
+  }
+
+  if (connectionState === 'offline') {
+    return (
+      <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg space-y-2">
+        <p className="text-sm text-red-400">
+          Yellow Network is offline. Payments are paused until the connection is restored.
+        </p>
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="w-full py-2 bg-gray-700 hover:bg-gray-600 text-white font-medium
+                       text-sm rounded-lg transition-colors"
+          >
+            Retry connection
+          </button>
+        )}
+      </div>
+    )
+  }
+
+  return null
+}
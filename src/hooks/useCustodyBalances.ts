@@ -0,0 +1,55 @@
+'use client'
+
+import { useState, useCallback, useEffect } from 'react'
+import { useAccount, useConfig } from 'wagmi'
+import { getPublicClient } from 'wagmi/actions'
+import type { PublicClient } from 'viem'
+import type { RPCAsset } from '@erc7824/nitrolite'
+import { custodyTokens, readCustodyBalances, type CustodyBalance, type CustodyReadError } from '@/lib/yellow'
+
+interface UseCustodyBalancesOptions {
+  isAuthenticated: boolean // the ClearNode's assets are added to the known tokens
+  fetchAssets: () => Promise<RPCAsset[]>
+}
+
+/**
+ * React hook for the connected wallet's available custody balances on every Yellow chain.
+ * Loads once a wallet is connected — custody is on-chain, so no Yellow session is
+ * needed; call `refresh()` after a deposit or withdrawal.
+ */
+export function useCustodyBalances({ isAuthenticated, fetchAssets }: UseCustodyBalancesOptions) {
+  const { address } = useAccount()
+  const config = useConfig()
+
+  const [balances, setBalances] = useState<CustodyBalance[]>([])
+  const [errors, setErrors] = useState<CustodyReadError[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  const refresh = useCallback(async () => {
+    if (!address) return
+    setIsLoading(true)
+    try {
+      const assets = isAuthenticated
+        ? await fetchAssets().catch(error => {
+            console.warn('ClearNode assets unavailable, reading known tokens only:', error)
+            return []
+          })
+        : []
+      const result = await readCustodyBalances(
+        address,
+        custodyTokens(assets),
+        chainId => getPublicClient(config, { chainId }) as PublicClient | undefined,
+      )
+      setBalances(result.balances)
+      setErrors(result.errors)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [isAuthenticated, address, fetchAssets, config])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return { balances, errors, isLoading, refresh }
+}
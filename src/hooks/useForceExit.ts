@@ -0,0 +1,203 @@
+'use client'
+
+import { useState, useCallback, useEffect } from 'react'
+import { useAccount, useWalletClient, usePublicClient } from 'wagmi'
+import { erc20Abi, formatUnits, zeroAddress, type Address, type PublicClient } from 'viem'
+import { findSettlementTokenByAddress } from '@/lib/constants'
+import { addTx, updateTx } from '@/lib/txHistory'
+import {
+  createNitroliteClient,
+  finalizeForceExit,
+  getForceExits,
+  removeForceExit,
+  saveForceExit,
+  startChallenge,
+  syncForceExit,
+  type ForceExit,
+  type SettlementProgress,
+} from '@/lib/yellow'
+
+// Symbol and decimals of a channel token, for the history record
+async function describeToken(publicClient: PublicClient, chainId: number, token: Address) {
+  const known = findSettlementTokenByAddress(chainId, token)
+  if (known) return { symbol: known.symbol, decimals: known.decimals }
+  if (token.toLowerCase() === zeroAddress) return { symbol: 'ETH', decimals: 18 }
+  const [symbol, decimals] = await Promise.all([
+    publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'symbol' }),
+    publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'decimals' }),
+  ])
+  return { symbol, decimals }
+}
+
+/**
+ * React hook for force-exiting channels on-chain.
+ * Talks only to the custody contract — works while the ClearNode is unreachable.
+ */
+export function useForceExit() {
+  const { address, chainId } = useAccount()
+  const { data: walletClient } = useWalletClient()
+  const publicClient = usePublicClient() as PublicClient | undefined
+
+  const [exits, setExits] = useState<ForceExit[]>([])
+  const [onChainChannels, setOnChainChannels] = useState<`0x${string}`[]>([])
+  const [busyChannelId, setBusyChannelId] = useState<string | null>(null)
+  const [progress, setProgress] = useState<Partial<SettlementProgress>>({})
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(() => {
+    setExits(address ? getForceExits(address) : [])
+  }, [address])
+
+  const update = useCallback((exit: ForceExit, changes: Partial<ForceExit>): ForceExit => {
+    const next = { ...exit, ...changes }
+    saveForceExit(next)
+    reload()
+    return next
+  }, [reload])
+
+  const getNitrolite = useCallback((exitChainId: number) => {
+    if (!walletClient || !publicClient) throw new Error('Wallet not connected')
+    if (walletClient.chain?.id !== exitChainId || publicClient.chain?.id !== exitChainId) {
+      throw new Error(`Switch your wallet to chain ${exitChainId} to continue the force exit.`)
+    }
+    return { nitrolite: createNitroliteClient(walletClient, publicClient, exitChainId), walletClient, publicClient }
+  }, [walletClient, publicClient])
+
+  // Channels the custody contract holds for this wallet on the current chain
+  const fetchOnChainChannels = useCallback(async () => {
+    if (!walletClient || !publicClient || !chainId) return
+    try {
+      const { nitrolite } = getNitrolite(chainId)
+      setOnChainChannels(await nitrolite.getOpenChannels())
+    } catch (e) {
+      console.error('Failed to read on-chain channels:', e)
+      setOnChainChannels([])
+    }
+  }, [walletClient, publicClient, chainId, getNitrolite])
+
+  // Bring stored exits on the current chain up to date with the contract
+  const sync = useCallback(async () => {
+    if (!address || !chainId || !walletClient || !publicClient) return
+    for (const exit of getForceExits(address)) {
+      if (exit.chainId !== chainId) continue
+      try {
+        const { nitrolite } = getNitrolite(chainId)
+        const synced = await syncForceExit(nitrolite, exit)
+        if (synced !== exit) saveForceExit(synced)
+      } catch (e) {
+        console.error('Failed to sync force exit:', e)
+      }
+    }
+    reload()
+  }, [address, chainId, walletClient, publicClient, getNitrolite, reload])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  useEffect(() => {
+    sync()
+    fetchOnChainChannels()
+  }, [sync, fetchOnChainChannels])
+
+  const challenge = useCallback(async (channelId: `0x${string}`) => {
+    if (!address || !chainId) return
+    setBusyChannelId(channelId)
+    setError(null)
+
+    let exit: ForceExit = {
+      channelId,
+      chainId,
+      wallet: address,
+      token: zeroAddress, // set once the challenge is submitted
+      amount: '0',
+      stage: 'challenging',
+      startedAt: Date.now(),
+    }
+    try {
+      const { nitrolite, walletClient, publicClient } = getNitrolite(chainId)
+      const { challengeExpiry } = await startChallenge(nitrolite, walletClient, publicClient, channelId, address, submitted => {
+        exit = update(exit, submitted)
+        describeToken(publicClient, chainId, submitted.token)
+          .catch(() => ({ symbol: 'token', decimals: 18 }))
+          .then(({ symbol, decimals }) => {
+            const tx = addTx({
+              type: 'withdraw',
+              status: 'pending',
+              asset: symbol.toLowerCase(),
+              amount: formatUnits(BigInt(submitted.amount), decimals),
+              withdrawKind: 'force',
+              channelId,
+              txHash: submitted.challengeTxHash,
+            })
+            exit = update(exit, { txId: tx.id })
+          })
+      })
+      exit = update(exit, { stage: 'challenged', challengeExpiry, error: undefined })
+    } catch (e) {
+      console.error('Challenge failed:', e)
+      const message = e instanceof Error ? e.message : 'Challenge failed'
+      // Nothing was sent — don't leave an exit behind
+      if (!exit.challengeTxHash) removeForceExit(channelId)
+      else update(exit, { error: message })
+      reload()
+      setError(message)
+    } finally {
+      setBusyChannelId(null)
+    }
+  }, [address, chainId, getNitrolite, update, reload])
+
+  const finalize = useCallback(async (exit: ForceExit) => {
+    setBusyChannelId(exit.channelId)
+    setProgress({})
+    setError(null)
+
+    let current = update(exit, { error: undefined })
+    try {
+      const { nitrolite, walletClient, publicClient } = getNitrolite(exit.chainId)
+      await finalizeForceExit(
+        nitrolite,
+        walletClient,
+        publicClient,
+        current,
+        changes => {
+          current = update(current, changes)
+          if (!current.txId) return
+          if (changes.withdrawalTxHash) updateTx(current.txId, { withdrawalTxHash: changes.withdrawalTxHash })
+          if (changes.stage === 'done') updateTx(current.txId, { status: 'completed', settlementStep: 'settled' })
+        },
+        p => {
+          setProgress(prev => ({ ...prev, ...p }))
+          if (p.step && current.txId) updateTx(current.txId, { settlementStep: p.step })
+        },
+      )
+      fetchOnChainChannels()
+    } catch (e) {
+      console.error('Force exit failed:', e)
+      const message = e instanceof Error ? e.message : 'Force exit failed'
+      update(current, { error: message })
+      setError(message)
+    } finally {
+      setBusyChannelId(null)
+    }
+  }, [getNitrolite, update, fetchOnChainChannels])
+
+  // Forget an exit; one dismissed before its payout counts as failed in history
+  const dismiss = useCallback((exit: ForceExit) => {
+    if (exit.txId && exit.stage !== 'done') updateTx(exit.txId, { status: 'failed' })
+    removeForceExit(exit.channelId)
+    reload()
+  }, [reload])
+
+  return {
+    exits,
+    onChainChannels,
+    busyChannelId,
+    progress,
+    error,
+    challenge,
+    finalize,
+    dismiss,
+    refresh: sync,
+  }
+}
@@ -0,0 +1,80 @@
+'use client'
+
+import { useState, useCallback, useEffect } from 'react'
+import { useAccount } from 'wagmi'
+import { useYellow } from './useYellow'
+import { ledgerTxToRecord, type TxRecord } from '@/lib/txHistory'
+
+const PAGE_SIZE = 20
+
+/**
+ * React hook for the account's off-chain history on the Yellow Network ledger.
+ * Loads the first page once authenticated; `loadMore()` pages further back.
+ */
+export function useLedgerHistory() {
+  const { address } = useAccount()
+  // Bumped on every incoming payment so the first page is reloaded
+  const [receivedCount, setReceivedCount] = useState(0)
+  const handleIncoming = useCallback(() => setReceivedCount(count => count + 1), [])
+  const { isAuthenticated, fetchLedgerTransactions } = useYellow({ onIncomingPayment: handleIncoming })
+
+  const [records, setRecords] = useState<TxRecord[]>([])
+  const [offset, setOffset] = useState(0)
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadPage = useCallback(async (pageOffset: number) => {
+    if (!address) return
+    setIsLoading(true)
+    setError(null)
+    try {
+      const transactions = await fetchLedgerTransactions(pageOffset, PAGE_SIZE)
+      const page = transactions
+        .map(tx => ledgerTxToRecord(tx, address))
+        .filter((r): r is TxRecord => r !== null)
+
+      setRecords(prev => {
+        const base = pageOffset === 0 ? [] : prev
+        const seen = new Set(base.map(r => r.ledgerTxId))
+        return [...base, ...page.filter(r => !seen.has(r.ledgerTxId))]
+      })
+      setOffset(pageOffset + transactions.length)
+      setHasMore(transactions.length === PAGE_SIZE)
+    } catch (e) {
+      console.error('Failed to fetch ledger history:', e)
+      setError('Could not load history from Yellow Network.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [address, fetchLedgerTransactions])
+
+  // First page once authenticated (and again after an account switch or a received payment)
+  useEffect(() => {
+    if (!isAuthenticated) return
+    loadPage(0)
+  }, [isAuthenticated, loadPage, receivedCount])
+
+  // Forget the previous account's history
+  useEffect(() => {
+    setRecords([])
+    setOffset(0)
+    setHasMore(false)
+  }, [address])
+
+  const loadMore = useCallback(() => {
+    if (!isLoading && hasMore) loadPage(offset)
+  }, [isLoading, hasMore, offset, loadPage])
+
+  const refresh = useCallback(() => loadPage(0), [loadPage])
+
+  return {
+    records,
+    hasMore,
+    isLoading,
+    error,
+    isAvailable: isAuthenticated,
+    loadMore,
+    refresh,
+  }
+}
@@ -1,37 +1,80 @@
 'use client'
 
 import { useState, useCallback, useEffect, useRef, useMemo } from 'react'
-import { lifi } from '@/lib/lifi'
+import { useAccount, useConfig } from 'wagmi'
+import { getAccount, getPublicClient, getWalletClient, switchChain } from 'wagmi/actions'
+import { formatUnits, type PublicClient, type WalletClient } from 'viem'
+import { cheapestDestinationFirst, getLiFiBudget, lifi, preflightLiFiStep, quoteDelay } from '@/lib/lifi'
+import { PreflightError } from '@/lib/preflight'
+import { estimateCustodyDepositFee } from '@/lib/yellow'
 import type {
+  LiFiChainClients,
   LiFiQuote,
   LiFiQuoteRequest,
+  LiFiRoute,
+  LiFiRoutesRequest,
   LiFiChain,
   LiFiToken,
+  LiFiTools,
   LiFiStatus,
   LiFiStatusType,
+  LiFiStep,
 } from '@/lib/lifi'
 
+// Longest wait for rate-limit budget before a quote request gives up with an error
+const MAX_QUOTE_WAIT_MS = 30_000
+
+// Hold a quote request back while the LI.FI budget is low. Resolves false if it was
+// superseded while waiting; throws if the budget won't recover soon.
+export async function waitForQuoteBudget(isCurrent: () => boolean, setThrottled: (throttled: boolean) => void): Promise<boolean> {
+  const delay = quoteDelay()
+  if (delay <= 0) return true
+  if (delay > MAX_QUOTE_WAIT_MS) {
+    throw new Error(`LI.FI request limit almost used up — quotes resume in about ${Math.ceil(delay / 60_000)} min`)
+  }
+
+  setThrottled(true)
+  await new Promise(resolve => setTimeout(resolve, delay))
+  if (!isCurrent()) return false
+  setThrottled(false)
+  return true
+}
+
 // ─── Quote Hook ───
-// Fetches a swap/bridge quote with debouncing
+// Fetches a swap/bridge quote with debouncing; spaced out when the LI.FI budget is low.
+// `refresh` re-requests the last quote in the background, keeping the current one shown.
 
 export function useLiFiQuote() {
   const [quote, setQuote] = useState<LiFiQuote | null>(null)
   const [isLoading, setIsLoading] = useState(false)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [isThrottled, setIsThrottled] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [fetchedAt, setFetchedAt] = useState<number | null>(null)
+  // Bumped for every new request (not refreshes), so forms can tell the two apart
+  const [generation, setGeneration] = useState(0)
   const abortRef = useRef(0)
+  const paramsRef = useRef<LiFiQuoteRequest | null>(null)
 
   const fetchQuote = useCallback(async (params: LiFiQuoteRequest) => {
     const requestId = ++abortRef.current
+    paramsRef.current = params
+    setGeneration(g => g + 1)
     setIsLoading(true)
+    setIsRefreshing(false)
+    setIsThrottled(false)
     setError(null)
     setQuote(null)
+    setFetchedAt(null)
 
     try {
+      if (!await waitForQuoteBudget(() => requestId === abortRef.current, setIsThrottled)) return null
       const result = await lifi.getQuote(params)
 
       // Only update if this is still the latest request
       if (requestId === abortRef.current) {
         setQuote(result)
+        setFetchedAt(Date.now())
       }
       return result
     } catch (e) {
@@ -47,14 +90,384 @@ export function useLiFiQuote() {
     }
   }, [])
 
+  const refresh = useCallback(async () => {
+    const params = paramsRef.current
+    if (!params) return
+    const requestId = ++abortRef.current
+    setIsRefreshing(true)
+
+    try {
+      if (!await waitForQuoteBudget(() => requestId === abortRef.current, setIsThrottled)) return
+      const result = await lifi.getQuote(params)
+      if (requestId === abortRef.current) {
+        setQuote(result)
+        setFetchedAt(Date.now())
+        setError(null)
+      }
+    } catch (e) {
+      // Keep showing the current quote; it expires if refreshes keep failing
+      console.warn('Quote refresh failed:', e)
+    } finally {
+      if (requestId === abortRef.current) {
+        setIsRefreshing(false)
+        setIsThrottled(false)
+      }
+    }
+  }, [])
+
   const clearQuote = useCallback(() => {
     abortRef.current++
+    paramsRef.current = null
+    setGeneration(g => g + 1)
     setQuote(null)
+    setFetchedAt(null)
+    setError(null)
+    setIsLoading(false)
+    setIsRefreshing(false)
+    setIsThrottled(false)
+  }, [])
+
+  return { quote, isLoading, isRefreshing, isThrottled, error, fetchedAt, generation, fetchQuote, refresh, clearQuote }
+}
+
+// ─── Routes Hook ───
+// Fetches alternative routes (/advanced/routes) for the route picker; spaced out and
+// refreshed like quotes. Given several requests (the same asset on different
+// destination chains), fetches them together with the cheapest destination first.
+// Each destination is a request against the LI.FI budget, so only the first few are
+// fetched, and only the first (preferred) one once the budget runs low.
+
+const MAX_ROUTE_DESTINATIONS = 3
+const FAN_OUT_MIN_BUDGET_SHARE = 0.5
+
+interface RoutesParams {
+  requests: LiFiRoutesRequest | LiFiRoutesRequest[]
+  destinationCostUSD?: Record<number, number> // see cheapestDestinationFirst
+}
+
+async function getRoutesFor({ requests, destinationCostUSD }: RoutesParams): Promise<LiFiRoute[]> {
+  if (!Array.isArray(requests)) return lifi.getRoutes(requests)
+
+  const budget = getLiFiBudget()
+  const fanOut = budget.remaining / budget.limit > FAN_OUT_MIN_BUDGET_SHARE ? MAX_ROUTE_DESTINATIONS : 1
+  const results = await Promise.allSettled(requests.slice(0, fanOut).map(p => lifi.getRoutes(p)))
+  const fetched = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : [])
+  // Destinations that failed are left out, unless all of them did
+  const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected')
+  if (fetched.length === 0 && failure) throw failure.reason
+  return cheapestDestinationFirst(fetched, destinationCostUSD)
+}
+
+export function useLiFiRoutes() {
+  const [routes, setRoutes] = useState<LiFiRoute[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [isThrottled, setIsThrottled] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [fetchedAt, setFetchedAt] = useState<number | null>(null)
+  const [generation, setGeneration] = useState(0)
+  const abortRef = useRef(0)
+  const paramsRef = useRef<RoutesParams | null>(null)
+
+  const fetchRoutes = useCallback(async (
+    requests: LiFiRoutesRequest | LiFiRoutesRequest[],
+    destinationCostUSD?: Record<number, number>,
+  ) => {
+    const params = { requests, destinationCostUSD }
+    const requestId = ++abortRef.current
+    paramsRef.current = params
+    setGeneration(g => g + 1)
+    setIsLoading(true)
+    setIsRefreshing(false)
+    setIsThrottled(false)
+    setError(null)
+    setRoutes([])
+    setFetchedAt(null)
+
+    try {
+      if (!await waitForQuoteBudget(() => requestId === abortRef.current, setIsThrottled)) return []
+      const result = await getRoutesFor(params)
+
+      // Only update if this is still the latest request
+      if (requestId === abortRef.current) {
+        setRoutes(result)
+        setFetchedAt(Date.now())
+        if (result.length === 0) setError('No quote available for this pair')
+      }
+      return result
+    } catch (e) {
+      if (requestId === abortRef.current) {
+        const message = e instanceof Error ? e.message : 'Failed to fetch routes'
+        setError(message)
+      }
+      return []
+    } finally {
+      if (requestId === abortRef.current) {
+        setIsLoading(false)
+      }
+    }
+  }, [])
+
+  const refresh = useCallback(async () => {
+    const params = paramsRef.current
+    if (!params) return
+    const requestId = ++abortRef.current
+    setIsRefreshing(true)
+
+    try {
+      if (!await waitForQuoteBudget(() => requestId === abortRef.current, setIsThrottled)) return
+      const result = await getRoutesFor(params)
+      // An empty refresh keeps the current routes; they expire if it stays that way
+      if (requestId === abortRef.current && result.length > 0) {
+        setRoutes(result)
+        setFetchedAt(Date.now())
+        setError(null)
+      }
+    } catch (e) {
+      console.warn('Route refresh failed:', e)
+    } finally {
+      if (requestId === abortRef.current) {
+        setIsRefreshing(false)
+        setIsThrottled(false)
+      }
+    }
+  }, [])
+
+  const clearRoutes = useCallback(() => {
+    abortRef.current++
+    paramsRef.current = null
+    setGeneration(g => g + 1)
+    setRoutes([])
+    setFetchedAt(null)
     setError(null)
     setIsLoading(false)
+    setIsRefreshing(false)
+    setIsThrottled(false)
   }, [])
 
-  return { quote, isLoading, error, fetchQuote, clearQuote }
+  return { routes, isLoading, isRefreshing, isThrottled, error, fetchedAt, generation, fetchRoutes, refresh, clearRoutes }
+}
+
+// ─── Quote Freshness Hook ───
+// Counts a quote's age down to its next background refresh while the form is idle,
+// marks it expired if refreshes stop, and flags when a refresh moved the price away
+// from what the user last saw (`baselineKey` changes whenever they see a new quote:
+// new inputs or another route picked)
+
+const QUOTE_REFRESH_MS = 30_000
+const QUOTE_TTL_MS = 60_000
+// Idle refreshes before auto-refresh stops (saves rate-limit budget); any input change resets it
+const MAX_AUTO_REFRESHES = 10
+// Relative amount change that needs the user's confirmation
+const PRICE_CHANGE_THRESHOLD = 0.005
+
+interface QuoteFreshnessOptions {
+  fetchedAt: number | null
+  isRefreshing: boolean
+  refresh: () => void
+  paused: boolean // executing — never swap the quote out mid-flow
+  baselineKey: string
+  // Amount the user is asked to accept, in smallest units: what they receive, or what
+  // they pay for exact-output quotes
+  amount: string | null
+}
+
+export function useQuoteFreshness({ fetchedAt, isRefreshing, refresh, paused, baselineKey, amount }: QuoteFreshnessOptions) {
+  const [now, setNow] = useState(() => Date.now())
+  const [baseline, setBaseline] = useState<{ key: string; amount: string } | null>(null)
+  const autoRefreshesRef = useRef(0)
+  const lastAttemptRef = useRef(0)
+
+  // Tick once a second while there's a quote to count down
+  useEffect(() => {
+    if (!fetchedAt) return
+    setNow(Date.now())
+    const timer = setInterval(() => setNow(Date.now()), 1_000)
+    return () => clearInterval(timer)
+  }, [fetchedAt])
+
+  useEffect(() => {
+    autoRefreshesRef.current = 0
+  }, [baselineKey])
+
+  const autoRefresh = autoRefreshesRef.current < MAX_AUTO_REFRESHES
+  const due = !!fetchedAt && now - fetchedAt >= QUOTE_REFRESH_MS && now - lastAttemptRef.current >= QUOTE_REFRESH_MS
+  useEffect(() => {
+    if (!due || !autoRefresh || paused || isRefreshing) return
+    if (typeof document !== 'undefined' && document.hidden) return
+    autoRefreshesRef.current++
+    lastAttemptRef.current = Date.now()
+    refresh()
+  }, [due, autoRefresh, paused, isRefreshing, refresh])
+
+  // The first quote the user sees for a key is the baseline for price changes
+  useEffect(() => {
+    if (amount && baseline?.key !== baselineKey) setBaseline({ key: baselineKey, amount })
+  }, [amount, baselineKey, baseline?.key])
+
+  const refreshNow = useCallback(() => {
+    autoRefreshesRef.current = 0
+    lastAttemptRef.current = Date.now()
+    refresh()
+  }, [refresh])
+
+  const confirmPrice = useCallback(() => {
+    if (amount) setBaseline({ key: baselineKey, amount })
+  }, [amount, baselineKey])
+
+  const shownAmount = baseline?.key === baselineKey ? baseline.amount : null
+  const priceChange = shownAmount && amount && BigInt(shownAmount) > BigInt(0)
+    ? Number(BigInt(amount) - BigInt(shownAmount)) / Number(BigInt(shownAmount))
+    : 0
+
+  return {
+    secondsLeft: fetchedAt && autoRefresh ? Math.max(0, Math.ceil((fetchedAt + QUOTE_REFRESH_MS - now) / 1000)) : null,
+    isExpired: !!fetchedAt && now - fetchedAt >= QUOTE_TTL_MS,
+    shownAmount, // what the user last saw or accepted
+    priceChange, // relative, e.g. -0.012 = 1.2% less than shown
+    priceMoved: Math.abs(priceChange) > PRICE_CHANGE_THRESHOLD,
+    confirmPrice,
+    refreshNow,
+  }
+}
+
+// ─── Chain Clients Hook ───
+// Wallet/public clients per chain for executing multi-chain routes
+
+export function useLiFiChainClients(): LiFiChainClients {
+  const config = useConfig()
+
+  return useMemo(() => ({
+    async getWalletClient(chainId: number) {
+      if (getAccount(config).chainId !== chainId) {
+        await switchChain(config, { chainId })
+      }
+      return await getWalletClient(config, { chainId }) as WalletClient
+    },
+    getPublicClient(chainId: number) {
+      return getPublicClient(config, { chainId }) as PublicClient | undefined
+    },
+  }), [config])
+}
+
+// ─── Destination Gas Hook ───
+// Which of `chainIds` the connected wallet holds no native token on: tokens bridged
+// there couldn't pay for the follow-up transaction without a gas refuel
+
+export function useEmptyGasChains(chainIds: number[]) {
+  const { address } = useAccount()
+  const config = useConfig()
+  const [checked, setChecked] = useState<{ key: string; empty: number[] }>({ key: '', empty: [] })
+  const chainKey = chainIds.join(',')
+  const key = address && chainKey ? `${address}:${chainKey}` : ''
+
+  useEffect(() => {
+    if (!address || !chainKey) return
+    let cancelled = false
+
+    Promise.all(chainKey.split(',').map(Number).map(async chainId => {
+      const client = getPublicClient(config, { chainId })
+      if (!client) return null
+      try {
+        return await client.getBalance({ address }) === BigInt(0) ? chainId : null
+      } catch {
+        return null // unknown — no refuel rather than a guess
+      }
+    })).then(results => {
+      if (!cancelled) setChecked({ key: `${address}:${chainKey}`, empty: results.filter((id): id is number => id !== null) })
+    })
+
+    return () => { cancelled = true }
+  }, [address, chainKey, config])
+
+  const emptyChainIds = useMemo(
+    () => new Set(checked.key === key ? checked.empty : []),
+    [checked, key]
+  )
+
+  return {
+    emptyChainIds,
+    isChecking: !!key && checked.key !== key, // derived, so callers can wait from the first render
+  }
+}
+
+// ─── Deposit Cost Hook ───
+// Gas the custody approve + deposit costs on each of `chainIds`, in USD at LI.FI's
+// native token prices, so destinations can be compared on what is left after it.
+// Chains whose gas price or native price is unknown are left out.
+
+export function useDepositCostsUSD(chainIds: number[], chains: LiFiChain[]) {
+  const config = useConfig()
+  const [estimated, setEstimated] = useState<{ key: string; costs: Record<number, number> }>({ key: '', costs: {} })
+  const chainKey = chainIds.join(',')
+  const key = chainKey && chains.length > 0 ? chainKey : ''
+
+  useEffect(() => {
+    if (!key) return
+    let cancelled = false
+
+    Promise.all(key.split(',').map(Number).map(async (chainId): Promise<[number, number] | null> => {
+      const client = getPublicClient(config, { chainId })
+      const native = chains.find(c => c.id === chainId)?.nativeToken
+      const price = parseFloat(native?.priceUSD ?? '')
+      if (!client || !native || !(price > 0)) return null
+      try {
+        const fee = await estimateCustodyDepositFee(client)
+        return [chainId, parseFloat(formatUnits(fee, native.decimals)) * price]
+      } catch {
+        return null
+      }
+    })).then(results => {
+      if (!cancelled) setEstimated({ key, costs: Object.fromEntries(results.filter(r => r !== null)) })
+    })
+
+    return () => { cancelled = true }
+  }, [key, chains, config])
+
+  const costs = useMemo(() => estimated.key === key ? estimated.costs : {}, [estimated, key])
+
+  return {
+    costs,
+    isEstimating: !!key && estimated.key !== key,
+  }
+}
+
+// ─── Pre-flight Hook ───
+// Checks the step about to be executed (a quote, or a route's first step) for the
+// connected wallet, so the form can block or warn before the wallet is prompted
+
+export function useLiFiPreflight(step: LiFiStep | null) {
+  const { address } = useAccount()
+  const config = useConfig()
+  const [problem, setProblem] = useState<string | null>(null) // the transaction would fail
+  const [warning, setWarning] = useState<string | null>(null) // couldn't check it
+  const [isChecking, setIsChecking] = useState(false)
+
+  useEffect(() => {
+    setProblem(null)
+    setWarning(null)
+    setIsChecking(false)
+    const publicClient = step && getPublicClient(config, { chainId: step.action.fromChainId }) as PublicClient | undefined
+    if (!step || !address || !publicClient) return
+
+    let cancelled = false
+    setIsChecking(true)
+    preflightLiFiStep(publicClient, address, step)
+      .catch(error => {
+        if (cancelled) return
+        if (error instanceof PreflightError) setProblem(error.message)
+        else setWarning('Couldn\'t simulate this transaction right now — it will be checked again before your wallet opens.')
+      })
+      .finally(() => {
+        if (!cancelled) setIsChecking(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [step, address, config])
+
+  return { problem, warning, isChecking }
 }
 
 // ─── Chains Hook ───
@@ -85,6 +498,31 @@ export function useLiFiChains() {
   return { chains, isLoading, supportedChainIds }
 }
 
+// ─── Tools Hook ───
+// Bridges and exchanges LI.FI can route through, fetched once per page load
+
+let toolsPromise: Promise<LiFiTools> | null = null
+
+export function useLiFiTools() {
+  const [tools, setTools] = useState<LiFiTools>({ bridges: [], exchanges: [] })
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    toolsPromise ??= lifi.getTools().catch(err => {
+      console.error('Failed to fetch tools:', err)
+      toolsPromise = null
+      return { bridges: [], exchanges: [] }
+    })
+    toolsPromise
+      .then(result => { if (!cancelled) setTools(result) })
+      .finally(() => { if (!cancelled) setIsLoading(false) })
+    return () => { cancelled = true }
+  }, [])
+
+  return { ...tools, isLoading }
+}
+
 // ─── Tokens Hook ───
 // Fetches tokens for specific chain(s) with caching
 
@@ -0,0 +1,155 @@
+'use client'
+
+import { useState, useCallback, useEffect } from 'react'
+import { useAccount, useConfig } from 'wagmi'
+import { getPublicClient } from 'wagmi/actions'
+import type { Address, Hash, PublicClient } from 'viem'
+import { lifi } from '@/lib/lifi'
+import { custodyDepositStatus } from '@/lib/yellow'
+import { updateTx } from '@/lib/txHistory'
+import {
+  arrivalProblem,
+  arrivalTxFields,
+  describeArrival,
+  getPendingOps,
+  removePendingOp,
+  updatePendingOp,
+  type PendingOp,
+  type PendingOpKind,
+} from '@/lib/pendingOps'
+
+const STATUS_POLL_MS = 5_000
+
+// Yellow actions of the form's own useYellow() instance
+interface PendingOpActions {
+  depositToYellow: (tokenAddress: Address, amount: bigint, chainId: number, onSubmitted?: (txHash: Hash) => void) => Promise<unknown>
+  sendPayment?: (recipientAddress: Address, amount: string, asset: string) => Promise<{ transactions: Array<{ id: number }> }>
+  fetchBalances: () => Promise<void>
+}
+
+/**
+ * React hook for cross-chain operations interrupted by a reload.
+ * Resumes /status polling for stored operations still bridging; once their tokens
+ * have arrived, `finish` runs the remaining deposit (and transfer) steps. A custody
+ * deposit sent before the reload is checked on-chain first and only sent again if it failed.
+ */
+export function usePendingOps(kind: PendingOpKind, { depositToYellow, sendPayment, fetchBalances }: PendingOpActions) {
+  const { address } = useAccount()
+  const config = useConfig()
+  const [ops, setOps] = useState<PendingOp[]>([])
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const refresh = useCallback(() => {
+    setOps(address ? getPendingOps(address, kind) : [])
+  }, [address, kind])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // Poll LI.FI for operations still bridging
+  const bridging = ops.filter(op => op.step === 'swap').length > 0
+  useEffect(() => {
+    if (!address || !bridging) return
+    let cancelled = false
+
+    const poll = async () => {
+      for (const op of getPendingOps(address, kind).filter(o => o.step === 'swap')) {
+        // Not indexed yet or a network error — retry on the next poll
+        const status = await lifi
+          .getStatus(op.txHash, op.quote.action.fromChainId, op.quote.action.toChainId, op.quote.tool)
+          .catch(() => null)
+        if (cancelled) return
+
+        const arrival = status && describeArrival(status, op.quote)
+        if (arrival) {
+          // Record what really arrived; refunds and unusable tokens stop here with next steps
+          const problem = arrivalProblem(arrival, op.kind)
+          if (problem) {
+            updateTx(op.id, { status: 'failed', ...arrivalTxFields(arrival) })
+            updatePendingOp(op.id, { step: 'stopped', error: problem })
+            continue
+          }
+
+          const { token, chainId, amount } = arrival.received
+          const sendAmount = op.exactOutput ? op.amount : arrival.receivedAmount
+          updateTx(op.id, op.kind === 'fund'
+            ? { asset: token.symbol.toLowerCase(), amount: arrival.receivedAmount, ...arrivalTxFields(arrival) }
+            : { amount: sendAmount, ...arrivalTxFields(arrival) })
+          updatePendingOp(op.id, { step: 'deposit', amount: sendAmount, received: { token, chainId, amount: amount.toString() } })
+        } else if (status?.status === 'FAILED') {
+          updateTx(op.id, { status: 'failed' })
+          removePendingOp(op.id)
+        }
+      }
+      if (!cancelled) refresh()
+    }
+
+    poll()
+    const timer = setInterval(poll, STATUS_POLL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [address, kind, bridging, refresh])
+
+  // Run the steps left after the bridge: deposit, then (payments) transfer
+  const finish = useCallback(async (op: PendingOp) => {
+    if (op.step === 'swap' || op.step === 'stopped') return
+    setBusyId(op.id)
+    let step = op.step
+
+    try {
+      if (step === 'deposit') {
+        // What arrived; operations saved before arrivals were recorded fall back to the estimate
+        const received = op.received ?? {
+          token: op.quote.action.toToken,
+          chainId: op.quote.action.toChainId,
+          amount: op.quote.estimate.toAmount,
+        }
+        const publicClient = getPublicClient(config, { chainId: received.chainId }) as PublicClient | undefined
+        const alreadyDeposited = !!op.depositTxHash && !!publicClient
+          && await custodyDepositStatus(publicClient, op.depositTxHash as Hash) === 'confirmed'
+        if (!alreadyDeposited) {
+          await depositToYellow(
+            received.token.address as Address,
+            BigInt(received.amount),
+            received.chainId,
+            depositTxHash => updatePendingOp(op.id, { depositTxHash }),
+          )
+        }
+        step = 'transfer'
+        if (op.kind === 'fund') {
+          updateTx(op.id, { status: 'completed' })
+          removePendingOp(op.id)
+        } else {
+          updatePendingOp(op.id, { step, error: undefined })
+        }
+      }
+
+      if (step === 'transfer' && op.kind === 'payment') {
+        if (!sendPayment || !op.recipientAddress || !op.amount || !op.asset) {
+          throw new Error('Payment details are missing')
+        }
+        const result = await sendPayment(op.recipientAddress as Address, op.amount, op.asset)
+        updateTx(op.id, { status: 'completed', ledgerTxId: result.transactions[0]?.id })
+        removePendingOp(op.id)
+      }
+
+      fetchBalances()
+    } catch (e) {
+      updatePendingOp(op.id, { error: e instanceof Error ? e.message : 'Failed to finish' })
+    } finally {
+      setBusyId(null)
+      refresh()
+    }
+  }, [config, depositToYellow, sendPayment, fetchBalances, refresh])
+
+  // Forget an operation (e.g. it was finished by hand); the history record stays as it is
+  const dismiss = useCallback((op: PendingOp) => {
+    removePendingOp(op.id)
+    refresh()
+  }, [refresh])
+
+  return { ops, busyId, finish, dismiss, refresh }
+}
@@ -0,0 +1,41 @@
+'use client'
+
+import { useState, useCallback, useEffect, useMemo } from 'react'
+import {
+  getSwapSettings,
+  saveSwapSettings,
+  toQuoteOptions,
+  DEFAULT_SWAP_SETTINGS,
+  SWAP_SETTINGS_EVENT,
+  type SwapSettings,
+} from '@/lib/swapSettings'
+
+/**
+ * React hook for the persisted swap settings.
+ * Every instance stays in sync: saving in one form's popover updates the others.
+ * `quoteOptions` is memoized, so it can sit in a quote effect's dependencies.
+ */
+export function useSwapSettings() {
+  const [settings, setSettings] = useState<SwapSettings>(DEFAULT_SWAP_SETTINGS)
+
+  // Load on mount (client-only) and follow saves from other instances
+  useEffect(() => {
+    setSettings(getSwapSettings())
+
+    const handleSaved = (event: Event) => setSettings((event as CustomEvent<SwapSettings>).detail)
+    window.addEventListener(SWAP_SETTINGS_EVENT, handleSaved)
+    return () => window.removeEventListener(SWAP_SETTINGS_EVENT, handleSaved)
+  }, [])
+
+  const update = useCallback((updates: Partial<SwapSettings>) => {
+    saveSwapSettings({ ...getSwapSettings(), ...updates })
+  }, [])
+
+  const reset = useCallback(() => {
+    saveSwapSettings(DEFAULT_SWAP_SETTINGS)
+  }, [])
+
+  const quoteOptions = useMemo(() => toQuoteOptions(settings), [settings])
+
+  return { settings, quoteOptions, update, reset }
+}
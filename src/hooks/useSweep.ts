@@ -0,0 +1,307 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { useAccount, useConfig } from 'wagmi'
+import { getPublicClient } from 'wagmi/actions'
+import { formatUnits, type Address, type Hash, type PublicClient } from 'viem'
+import { useLiFiChainClients, useLiFiChains, useLiFiTokens, waitForQuoteBudget } from '@/hooks/useLiFi'
+import { executeLiFiQuote, lifi } from '@/lib/lifi'
+import type { LiFiQuoteOptions } from '@/lib/lifi'
+import type { SettlementToken } from '@/lib/constants'
+import { addTx, updateTx } from '@/lib/txHistory'
+import { custodyDepositStatus } from '@/lib/yellow'
+import {
+  getPendingSweep,
+  isSettlementBalance,
+  removePendingSweep,
+  savePendingSweep,
+  scanBalances,
+  sweepTotal,
+  transferResult,
+  waitForTransfer,
+  type SweepBalance,
+  type SweepItem,
+  type SweepRun,
+} from '@/lib/sweep'
+
+const NO_CHAINS: number[] = []
+
+// Items still to be sent when the page went away: nothing left the wallet for them
+const INTERRUPTED_ERROR = 'Not sent — the sweep was interrupted; the tokens are still in your wallet'
+// Items in the wallet when the page went away: the hash is stored as soon as the wallet
+// returns it, but the transaction may have been broadcast just before the reload
+const INTERRUPTED_SENDING_ERROR = 'Interrupted in your wallet — it may have been sent. Check your wallet before sweeping this token again; it is left out of this deposit'
+
+function errorMessage(e: unknown, fallback: string): string {
+  const msg = e instanceof Error ? e.message : fallback
+  return msg.includes('rejected') || msg.includes('denied') ? 'Transaction was rejected' : msg
+}
+
+// Yellow action of the form's own useYellow() instance
+interface SweepActions {
+  depositToYellow: (
+    tokenAddress: Address,
+    amount: bigint,
+    chainId: number,
+    onSubmitted?: (txHash: Hash) => void,
+  ) => Promise<{ txHash: string }>
+}
+
+interface SweepStartOptions {
+  quoteOptions: LiFiQuoteOptions
+  chainName: (chainId: number) => string
+}
+
+// ─── Sweep Balances Hook ───
+// The wallet's priced ERC-20 balances on every LI.FI chain the app has an RPC for,
+// read in batched multicalls per chain (only while `enabled`)
+
+export function useSweepBalances(enabled: boolean) {
+  const { address } = useAccount()
+  const config = useConfig()
+  const { chains, supportedChainIds } = useLiFiChains()
+  const [balances, setBalances] = useState<SweepBalance[]>([])
+  const [isScanning, setIsScanning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [scanCount, setScanCount] = useState(0) // bumped to scan again
+
+  // Chains configured in wagmi that LI.FI also supports
+  const chainIds = useMemo(
+    () => config.chains.map(c => c.id).filter(id => supportedChainIds.has(id)),
+    [config, supportedChainIds]
+  )
+  const { tokens, isLoading: tokensLoading, error: tokensError } = useLiFiTokens(
+    enabled ? chainIds : NO_CHAINS,
+    supportedChainIds,
+  )
+
+  useEffect(() => {
+    if (!enabled || !address || Object.keys(tokens).length === 0) return
+    let cancelled = false
+    setIsScanning(true)
+    setError(null)
+
+    Promise.allSettled(chainIds.map(chainId => {
+      const client = getPublicClient(config, { chainId }) as PublicClient | undefined
+      const list = tokens[chainId]
+      return client && list ? scanBalances(client, chainId, address, list) : Promise.resolve([])
+    }))
+      .then(results => {
+        if (cancelled) return
+        const found = results.flatMap(r => r.status === 'fulfilled' ? r.value : [])
+        setBalances(found.sort((a, b) => b.valueUSD - a.valueUSD))
+        const failed = results.filter(r => r.status === 'rejected').length
+        if (failed > 0) setError(`Couldn't read balances on ${failed} chain${failed !== 1 ? 's' : ''}.`)
+      })
+      .finally(() => {
+        if (!cancelled) setIsScanning(false)
+      })
+
+    return () => { cancelled = true }
+  }, [enabled, address, tokens, chainIds, config, scanCount])
+
+  const rescan = useCallback(() => setScanCount(n => n + 1), [])
+
+  return {
+    balances,
+    chains,
+    supportedChainIds,
+    isScanning: isScanning || tokensLoading,
+    error: error ?? tokensError,
+    rescan,
+  }
+}
+
+// ─── Sweep Run Hook ───
+// Runs a sweep: each token is quoted (within the LI.FI budget) and sent in turn, the
+// transfers are then tracked one at a time, and what arrived is deposited at once.
+// Every change is stored, so a sweep interrupted by a reload is resumed on load;
+// its deposit then waits for `deposit` to be called, as it may already have been sent.
+
+export function useSweepRun({ depositToYellow }: SweepActions) {
+  const { address } = useAccount()
+  const chainClients = useLiFiChainClients()
+  const [run, setRun] = useState<SweepRun | null>(null)
+  const [isThrottled, setIsThrottled] = useState(false)
+  const [isDepositing, setIsDepositing] = useState(false)
+  // Source of truth while async steps run; `run` mirrors it for rendering
+  const runRef = useRef<SweepRun | null>(null)
+
+  // Aborted on unmount: stops tracking, the stored sweep is resumed on the next mount
+  const lifecycleRef = useRef<AbortController | null>(null)
+  useEffect(() => {
+    const controller = new AbortController()
+    lifecycleRef.current = controller
+    return () => controller.abort()
+  }, [])
+
+  const commit = useCallback((changes: Partial<SweepRun>) => {
+    if (!runRef.current) return
+    const next = { ...runRef.current, ...changes }
+    runRef.current = next
+    savePendingSweep(next)
+    setRun(next)
+  }, [])
+
+  const commitItem = useCallback((index: number, changes: Partial<SweepItem>) => {
+    const current = runRef.current
+    if (!current) return
+    commit({ items: current.items.map((item, i) => i === index ? { ...item, ...changes } : item) })
+  }, [commit])
+
+  // Track the sent transfers one at a time, then total what arrived. Resolves true
+  // when there is something to deposit; false if nothing arrived or it was stopped.
+  const settle = useCallback(async (signal: AbortSignal): Promise<boolean> => {
+    const items = runRef.current?.items ?? []
+    for (let i = 0; i < items.length; i++) {
+      const item = runRef.current?.items[i]
+      if (!item || item.status !== 'bridging') continue
+      try {
+        const status = await waitForTransfer(item, signal)
+        commitItem(i, transferResult(status, item.quote!, runRef.current!.target))
+      } catch (e) {
+        if (signal.aborted) return false
+        // Timed out: the transfer may still land in the wallet, just not in this deposit
+        commitItem(i, { status: 'failed', error: errorMessage(e, 'Transfer failed') })
+      }
+    }
+
+    const current = runRef.current
+    if (!current) return false
+    const total = sweepTotal(current)
+    if (total === BigInt(0)) {
+      updateTx(current.id, { status: 'failed' })
+      commit({ step: 'failed', error: `No ${current.target.symbol} arrived, so there is nothing to deposit.` })
+      return false
+    }
+    updateTx(current.id, { amount: formatUnits(total, current.target.decimals) })
+    commit({ step: 'deposit' })
+    return true
+  }, [commit, commitItem])
+
+  // The single deposit of everything that arrived; retried by calling it again. A deposit
+  // already sent (its hash is stored once broadcast) is checked and only sent again if it failed.
+  const deposit = useCallback(async () => {
+    const current = runRef.current
+    if (!current || current.step !== 'deposit') return
+    setIsDepositing(true)
+    commit({ error: undefined })
+    try {
+      const { tokenAddress, chainId } = current.target
+      const publicClient = chainClients.getPublicClient(chainId)
+      let txHash = current.depositTxHash
+      const alreadyDeposited = !!txHash && !!publicClient
+        && await custodyDepositStatus(publicClient, txHash as Hash) === 'confirmed'
+      if (!alreadyDeposited) {
+        const result = await depositToYellow(
+          tokenAddress as Address,
+          sweepTotal(current),
+          chainId,
+          hash => commit({ depositTxHash: hash }),
+        )
+        txHash = result.txHash
+      }
+      updateTx(current.id, { status: 'completed', txHash })
+      commit({ step: 'done', depositTxHash: txHash })
+    } catch (e) {
+      // What arrived is in the wallet on the settlement chain; the deposit can be retried
+      commit({ error: errorMessage(e, 'Deposit to Yellow Network failed') })
+    } finally {
+      setIsDepositing(false)
+    }
+  }, [chainClients, commit, depositToYellow])
+
+  const start = useCallback(async (
+    balances: SweepBalance[],
+    target: SettlementToken,
+    { quoteOptions, chainName }: SweepStartOptions,
+  ) => {
+    const signal = lifecycleRef.current?.signal
+    if (!address || !signal || balances.length === 0 || runRef.current) return
+
+    const tx = addTx({
+      type: 'fund',
+      status: 'pending',
+      asset: target.symbol.toLowerCase(),
+      amount: '0',
+      sourceToken: Array.from(new Set(balances.map(b => b.token.symbol))).join(', '),
+      sourceChain: Array.from(new Set(balances.map(b => chainName(b.chainId)))).join(', '),
+    })
+    runRef.current = {
+      id: tx.id,
+      wallet: address,
+      target,
+      step: 'sweeping',
+      items: balances.map(balance => ({ balance, status: 'queued' })),
+      startedAt: Date.now(),
+    }
+    commit({})
+
+    for (let i = 0; i < balances.length; i++) {
+      if (signal.aborted) return
+      const balance = balances[i]!
+
+      // Already the settlement token: goes into the deposit as is
+      if (isSettlementBalance(balance, target)) {
+        commitItem(i, { status: 'done', received: { token: balance.token, amount: balance.amount, chainId: balance.chainId } })
+        continue
+      }
+
+      try {
+        commitItem(i, { status: 'quoting' })
+        if (!await waitForQuoteBudget(() => !signal.aborted, setIsThrottled)) return
+        const quote = await lifi.getQuote({
+          fromChain: balance.chainId,
+          toChain: target.chainId,
+          fromToken: balance.token.address,
+          toToken: target.tokenAddress,
+          fromAmount: balance.amount.toString(),
+          fromAddress: address,
+          ...quoteOptions,
+        })
+
+        commitItem(i, { status: 'sending', quote })
+        const walletClient = await chainClients.getWalletClient(balance.chainId)
+        const publicClient = chainClients.getPublicClient(balance.chainId)
+        if (!publicClient) throw new Error(`Chain ${balance.chainId} is not configured in this app`)
+        // Stored the moment the wallet returns it, so a reload tracks the transfer on
+        const hash = await executeLiFiQuote(walletClient, publicClient, quote)
+        commitItem(i, { status: 'bridging', txHash: hash, sentAt: Date.now() })
+      } catch (e) {
+        setIsThrottled(false)
+        commitItem(i, { status: 'failed', error: errorMessage(e, 'Transaction failed') })
+      }
+    }
+
+    if (await settle(signal)) await deposit()
+  }, [address, chainClients, commit, commitItem, settle, deposit])
+
+  // Resume this wallet's stored sweep: unsent (or possibly sent) items are marked, transfers tracked on
+  useEffect(() => {
+    const signal = lifecycleRef.current?.signal
+    if (!address || !signal) return
+    const stored = getPendingSweep(address)
+    if (!stored || (runRef.current && runRef.current.id !== stored.id)) return
+
+    runRef.current = stored
+    commit({
+      items: stored.items.map(item =>
+        item.status === 'sending' ? { ...item, status: 'failed', error: INTERRUPTED_SENDING_ERROR }
+        : item.status === 'queued' || item.status === 'quoting' ? { ...item, status: 'failed', error: INTERRUPTED_ERROR }
+        : item),
+    })
+    if (stored.step === 'sweeping') settle(signal)
+  }, [address, commit, settle])
+
+  // Clear a finished sweep, or give up on an unfinished deposit (the record is marked failed)
+  const reset = useCallback(() => {
+    const current = runRef.current
+    if (!current || current.step === 'sweeping') return
+    if (current.step === 'deposit') updateTx(current.id, { status: 'failed' })
+    removePendingSweep(current.id)
+    runRef.current = null
+    setRun(null)
+  }, [])
+
+  return { run, isThrottled, isDepositing, start, deposit, reset }
+}
@@ -0,0 +1,27 @@
+'use client'
+
+import { useReadContract } from 'wagmi'
+import { erc20Abi, zeroAddress } from 'viem'
+import { findSettlementTokenByAddress } from '@/lib/constants'
+
+/**
+ * Decimals of an on-chain token (e.g. a Yellow channel's token).
+ * Known settlement tokens and the native token resolve immediately; anything else
+ * is read from the ERC-20 contract. Undefined while loading or if the read fails.
+ */
+export function useTokenDecimals(chainId: number | undefined, token: string | undefined): number | undefined {
+  const known = chainId && token ? findSettlementTokenByAddress(chainId, token) : undefined
+  const isNative = token?.toLowerCase() === zeroAddress
+
+  const { data } = useReadContract({
+    address: token as `0x${string}` | undefined,
+    abi: erc20Abi,
+    functionName: 'decimals',
+    chainId,
+    query: { enabled: !!chainId && !!token && !known && !isNative },
+  })
+
+  if (known) return known.decimals
+  if (isNative) return 18
+  return data
+}
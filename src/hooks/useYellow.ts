@@ -1,47 +1,60 @@
 'use client'
 
-import { useState, useCallback, useRef, useEffect } from 'react'
-import { useAccount, useWalletClient } from 'wagmi'
-import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
-import type { Address } from 'viem'
+import { createContext, useState, useCallback, useContext, useRef, useEffect, useMemo } from 'react'
+import { useAccount, useConfig, useWalletClient, usePublicClient } from 'wagmi'
+import { getAccount, getPublicClient, getWalletClient, switchChain } from 'wagmi/actions'
+import type { Address, Hash, PublicClient, WalletClient } from 'viem'
 import {
-  createAuthRequestMessage,
-  createAuthVerifyMessage,
-  createGetLedgerBalancesMessage,
-  createTransferMessage,
-  createGetChannelsMessage,
-  createResizeChannelMessage,
-  createCloseChannelMessage,
-  createCreateChannelMessage,
-  createEIP712AuthMessageSigner,
-  createECDSAMessageSigner,
-  parseAuthChallengeResponse,
-  parseAuthVerifyResponse,
-  parseGetLedgerBalancesResponse,
-  parseTransferResponse,
-  parseGetChannelsResponse,
-  parseResizeChannelResponse,
-  parseCloseChannelResponse,
-  parseCreateChannelResponse,
-  parseAnyRPCResponse,
-  NitroliteClient,
-  WalletStateSigner,
-  type MessageSigner,
+  type RPCAllowance,
   type RPCBalance,
+  type RPCChannelOperation,
   type RPCChannelUpdateWithWallet,
-  type PartialEIP712AuthMessage,
-  type EIP712AuthDomain,
 } from '@erc7824/nitrolite'
-import { usePublicClient } from 'wagmi'
 
-import { YELLOW_WS_ENDPOINT, DEFAULT_ASSET, getContractsForChain } from '@/lib/constants'
+import { DEFAULT_ASSET } from '@/lib/constants'
+import {
+  YellowClient,
+  YellowAllowanceError,
+  isSessionExpired,
+  saveSession,
+  loadSession,
+  removeSession,
+  SESSION_SAVED_EVENT,
+  defaultSessionAllowances,
+  saveLastSessionPolicy,
+  getLastSessionPolicy,
+  validateSessionAllowances,
+  getAllowanceUsage,
+  createNitroliteClient,
+  settleChannelWithdrawal,
+  withdrawFromCustody,
+  preflightCustodyDeposit,
+  depositToCustody,
+  saveSignedState,
+  type IncomingPayment,
+  type SettlementProgress,
+  type SessionAllowanceUsage,
+  type YellowConnectionState,
+} from '@/lib/yellow'
+
+export interface UseYellowOptions {
+  // Credits to the wallet's ledger balance pushed by the ClearNode (transfers and balance updates)
+  onIncomingPayment?: (payment: IncomingPayment) => void
+}
+
+// Also receives the incoming payments of every useYellow client mounted below it, so page-wide
+// alerts reuse the tabs' clients instead of opening a connection of their own
+export const IncomingPaymentContext = createContext<((payment: IncomingPayment) => void) | null>(null)
 
 // Session state interface
 interface YellowState {
   isConnected: boolean
   isAuthenticated: boolean
+  connectionState: YellowConnectionState
+  reconnectAttempt: number
   balances: RPCBalance[]
   channels: RPCChannelUpdateWithWallet[]
+  allowances: SessionAllowanceUsage[] // spending caps of the active session
   error: string | null
 }
 
@@ -49,199 +62,167 @@ interface YellowState {
 const initialState: YellowState = {
   isConnected: false,
   isAuthenticated: false,
+  connectionState: 'disconnected',
+  reconnectAttempt: 0,
   balances: [],
   channels: [],
+  allowances: [],
   error: null,
 }
 
-// Application name - used in both auth_request and EIP-712 domain (must match!)
-const APPLICATION_NAME = 'yellowpay'
-
-export function useYellow() {
+// React bindings for the Yellow Network client (src/lib/yellow)
+export function useYellow({ onIncomingPayment }: UseYellowOptions = {}) {
+  const publishIncomingPayment = useContext(IncomingPaymentContext)
   const { address } = useAccount()
+  const config = useConfig()
   const { data: walletClient } = useWalletClient()
   const publicClient = usePublicClient()
 
+  // One client per hook instance — the constructor doesn't touch the network, so this is SSR-safe
+  const [client] = useState(() => new YellowClient())
   const [state, setState] = useState<YellowState>(initialState)
   const [isConnecting, setIsConnecting] = useState(false)
   const [isSending, setIsSending] = useState(false)
+  // Spending policy for the next wallet authentication (null = defaults from ledger balances
+  // or the wallet's last session)
+  const [policyDraft, setSessionPolicy] = useState<RPCAllowance[] | null>(null)
 
-  const wsRef = useRef<WebSocket | null>(null)
-  const signerRef = useRef<MessageSigner | null>(null)
+  const sessionPolicy = useMemo(
+    () => policyDraft ?? defaultSessionAllowances(state.balances, address ? getLastSessionPolicy(address) : []),
+    [policyDraft, state.balances, address],
+  )
 
-  // Send message and wait for matching response (by request ID)
-  const sendMessage = useCallback((message: string): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
-        reject(new Error('WebSocket not connected'))
-        return
-      }
+  // Latest refresh / incoming payment callbacks, for use inside client event handlers
+  const refreshRef = useRef<() => Promise<unknown>>(async () => {})
+  const incomingRef = useRef(onIncomingPayment)
+  const publishIncomingRef = useRef(publishIncomingPayment)
 
-      // Extract request ID from the outgoing message to match response
-      // nitrolite request format: { req: [requestId, method, params, timestamp], sig?: [...] }
-      let requestId: number | null = null
-      try {
-        const parsed = JSON.parse(message)
-        if (parsed.req && Array.isArray(parsed.req) && parsed.req.length > 0) {
-          requestId = parsed.req[0]
-        }
-      } catch {
-        // If we can't parse, fall back to accepting any response
-      }
+  // Mirror client lifecycle into React state; persist / forget sessions as the client reports them
+  useEffect(() => {
+    const unsubscribers = [
+      client.on('connectionState', (connectionState, { reconnectAttempt, error }) => {
+        setState(prev => ({
+          ...prev,
+          connectionState,
+          reconnectAttempt,
+          isConnected: client.isConnected,
+          isAuthenticated: client.isAuthenticated,
+          allowances: getAllowanceUsage(client.session),
+          error: error ?? (connectionState === 'connected' || connectionState === 'connecting' ? null : prev.error),
+        }))
+      }),
+      client.on('authenticated', (session, walletSignature) => {
+        saveSession(session, walletSignature)
+        saveLastSessionPolicy(session.walletAddress, session.allowances)
+      }),
+      client.on('sessionUpdated', session => {
+        saveSession(session)
+        setState(prev => ({ ...prev, allowances: getAllowanceUsage(session) }))
+      }),
+      client.on('sessionInvalidated', session => removeSession(session.walletAddress)),
+      client.on('reconnected', () => {
+        refreshRef.current()
+      }),
+      client.on('balanceUpdate', () => {
+        refreshRef.current()
+      }),
+      client.on('incomingPayment', payment => {
+        incomingRef.current?.(payment)
+        publishIncomingRef.current?.(payment)
+      }),
+    ]
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe())
+  }, [client])
 
-      const handleMessage = (event: MessageEvent) => {
-        try {
-          const data = event.data
-          const parsed = JSON.parse(data)
-
-          // nitrolite response format: { res: [requestId, method, params, timestamp], sig?: [...] }
-          if (parsed.res && Array.isArray(parsed.res)) {
-            const responseId = parsed.res[0]
-
-            // Skip broadcast messages (different request ID than ours)
-            // Broadcasts like 'assets', 'bu' are server-initiated with their own IDs
-            if (requestId !== null && responseId !== requestId) {
-              return // Not our response, keep listening
-            }
-          }
-
-          // This is our response (matching ID)
-          wsRef.current?.removeEventListener('message', handleMessage)
-          resolve(data)
-        } catch {
-          // If parsing fails, accept the message anyway
-          wsRef.current?.removeEventListener('message', handleMessage)
-          resolve(event.data)
-        }
-      }
+  // Fetch balances
+  const fetchBalances = useCallback(async () => {
+    if (!client.isAuthenticated) return
 
-      wsRef.current.addEventListener('message', handleMessage)
-      wsRef.current.send(message)
+    try {
+      const balances = await client.getLedgerBalances()
+      setState(prev => ({ ...prev, balances }))
+    } catch (error) {
+      console.error('Failed to fetch balances:', error)
+    }
+  }, [client])
 
-      // Timeout after 30 seconds
-      setTimeout(() => {
-        wsRef.current?.removeEventListener('message', handleMessage)
-        reject(new Error('Request timeout'))
-      }, 30000)
-    })
-  }, [])
+  // Fetch channels
+  const fetchChannels = useCallback(async () => {
+    if (!client.isAuthenticated) return
+
+    try {
+      const channels = await client.getChannels(address)
+      setState(prev => ({ ...prev, channels }))
+    } catch (error) {
+      console.error('Failed to fetch channels:', error)
+    }
+  }, [client, address])
+
+  // Fetch one page of the account's ledger transactions (newest first)
+  const fetchLedgerTransactions = useCallback(async (offset: number, limit: number) => {
+    if (!client.isAuthenticated || !address) {
+      throw new Error('Not connected or not authenticated')
+    }
+    return client.getLedgerTransactions(address, { offset, limit, sort: 'desc' })
+  }, [client, address])
+
+  // Assets (token per chain) supported by the ClearNode
+  const fetchAssets = useCallback(async (chainId?: number) => {
+    if (!client.isAuthenticated) {
+      throw new Error('Not connected or not authenticated')
+    }
+    return client.getAssets(chainId)
+  }, [client])
+
+  // Manual retry (e.g. from the offline banner) — restarts the backoff schedule
+  const retryConnection = useCallback(() => {
+    setState(prev => ({ ...prev, error: null }))
+    client.retry()
+  }, [client])
 
   // Connect to Yellow Network
-  // Follows: https://docs.yellow.org/docs/protocol/off-chain/authentication/
   const connect = useCallback(async () => {
     if (!address || !walletClient) {
       setState(prev => ({ ...prev, error: 'Wallet not connected' }))
       return
     }
 
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
+    if (client.isAuthenticated) {
       return // Already connected
     }
 
-    setIsConnecting(true)
-    setState(prev => ({ ...prev, error: null }))
-
-    try {
-      // Create WebSocket connection
-      const ws = new WebSocket(YELLOW_WS_ENDPOINT)
-      wsRef.current = ws
-
-      // Wait for connection
-      await new Promise<void>((resolve, reject) => {
-        ws.onopen = () => resolve()
-        ws.onerror = () => reject(new Error('WebSocket connection failed'))
-        ws.onclose = () => {
-          setState(prev => ({
-            ...prev,
-            isConnected: false,
-            isAuthenticated: false,
-          }))
-        }
-      })
+    // A still-valid session only needs the transport back — no wallet prompt
+    if (client.session && !isSessionExpired(client.session)) {
+      retryConnection()
+      return
+    }
 
-      setState(prev => ({ ...prev, isConnected: true }))
+    const policyError = validateSessionAllowances(sessionPolicy)
+    if (policyError) {
+      setState(prev => ({ ...prev, error: policyError }))
+      return
+    }
 
-      // Step 0: Generate session keypair locally (per official docs)
-      // "session_key: Wallet address of the locally-generated session keypair"
-      const sessionPrivateKey = generatePrivateKey()
-      const sessionAccount = privateKeyToAccount(sessionPrivateKey)
-      const sessionKeyAddress = sessionAccount.address
+    setIsConnecting(true)
 
+    try {
       // Auth parameters per official docs:
       // https://docs.yellow.org/docs/protocol/off-chain/authentication/
       // Note: expires_at as Unix timestamp - using seconds (10-digit) as server JWT uses seconds
       const expiresAt = BigInt(Math.floor(Date.now() / 1000) + 86400) // 24h from now in seconds
+
       // Session key must explicitly list permitted assets and spending caps.
       // Empty array = zero spending allowed (NOT unrestricted).
-      const allowances = [{ asset: DEFAULT_ASSET, amount: '1000000000' }]
-      const scope = 'console'
-
-      // Step 1: auth_request (public endpoint, no signature required)
-      const authRequestMsg = await createAuthRequestMessage({
-        address: address as Address,
-        session_key: sessionKeyAddress,
-        application: APPLICATION_NAME,
-        allowances,
-        expires_at: expiresAt,
-        scope,
-      })
-
-      const challengeResponse = await sendMessage(authRequestMsg)
-      const challenge = parseAuthChallengeResponse(challengeResponse)
-
-      // Step 2: Create EIP-712 signer for auth verification
-      // "EIP-712 domain name MUST match the application parameter from auth_request"
-      const eip712Domain: EIP712AuthDomain = {
-        name: APPLICATION_NAME,
-      }
-
-      // PartialEIP712AuthMessage fields must match what was sent in auth_request
-      const partialMessage: PartialEIP712AuthMessage = {
-        scope,
-        session_key: sessionKeyAddress,
-        expires_at: expiresAt,
-        allowances,
-      }
-
-      // "The auth_verify signature MUST be an EIP-712 signature signed by the main wallet"
-      const authSigner = createEIP712AuthMessageSigner(
+      await client.authenticate({
         walletClient,
-        partialMessage,
-        eip712Domain
-      )
-
-      // Step 3: auth_verify (EIP-712 signature by main wallet)
-      const authVerifyMsg = await createAuthVerifyMessage(
-        authSigner,
-        challenge,
-      )
-
-      const verifyResponse = await sendMessage(authVerifyMsg)
-
-      // Check if response is an error before parsing as auth_verify
-      const parsedResponse = parseAnyRPCResponse(verifyResponse)
-      if (parsedResponse.method === 'error') {
-        const errorParams = parsedResponse.params as { error?: string }
-        const errorMsg = errorParams.error || 'Unknown authentication error'
-        console.error('Yellow Network auth error:', errorMsg)
-        throw new Error(`Authentication error: ${errorMsg}`)
-      }
-
-      const verifyResult = parseAuthVerifyResponse(verifyResponse)
-
-      if (verifyResult.params?.success && verifyResult.params?.jwtToken) {
-        // "All subsequent private method calls should be signed with the session key"
-        // Use SDK's createECDSAMessageSigner which signs with raw ECDSA (keccak256 hash)
-        // NOT signMessage which adds EIP-191 prefix
-        signerRef.current = createECDSAMessageSigner(sessionPrivateKey)
-
-        setState(prev => ({ ...prev, isAuthenticated: true }))
+        address,
+        allowances: sessionPolicy,
+        scope: 'console',
+        expiresAt,
+      })
 
-        // Fetch initial balances and channels
-        await Promise.all([fetchBalances(), fetchChannels()])
-      } else {
-        throw new Error('Authentication failed - verification unsuccessful')
-      }
+      // Fetch initial balances and channels
+      await Promise.all([fetchBalances(), fetchChannels()])
     } catch (error) {
       // Convert technical errors to user-friendly messages
       const technicalMessage = error instanceof Error ? error.message : 'Connection failed'
@@ -258,50 +239,11 @@ export function useYellow() {
       }
 
       console.error('Yellow Network connection error:', technicalMessage)
-      setState(prev => ({ ...prev, error: userMessage }))
-      wsRef.current?.close()
-      wsRef.current = null
+      setState(prev => ({ ...prev, isConnected: false, error: userMessage }))
     } finally {
       setIsConnecting(false)
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [address, walletClient, sendMessage])
-
-  // Fetch balances
-  const fetchBalances = useCallback(async () => {
-    if (!signerRef.current || !wsRef.current) return
-
-    try {
-      const balanceMsg = await createGetLedgerBalancesMessage(signerRef.current)
-      const response = await sendMessage(balanceMsg)
-      const balancesResponse = parseGetLedgerBalancesResponse(response)
-
-      setState(prev => ({
-        ...prev,
-        balances: balancesResponse.params?.ledgerBalances || [],
-      }))
-    } catch (error) {
-      console.error('Failed to fetch balances:', error)
-    }
-  }, [sendMessage])
-
-  // Fetch channels
-  const fetchChannels = useCallback(async () => {
-    if (!signerRef.current || !wsRef.current) return
-
-    try {
-      const channelsMsg = await createGetChannelsMessage(signerRef.current, address)
-      const response = await sendMessage(channelsMsg)
-      const channelsResponse = parseGetChannelsResponse(response)
-
-      setState(prev => ({
-        ...prev,
-        channels: channelsResponse.params?.channels || [],
-      }))
-    } catch (error) {
-      console.error('Failed to fetch channels:', error)
-    }
-  }, [sendMessage, address])
+  }, [address, walletClient, client, sessionPolicy, retryConnection, fetchBalances, fetchChannels])
 
   // Withdraw from a channel
   // If amount covers the full channel balance, close the channel.
@@ -309,121 +251,152 @@ export function useYellow() {
   const withdrawFromChannel = useCallback(async (
     channelId: `0x${string}`,
     fundsDestination: Address,
-    amount?: bigint, // undefined = full withdrawal (close)
+    amount?: bigint, // token units to withdraw; undefined = full withdrawal (close)
   ) => {
-    if (!signerRef.current || !wsRef.current || !state.isAuthenticated) {
+    if (!client.isAuthenticated) {
       throw new Error('Not connected or not authenticated')
     }
 
     setState(prev => ({ ...prev, error: null }))
 
     try {
-      let response: string
-
-      if (amount !== undefined) {
-        // Partial withdraw via resize
-        const resizeMsg = await createResizeChannelMessage(signerRef.current, {
-          channel_id: channelId,
-          resize_amount: amount,
-          funds_destination: fundsDestination,
-        })
-        response = await sendMessage(resizeMsg)
-
-        const parsed = parseAnyRPCResponse(response)
-        if (parsed.method === 'error') {
-          const errorParams = parsed.params as { error?: string }
-          throw new Error(errorParams.error || 'Resize failed')
-        }
-        parseResizeChannelResponse(response)
-      } else {
-        // Full withdraw via close
-        const closeMsg = await createCloseChannelMessage(
-          signerRef.current,
-          channelId,
-          fundsDestination,
-        )
-        response = await sendMessage(closeMsg)
-
-        const parsed = parseAnyRPCResponse(response)
-        if (parsed.method === 'error') {
-          const errorParams = parsed.params as { error?: string }
-          throw new Error(errorParams.error || 'Channel close failed')
-        }
-        parseCloseChannelResponse(response)
-      }
+      // Partial withdraw via resize — a negative resize moves funds out of the channel.
+      // Full withdraw via close.
+      const operation = amount !== undefined
+        ? await client.resizeChannel({
+            channel_id: channelId,
+            resize_amount: -amount,
+            funds_destination: fundsDestination,
+          })
+        : await client.closeChannel(channelId, fundsDestination)
+      // Kept for a force exit, should the ClearNode go away before this is settled
+      saveSignedState(fundsDestination, operation)
 
       // Refresh balances and channels
       await Promise.all([fetchBalances(), fetchChannels()])
+
+      // The ClearNode-signed state still has to be settled on-chain (see settleWithdrawal)
+      return operation
     } catch (error) {
       const technicalMessage = error instanceof Error ? error.message : 'Withdrawal failed'
       console.error('Withdrawal error:', technicalMessage)
       setState(prev => ({ ...prev, error: technicalMessage }))
       throw error
     }
-  }, [state.isAuthenticated, sendMessage, fetchBalances, fetchChannels])
+  }, [client, fetchBalances, fetchChannels])
+
+  // Settle a withdrawal on-chain: submit the close/resize state to the custody contract,
+  // then withdraw the released funds to the wallet. Resolves once they have arrived.
+  const settleWithdrawal = useCallback(async (
+    operation: RPCChannelOperation,
+    kind: 'close' | 'resize',
+    chainId: number,
+    token: Address,
+    amount: bigint,
+    onProgress?: (progress: SettlementProgress) => void,
+    resumeFrom?: SettlementProgress, // retrying: continue after what was already sent
+  ) => {
+    if (!walletClient || !publicClient || !address) {
+      throw new Error('Wallet not connected')
+    }
+    if (walletClient.chain?.id !== chainId || publicClient.chain?.id !== chainId) {
+      throw new Error(`Switch your wallet to chain ${chainId} to settle this withdrawal.`)
+    }
 
-  // Deposit on-chain tokens into Yellow Network
+    setState(prev => ({ ...prev, error: null }))
+
+    try {
+      const nitroliteClient = createNitroliteClient(walletClient, publicClient, chainId)
+      return await settleChannelWithdrawal(nitroliteClient, publicClient, {
+        operation,
+        kind,
+        token,
+        amount,
+        wallet: address,
+        onProgress,
+        resumeFrom,
+      })
+    } catch (error) {
+      const technicalMessage = error instanceof Error ? error.message : 'Settlement failed'
+      console.error('Settlement error:', technicalMessage)
+      setState(prev => ({ ...prev, error: technicalMessage }))
+      throw error
+    } finally {
+      fetchChannels()
+    }
+  }, [walletClient, publicClient, address, fetchChannels])
+
+  // Withdraw funds sitting in the custody contract (not in any channel) to the wallet
+  const withdrawCustodyBalance = useCallback(async (
+    chainId: number,
+    token: Address,
+    amount: bigint,
+    onProgress?: (progress: Partial<SettlementProgress>) => void,
+  ) => {
+    if (!walletClient || !publicClient) {
+      throw new Error('Wallet not connected')
+    }
+    if (walletClient.chain?.id !== chainId || publicClient.chain?.id !== chainId) {
+      throw new Error(`Switch your wallet to chain ${chainId} to withdraw from custody.`)
+    }
+
+    const nitroliteClient = createNitroliteClient(walletClient, publicClient, chainId)
+    return withdrawFromCustody(nitroliteClient, publicClient, token, amount, onProgress)
+  }, [walletClient, publicClient])
+
+  // Deposit on-chain tokens into Yellow Network, on `chainId`'s custody contract
+  // (switching the wallet to that chain first if needed)
+  // Step 0: Pre-flight the deposit (balance, gas, simulated custody call)
   // Step 1: Request channel creation via WebSocket RPC
   // Step 2: Use NitroliteClient to approve + deposit into custody contract
+  // `onSubmitted` gets the custody deposit's hash as soon as it is broadcast
   const depositToYellow = useCallback(async (
     tokenAddress: Address,
     amount: bigint,
     chainId: number,
+    onSubmitted?: (txHash: Hash) => void,
   ) => {
-    if (!signerRef.current || !wsRef.current || !state.isAuthenticated) {
+    if (!client.isAuthenticated) {
       throw new Error('Not connected or not authenticated')
     }
-    if (!walletClient || !publicClient) {
+    if (!address) {
       throw new Error('Wallet not connected')
     }
 
     setState(prev => ({ ...prev, error: null }))
 
     try {
-      // Step 1: Request channel creation via WS (tells the server we want a channel)
-      const createMsg = await createCreateChannelMessage(signerRef.current, {
-        chain_id: chainId,
-        token: tokenAddress,
-      })
-
-      const response = await sendMessage(createMsg)
-      const parsed = parseAnyRPCResponse(response)
-
-      if (parsed.method === 'error') {
-        const errorParams = parsed.params as { error?: string }
-        throw new Error(errorParams.error || 'Channel creation failed')
+      if (getAccount(config).chainId !== chainId) {
+        await switchChain(config, { chainId })
       }
+      const walletClient = await getWalletClient(config, { chainId }) as WalletClient
+      const publicClient = getPublicClient(config, { chainId }) as PublicClient | undefined
+      if (!publicClient) throw new Error(`Chain ${chainId} is not configured in this app`)
 
-      const channelResponse = parseCreateChannelResponse(response)
+      // Step 0: Fail before any channel request or wallet prompt if the deposit can't go through
+      await preflightCustodyDeposit(publicClient, address, chainId, tokenAddress, amount)
 
-      // Step 2: Deposit on-chain using NitroliteClient
-      const contracts = getContractsForChain(chainId)
-
-      /* eslint-disable @typescript-eslint/no-explicit-any */
-      const nitroliteClient = new NitroliteClient({
-        publicClient: publicClient as any,
-        walletClient: walletClient as any,
-        addresses: contracts,
-        chainId,
-        challengeDuration: BigInt(86400), // 24 hours
-        stateSigner: new WalletStateSigner(walletClient as any),
+      // Step 1: Request channel creation via WS (tells the server we want a channel)
+      const channel = await client.createChannel({
+        chain_id: chainId,
+        token: tokenAddress,
       })
-      /* eslint-enable @typescript-eslint/no-explicit-any */
+      saveSignedState(address, channel)
 
-      // Deposit tokens into the custody contract
-      const txHash = await nitroliteClient.deposit(tokenAddress, amount)
+      // Step 2: Deposit tokens into the custody contract on-chain
+      const txHash = await depositToCustody(walletClient, publicClient, chainId, tokenAddress, amount, onSubmitted)
 
       // Refresh state
       await Promise.all([fetchBalances(), fetchChannels()])
 
-      return { txHash, channelId: channelResponse.params?.channelId }
+      return { txHash, channelId: channel.channelId }
     } catch (error) {
       const technicalMessage = error instanceof Error ? error.message : 'Deposit failed'
       console.error('Deposit error:', technicalMessage)
       setState(prev => ({ ...prev, error: technicalMessage }))
       throw error
     }
-  }, [state.isAuthenticated, walletClient, publicClient, sendMessage, fetchBalances, fetchChannels])
+  }, [client, config, address, fetchBalances, fetchChannels])
 
   // Send payment
   const sendPayment = useCallback(async (
@@ -431,7 +404,7 @@ export function useYellow() {
     amount: string,
     asset: string = DEFAULT_ASSET
   ) => {
-    if (!signerRef.current || !wsRef.current || !state.isAuthenticated) {
+    if (!client.isAuthenticated) {
       throw new Error('Not connected or not authenticated')
     }
 
@@ -439,22 +412,11 @@ export function useYellow() {
     setState(prev => ({ ...prev, error: null }))
 
     try {
-      const transferMsg = await createTransferMessage(signerRef.current, {
+      const result = await client.transfer({
         destination: recipientAddress,
         allocations: [{ asset, amount }],
       })
 
-      const response = await sendMessage(transferMsg)
-
-      // Check if response is an error
-      const parsed = parseAnyRPCResponse(response)
-      if (parsed.method === 'error') {
-        const errorParams = parsed.params as { error?: string }
-        throw new Error(errorParams.error || 'Transfer failed')
-      }
-
-      const result = parseTransferResponse(response)
-
       // Refresh balances after successful transfer
       await fetchBalances()
 
@@ -463,7 +425,9 @@ export function useYellow() {
       const technicalMessage = error instanceof Error ? error.message : 'Transfer failed'
       let userMessage = 'Payment failed. Please try again.'
 
-      if (technicalMessage.includes('insufficient') || technicalMessage.includes('balance')) {
+      if (error instanceof YellowAllowanceError) {
+        userMessage = technicalMessage
+      } else if (technicalMessage.includes('insufficient') || technicalMessage.includes('balance')) {
         userMessage = 'Insufficient balance for this payment.'
       } else if (technicalMessage.includes('rejected') || technicalMessage.includes('denied')) {
         userMessage = 'Transaction was declined.'
@@ -477,7 +441,7 @@ export function useYellow() {
     } finally {
       setIsSending(false)
     }
-  }, [state.isAuthenticated, sendMessage, fetchBalances])
+  }, [client, fetchBalances])
 
   // Get default asset balance - format to 2 decimal places
   const getDefaultBalance = useCallback(() => {
@@ -490,44 +454,81 @@ export function useYellow() {
     return isNaN(amount) ? '0.00' : amount.toFixed(2)
   }, [state.balances])
 
-  // Disconnect
-  const disconnect = useCallback(() => {
-    wsRef.current?.close()
-    wsRef.current = null
-    signerRef.current = null
+  // Close the transport and drop the in-memory session (the persisted copy is kept)
+  const closeSession = useCallback(() => {
+    client.disconnect()
     setState(initialState)
-  }, [])
+  }, [client])
 
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      wsRef.current?.close()
-    }
-  }, [])
+  // Disconnect — ends the session, so the next connect asks the wallet again
+  const disconnect = useCallback(() => {
+    const session = client.session
+    if (session) removeSession(session.walletAddress)
+    closeSession()
+  }, [client, closeSession])
 
-  // Handle incoming messages (for real-time updates)
+  // Restore the persisted session for the connected wallet on mount / account switch.
+  // Only a missing, expired or revoked session needs a new wallet signature.
   useEffect(() => {
-    if (!wsRef.current) return
+    const current = client.session
+    if (current && address && current.walletAddress.toLowerCase() === address.toLowerCase()) return
+
+    // Wallet switched or disconnected — the previous wallet's session stays persisted
+    if (current) closeSession()
+    if (!address) return
 
-    const handleMessage = (event: MessageEvent) => {
+    let cancelled = false
+    const restore = () => loadSession(address).then(async session => {
+      if (cancelled || !session || client.session) return
+      setIsConnecting(true)
       try {
-        const response = parseAnyRPCResponse(event.data)
-
-        // Handle balance updates
-        if (response.method === 'bu') {
-          fetchBalances()
-        }
-      } catch {
-        // Ignore parse errors for non-RPC messages
+        await client.restoreSession(session)
+      } finally {
+        setIsConnecting(false)
       }
+    })
+    restore()
+
+    // Another instance (e.g. a different tab panel) authenticated this wallet
+    const handleSaved = (event: Event) => {
+      const wallet = (event as CustomEvent<string>).detail
+      if (wallet.toLowerCase() === address.toLowerCase()) restore()
     }
+    window.addEventListener(SESSION_SAVED_EVENT, handleSaved)
 
-    wsRef.current.addEventListener('message', handleMessage)
+    return () => {
+      cancelled = true
+      window.removeEventListener(SESSION_SAVED_EVENT, handleSaved)
+    }
+  }, [address, client, closeSession])
 
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => client.disconnect()
+  }, [client])
+
+  // Keep the callbacks used by client event handlers current
+  useEffect(() => {
+    refreshRef.current = () => Promise.all([fetchBalances(), fetchChannels()])
+  }, [fetchBalances, fetchChannels])
+
+  useEffect(() => {
+    incomingRef.current = onIncomingPayment
+    publishIncomingRef.current = publishIncomingPayment
+  }, [onIncomingPayment, publishIncomingPayment])
+
+  // Browser connectivity: go offline immediately, retry as soon as the network is back
+  useEffect(() => {
+    const handleOnline = () => client.setNetworkOnline(true)
+    const handleOffline = () => client.setNetworkOnline(false)
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
     return () => {
-      wsRef.current?.removeEventListener('message', handleMessage)
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
     }
-  }, [fetchBalances])
+  }, [client])
 
   // Heartbeat: prevent WebSocket idle timeout by periodically fetching balances
   // Most WebSocket servers drop idle connections after 30-120s of inactivity.
@@ -535,11 +536,7 @@ export function useYellow() {
   useEffect(() => {
     if (!state.isAuthenticated) return
 
-    const heartbeat = setInterval(() => {
-      if (wsRef.current?.readyState === WebSocket.OPEN && signerRef.current) {
-        fetchBalances()
-      }
-    }, 30_000)
+    const heartbeat = setInterval(fetchBalances, 30_000)
 
     return () => clearInterval(heartbeat)
   }, [state.isAuthenticated, fetchBalances])
@@ -548,9 +545,13 @@ export function useYellow() {
     // State
     isConnected: state.isConnected,
     isAuthenticated: state.isAuthenticated,
+    connectionState: state.connectionState,
+    reconnectAttempt: state.reconnectAttempt,
     balance: getDefaultBalance(),
     balances: state.balances,
     channels: state.channels,
+    allowances: state.allowances,
+    sessionPolicy,
     error: state.error,
 
     // Loading states
@@ -559,11 +560,17 @@ export function useYellow() {
 
     // Actions
     connect,
+    setSessionPolicy,
+    retryConnection,
     sendPayment,
     depositToYellow,
     withdrawFromChannel,
+    settleWithdrawal,
+    withdrawCustodyBalance,
     fetchBalances,
     fetchChannels,
+    fetchLedgerTransactions,
+    fetchAssets,
     disconnect,
   }
 }
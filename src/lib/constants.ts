@@ -1,8 +1,11 @@
 // Yellow Network WebSocket endpoints
 export const YELLOW_WS_ENDPOINT = process.env.NEXT_PUBLIC_YELLOW_WS || 'wss://clearnet-sandbox.yellow.com/ws'
 
+// Local mock ClearNode (npm run mock:clearnode) — behaves like the sandbox
+export const IS_LOCAL_CLEARNODE = /^wss?:\/\/(localhost|127\.0\.0\.1)(:\d+)?\//.test(YELLOW_WS_ENDPOINT)
+
 // Determine environment from WebSocket endpoint
-export const IS_SANDBOX = YELLOW_WS_ENDPOINT.includes('sandbox')
+export const IS_SANDBOX = YELLOW_WS_ENDPOINT.includes('sandbox') || IS_LOCAL_CLEARNODE
 
 // ─── Sandbox (Testnet) Chains ───
 // Source: https://docs.yellow.org/docs/learn/introduction/supported-chains
@@ -23,6 +26,10 @@ export const PRODUCTION_CHAINS = {
   XRPL_EVM: { chainId: 1440000, name: 'XRPL EVM Sidechain' },
 } as const
 
+// Chains of the current environment
+export const YELLOW_CHAINS: readonly { chainId: number; name: string }[] =
+  Object.values(IS_SANDBOX ? SANDBOX_CHAINS : PRODUCTION_CHAINS)
+
 // ─── Custody & Adjudicator Contracts ───
 // Sandbox (same addresses across testnet chains)
 export const SANDBOX_CONTRACTS = {
@@ -92,25 +99,73 @@ export const ETHEREUM_CHAIN_ID = 1
 // Maps Yellow Network asset names to on-chain tokens for LI.FI routing.
 // When paying with "any token", LI.FI swaps/bridges to this token on this chain,
 // then it gets deposited into Yellow Network custody.
-interface SettlementToken {
+export interface SettlementToken {
   chainId: number
   tokenAddress: string
   decimals: number
   symbol: string
 }
 
-export const SETTLEMENT_TOKENS: Record<string, SettlementToken> = {
-  usdc: { chainId: 8453, tokenAddress: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', decimals: 6, symbol: 'USDC' },
-  usdt: { chainId: 137, tokenAddress: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', decimals: 6, symbol: 'USDT' },
-  eth:  { chainId: 8453, tokenAddress: '0x0000000000000000000000000000000000000000', decimals: 18, symbol: 'ETH' },
-  weth: { chainId: 8453, tokenAddress: '0x4200000000000000000000000000000000000006', decimals: 18, symbol: 'WETH' },
-  bnb:  { chainId: 56, tokenAddress: '0x0000000000000000000000000000000000000000', decimals: 18, symbol: 'BNB' },
-  link: { chainId: 8453, tokenAddress: '0x88Fb150BDc53A65fe94Dea0c9BA0a6dAf8C6e196', decimals: 18, symbol: 'LINK' },
+// Every chain each asset can be deposited on (into that chain's custody contract).
+// The first entry is the asset's default settlement chain.
+export const SETTLEMENT_CHAINS: Record<string, SettlementToken[]> = {
+  usdc: [
+    { chainId: 8453, tokenAddress: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', decimals: 6, symbol: 'USDC' },
+    { chainId: 1, tokenAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6, symbol: 'USDC' },
+    { chainId: 137, tokenAddress: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', decimals: 6, symbol: 'USDC' },
+    { chainId: 56, tokenAddress: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d', decimals: 18, symbol: 'USDC' },
+    { chainId: 59144, tokenAddress: '0x176211869cA2b568f2A7D4EE941E073a821EE1ff', decimals: 6, symbol: 'USDC' },
+    { chainId: 480, tokenAddress: '0x79A02482A880bCE3F13e09Da970dC34db4CD24d1', decimals: 6, symbol: 'USDC' },
+  ],
+  usdt: [
+    { chainId: 137, tokenAddress: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', decimals: 6, symbol: 'USDT' },
+    { chainId: 1, tokenAddress: '0xdAC17F958D2ee523a2206206994597C13D831ec7', decimals: 6, symbol: 'USDT' },
+    { chainId: 56, tokenAddress: '0x55d398326f99059fF775485246999027B3197955', decimals: 18, symbol: 'USDT' },
+    { chainId: 59144, tokenAddress: '0xA219439258ca9da29E9Cc4cE5596924745e12B93', decimals: 6, symbol: 'USDT' },
+  ],
+  eth: [
+    { chainId: 8453, tokenAddress: '0x0000000000000000000000000000000000000000', decimals: 18, symbol: 'ETH' },
+    { chainId: 1, tokenAddress: '0x0000000000000000000000000000000000000000', decimals: 18, symbol: 'ETH' },
+    { chainId: 59144, tokenAddress: '0x0000000000000000000000000000000000000000', decimals: 18, symbol: 'ETH' },
+    { chainId: 480, tokenAddress: '0x0000000000000000000000000000000000000000', decimals: 18, symbol: 'ETH' },
+  ],
+  weth: [
+    { chainId: 8453, tokenAddress: '0x4200000000000000000000000000000000000006', decimals: 18, symbol: 'WETH' },
+    { chainId: 1, tokenAddress: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', decimals: 18, symbol: 'WETH' },
+    { chainId: 137, tokenAddress: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619', decimals: 18, symbol: 'WETH' },
+    { chainId: 59144, tokenAddress: '0xe5D7C2a44FfDDf6b295A15c148167daaAf5Cf34f', decimals: 18, symbol: 'WETH' },
+    { chainId: 480, tokenAddress: '0x4200000000000000000000000000000000000006', decimals: 18, symbol: 'WETH' },
+  ],
+  bnb: [
+    { chainId: 56, tokenAddress: '0x0000000000000000000000000000000000000000', decimals: 18, symbol: 'BNB' },
+  ],
+  link: [
+    { chainId: 8453, tokenAddress: '0x88Fb150BDc53A65fe94Dea0c9BA0a6dAf8C6e196', decimals: 18, symbol: 'LINK' },
+    { chainId: 1, tokenAddress: '0x514910771AF9Ca656af840dff83E8264EcF986CA', decimals: 18, symbol: 'LINK' },
+    { chainId: 137, tokenAddress: '0xb0897686c545045aFc77CF20eC7A532E3120E0F1', decimals: 18, symbol: 'LINK' },
+    { chainId: 56, tokenAddress: '0xF8A0BF9cF54Bb92F17374d9e9A321E6a111a51bD', decimals: 18, symbol: 'LINK' },
+  ],
 }
 
+// Default settlement token per asset
+export const SETTLEMENT_TOKENS: Record<string, SettlementToken> = Object.fromEntries(
+  Object.entries(SETTLEMENT_CHAINS).map(([asset, tokens]) => [asset, tokens[0]!]),
+)
+
 // Get the settlement token config for a Yellow Network asset
 export function getSettlementToken(asset: string): SettlementToken {
   const token = SETTLEMENT_TOKENS[asset.toLowerCase()]
   // Default to USDC on Base
   return token || SETTLEMENT_TOKENS.usdc
 }
+
+// Get every chain a Yellow Network asset can settle on, default first
+export function getSettlementChains(asset: string): SettlementToken[] {
+  return SETTLEMENT_CHAINS[asset.toLowerCase()] || [getSettlementToken(asset)]
+}
+
+// Find a settlement token by its on-chain address (e.g. the token of a Yellow channel)
+export function findSettlementTokenByAddress(chainId: number, tokenAddress: string): SettlementToken | undefined {
+  return Object.values(SETTLEMENT_CHAINS).flat().find(t =>
+    t.chainId === chainId && t.tokenAddress.toLowerCase() === tokenAddress.toLowerCase())
+}
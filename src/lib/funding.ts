@@ -0,0 +1,57 @@
+// Funding strategies — how tokens in the wallet get into Yellow Network custody
+//
+// - direct: the token already is a settlement token on its chain, so it's deposited
+//           into that chain's custody contract as is (approval + deposit, no LI.FI)
+// - lifi:   LI.FI swaps/bridges it to a settlement token first, then it's deposited
+//
+// Strategies are tried in order; the first that can fund the source is used.
+
+import type { SettlementToken } from '@/lib/constants'
+
+export type FundingStrategyId = 'direct' | 'lifi'
+
+export interface FundingSource {
+  chainId: number
+  token: string // address; 0x000...0 for the native token
+}
+
+export interface FundingStrategy {
+  id: FundingStrategyId
+  name: string
+  /** The settlement tokens out of `targets` this strategy can turn `source` into (empty if none) */
+  targetsFor(source: FundingSource, targets: SettlementToken[]): SettlementToken[]
+}
+
+export interface FundingPlan {
+  strategy: FundingStrategy
+  targets: SettlementToken[]
+}
+
+function isSameToken(source: FundingSource, target: SettlementToken): boolean {
+  return target.chainId === source.chainId && target.tokenAddress.toLowerCase() === source.token.toLowerCase()
+}
+
+export const directDepositStrategy: FundingStrategy = {
+  id: 'direct',
+  name: 'Direct deposit',
+  targetsFor: (source, targets) => targets.filter(t => isSameToken(source, t)),
+}
+
+export const lifiFundingStrategy: FundingStrategy = {
+  id: 'lifi',
+  name: 'LI.FI',
+  // Any other settlement token is a swap and/or bridge away
+  targetsFor: (source, targets) => targets.filter(t => !isSameToken(source, t)),
+}
+
+// Cheapest first: a direct deposit pays no swap or bridge fees and needs no status polling
+export const FUNDING_STRATEGIES: FundingStrategy[] = [directDepositStrategy, lifiFundingStrategy]
+
+/** The first strategy that can fund `source` into one of `targets`, or null if none can */
+export function planFunding(source: FundingSource, targets: SettlementToken[]): FundingPlan | null {
+  for (const strategy of FUNDING_STRATEGIES) {
+    const usable = strategy.targetsFor(source, targets)
+    if (usable.length > 0) return { strategy, targets: usable }
+  }
+  return null
+}
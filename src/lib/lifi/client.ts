@@ -1,56 +1,66 @@
 // LI.FI REST API client (li.quest/v1)
 
+import { apiFetch, cachedFetch } from './request'
 import type {
   LiFiService,
   LiFiQuoteRequest,
   LiFiQuote,
+  LiFiRoutesRequest,
+  LiFiRoute,
+  LiFiQuoteOptions,
+  LiFiTools,
+  LiFiStep,
   LiFiChain,
   LiFiToken,
   LiFiStatus,
-  LiFiError,
 } from './types'
 
-const BASE_URL = 'https://li.quest/v1'
-
-class LiFiApiError extends Error {
-  code?: number
-  errors?: LiFiError['errors']
-
-  constructor(err: LiFiError) {
-    super(err.message)
-    this.name = 'LiFiApiError'
-    this.code = err.code
-    this.errors = err.errors
+const DEFAULT_SLIPPAGE = 0.03
+
+// Static lists change rarely; cached for the session
+const CHAINS_TTL_MS = 60 * 60_000
+const TOKENS_TTL_MS = 30 * 60_000
+const TOOLS_TTL_MS = 60 * 60_000
+
+// Route finding queries many tools and can take a while
+const ROUTES_TIMEOUT_MS = 30_000
+
+// Integrator attribution (and optional fee) applied to every quote unless overridden
+const INTEGRATOR = process.env.NEXT_PUBLIC_LIFI_INTEGRATOR
+const INTEGRATOR_FEE = process.env.NEXT_PUBLIC_LIFI_FEE
+  ? parseFloat(process.env.NEXT_PUBLIC_LIFI_FEE)
+  : undefined
+
+// Options with the integrator defaults filled in
+function withDefaults(params: LiFiQuoteOptions): LiFiQuoteOptions {
+  return {
+    ...params,
+    slippage: params.slippage ?? DEFAULT_SLIPPAGE,
+    integrator: params.integrator ?? INTEGRATOR,
+    fee: params.fee ?? INTEGRATOR_FEE,
   }
 }
 
-async function apiFetch<T>(path: string, options?: RequestInit): Promise<T> {
-  const url = path.startsWith('http') ? path : `${BASE_URL}${path}`
-
-  const headers: Record<string, string> = {
-    'Accept': 'application/json',
-    ...(options?.headers as Record<string, string> || {}),
-  }
-
-  // Add API key if available (server-side only via Next.js env)
-  const apiKey = process.env.NEXT_PUBLIC_LIFI_API_KEY
-  if (apiKey) {
-    headers['x-lifi-api-key'] = apiKey
+// /quote takes the options as query params; tool lists repeat the key per entry
+function setQuoteOptions(searchParams: URLSearchParams, params: LiFiQuoteOptions): void {
+  const options = withDefaults(params)
+  searchParams.set('slippage', options.slippage!.toString())
+  if (options.order && options.order !== 'SAFEST') searchParams.set('order', options.order)
+  if (options.maxPriceImpact !== undefined) searchParams.set('maxPriceImpact', options.maxPriceImpact.toString())
+  if (options.integrator) searchParams.set('integrator', options.integrator)
+  if (options.fee !== undefined) searchParams.set('fee', options.fee.toString())
+
+  const lists: Array<[string, string[] | undefined]> = [
+    ['allowBridges', options.bridges?.allow],
+    ['denyBridges', options.bridges?.deny],
+    ['preferBridges', options.bridges?.prefer],
+    ['allowExchanges', options.exchanges?.allow],
+    ['denyExchanges', options.exchanges?.deny],
+    ['preferExchanges', options.exchanges?.prefer],
+  ]
+  for (const [key, values] of lists) {
+    values?.forEach(value => searchParams.append(key, value))
   }
-
-  const res = await fetch(url, { ...options, headers })
-
-  if (!res.ok) {
-    let errorBody: LiFiError
-    try {
-      errorBody = await res.json()
-    } catch {
-      errorBody = { message: `HTTP ${res.status}: ${res.statusText}` }
-    }
-    throw new LiFiApiError(errorBody)
-  }
-
-  return res.json()
 }
 
 export const lifiClient: LiFiService = {
@@ -60,26 +70,73 @@ export const lifiClient: LiFiService = {
       toChain: params.toChain.toString(),
       fromToken: params.fromToken,
       toToken: params.toToken,
-      fromAmount: params.fromAmount,
       fromAddress: params.fromAddress,
-      slippage: (params.slippage ?? 0.03).toString(),
     })
+    setQuoteOptions(searchParams, params)
 
     if (params.toAddress) {
       searchParams.set('toAddress', params.toAddress)
     }
+    if (params.fromAmountForGas) {
+      searchParams.set('fromAmountForGas', params.fromAmountForGas)
+    }
+
+    // Reverse quote: fixed output amount
+    if (params.toAmount !== undefined) {
+      searchParams.set('toAmount', params.toAmount)
+      return apiFetch<LiFiQuote>(`/quote/toAmount?${searchParams}`, undefined, { quote: true })
+    }
+
+    searchParams.set('fromAmount', params.fromAmount)
+    return apiFetch<LiFiQuote>(`/quote?${searchParams}`, undefined, { quote: true })
+  },
 
-    return apiFetch<LiFiQuote>(`/quote?${searchParams}`)
+  async getRoutes(params: LiFiRoutesRequest): Promise<LiFiRoute[]> {
+    const options = withDefaults(params)
+    const data = await apiFetch<{ routes: LiFiRoute[] }>('/advanced/routes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        fromChainId: params.fromChain,
+        toChainId: params.toChain,
+        fromTokenAddress: params.fromToken,
+        toTokenAddress: params.toToken,
+        fromAmount: params.fromAmount,
+        fromAddress: params.fromAddress,
+        toAddress: params.toAddress,
+        fromAmountForGas: params.fromAmountForGas,
+        options: {
+          order: params.order ?? 'CHEAPEST',
+          slippage: options.slippage,
+          maxPriceImpact: options.maxPriceImpact,
+          integrator: options.integrator,
+          fee: options.fee,
+          bridges: options.bridges,
+          exchanges: options.exchanges,
+        },
+      }),
+    }, { quote: true, timeoutMs: ROUTES_TIMEOUT_MS })
+    return data.routes
+  },
+
+  // Populate a route step's transactionRequest right before executing it
+  async getStepTransaction(step: LiFiStep): Promise<LiFiQuote> {
+    return apiFetch<LiFiQuote>('/advanced/stepTransaction', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(step),
+    })
   },
 
   async getChains(): Promise<LiFiChain[]> {
-    const data = await apiFetch<{ chains: LiFiChain[] }>('/chains')
+    const data = await cachedFetch<{ chains: LiFiChain[] }>('/chains', CHAINS_TTL_MS)
     return data.chains
   },
 
   async getTokens(chainIds: number[]): Promise<Record<number, LiFiToken[]>> {
-    const data = await apiFetch<{ tokens: Record<string, LiFiToken[]> }>(
-      `/tokens?chains=${chainIds.join(',')}`
+    const data = await cachedFetch<{ tokens: Record<string, LiFiToken[]> }>(
+      `/tokens?chains=${[...chainIds].sort((a, b) => a - b).join(',')}`,
+      TOKENS_TTL_MS,
     )
     // API returns string keys, convert to number keys
     const result: Record<number, LiFiToken[]> = {}
@@ -89,6 +146,10 @@ export const lifiClient: LiFiService = {
     return result
   },
 
+  async getTools(): Promise<LiFiTools> {
+    return cachedFetch<LiFiTools>('/tools', TOOLS_TTL_MS)
+  },
+
   async getStatus(
     txHash: string,
     fromChain: number,
@@ -0,0 +1,176 @@
+// LI.FI quote execution — ERC-20 approval, pre-flight simulation + transaction submission
+
+import { erc20Abi, maxUint256, zeroAddress, type Address, type Hash, type PublicClient, type WalletClient } from 'viem'
+import { PreflightError, checkNativeBalance, simulateTransaction } from '@/lib/preflight'
+import type { LiFiQuote, LiFiStep } from './types'
+
+// LI.FI uses either address for the native token
+const NATIVE_TOKEN_ADDRESSES = [zeroAddress, '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee']
+
+// - checking:   reading the current allowance
+// - approving:  approval sent to the wallet, waiting for signature
+// - confirming: approval sent, waiting for its receipt
+// - approved:   allowance covers the swap (or no approval was needed)
+export type LiFiApprovalStatus = 'checking' | 'approving' | 'confirming' | 'approved'
+
+export interface LiFiExecutionOptions {
+  unlimitedApproval?: boolean // approve maxUint256 instead of the exact fromAmount
+  onApproval?: (status: LiFiApprovalStatus, approvalTxHash?: Hash) => void
+}
+
+/** Native tokens are sent as value and never need an approval */
+export function isNativeToken(address: string): boolean {
+  return NATIVE_TOKEN_ADDRESSES.includes(address.toLowerCase() as Address)
+}
+
+/** Whether executing `quote` (or a route step) spends an ERC-20, so may need an approval first */
+export function quoteNeedsApproval(quote: LiFiStep): boolean {
+  return !isNativeToken(quote.action.fromToken.address) && !!quote.estimate.approvalAddress
+}
+
+/**
+ * Make sure LI.FI's approval address may spend the quote's fromAmount, approving
+ * (exact amount unless `unlimitedApproval`) and waiting for confirmation if not.
+ * A lower non-zero allowance is reset to zero first, which takes a second approval.
+ */
+export async function ensureLiFiAllowance(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  quote: LiFiQuote,
+  { unlimitedApproval = false, onApproval }: LiFiExecutionOptions = {},
+): Promise<void> {
+  if (!quoteNeedsApproval(quote)) {
+    onApproval?.('approved')
+    return
+  }
+
+  const owner = walletClient.account?.address
+  if (!owner) throw new Error('Wallet not connected')
+  const token = quote.action.fromToken.address as Address
+  const spender = quote.estimate.approvalAddress as Address
+  const required = BigInt(quote.action.fromAmount)
+
+  onApproval?.('checking')
+  const allowance = await publicClient.readContract({
+    address: token,
+    abi: erc20Abi,
+    functionName: 'allowance',
+    args: [owner, spender],
+  })
+  if (allowance >= required) {
+    onApproval?.('approved')
+    return
+  }
+
+  // Tokens like USDT revert when an allowance is changed from one non-zero value to
+  // another, so an insufficient leftover allowance is reset to zero first
+  if (allowance > BigInt(0)) await approve(walletClient, publicClient, token, spender, BigInt(0), onApproval)
+  const approvalTxHash = await approve(
+    walletClient, publicClient, token, spender, unlimitedApproval ? maxUint256 : required, onApproval,
+  )
+  onApproval?.('approved', approvalTxHash)
+}
+
+// Send an ERC-20 approval and wait for it to be mined
+async function approve(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  token: Address,
+  spender: Address,
+  amount: bigint,
+  onApproval?: LiFiExecutionOptions['onApproval'],
+): Promise<Hash> {
+  onApproval?.('approving')
+  const approvalTxHash = await walletClient.writeContract({
+    address: token,
+    abi: erc20Abi,
+    functionName: 'approve',
+    args: [spender, amount],
+    account: walletClient.account!,
+    chain: walletClient.chain,
+  })
+  onApproval?.('confirming', approvalTxHash)
+
+  const receipt = await publicClient.waitForTransactionReceipt({ hash: approvalTxHash })
+  if (receipt.status !== 'success') throw new Error('Token approval reverted on-chain')
+  return approvalTxHash
+}
+
+/**
+ * Dry-run the quote's transaction from `account`. Resolves with the gas limit to send it
+ * with (the quote's, raised if the simulation needs more); throws a `PreflightError` if
+ * it would revert or the wallet can't pay for it. Falls back to the quote's gas limit
+ * when the RPC can't simulate.
+ */
+export async function simulateLiFiQuote(publicClient: PublicClient, account: Address, quote: LiFiQuote): Promise<bigint> {
+  const { to, data, value, gasLimit } = quote.transactionRequest
+  const quotedGas = BigInt(gasLimit)
+  try {
+    return await simulateTransaction(publicClient, {
+      account,
+      to: to as Address,
+      data: data as `0x${string}`,
+      value: BigInt(value || '0'),
+      gas: quotedGas,
+    })
+  } catch (error) {
+    if (error instanceof PreflightError) throw error
+    console.warn('LI.FI transaction simulation unavailable:', error)
+    return quotedGas
+  }
+}
+
+/**
+ * Check a quote or route step before executing it. Simulates the transaction when it
+ * can already run (populated, and no approval missing); otherwise checks the native
+ * balance covers the step's value and LI.FI's gas estimate. Throws a `PreflightError`.
+ */
+export async function preflightLiFiStep(publicClient: PublicClient, account: Address, step: LiFiStep): Promise<void> {
+  const fromAmount = BigInt(step.action.fromAmount)
+
+  let allowanceMissing = quoteNeedsApproval(step)
+  if (allowanceMissing && step.transactionRequest) {
+    const allowance = await publicClient.readContract({
+      address: step.action.fromToken.address as Address,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [account, step.estimate.approvalAddress as Address],
+    })
+    allowanceMissing = allowance < fromAmount
+  }
+
+  if (step.transactionRequest && !allowanceMissing) {
+    await simulateLiFiQuote(publicClient, account, { ...step, transactionRequest: step.transactionRequest })
+    return
+  }
+
+  const value = isNativeToken(step.action.fromToken.address) ? fromAmount : BigInt(0)
+  const fee = step.estimate.gasCosts
+    .filter(cost => isNativeToken(cost.token.address))
+    .reduce((sum, cost) => sum + BigInt(cost.amount), BigInt(0))
+  await checkNativeBalance(publicClient, account, value, fee)
+}
+
+/** Approve if needed, simulate, then send the quote's transaction. Resolves with its hash. */
+export async function executeLiFiQuote(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  quote: LiFiQuote,
+  options?: LiFiExecutionOptions,
+): Promise<Hash> {
+  await ensureLiFiAllowance(walletClient, publicClient, quote, options)
+
+  const account = walletClient.account
+  if (!account) throw new Error('Wallet not connected')
+  // Catch reverts and missing gas before the wallet prompt, not on-chain
+  const gas = await simulateLiFiQuote(publicClient, account.address, quote)
+
+  return walletClient.sendTransaction({
+    to: quote.transactionRequest.to as `0x${string}`,
+    data: quote.transactionRequest.data as `0x${string}`,
+    value: BigInt(quote.transactionRequest.value || '0'),
+    gas,
+    account,
+    chain: walletClient.chain,
+  })
+}
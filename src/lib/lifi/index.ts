@@ -3,12 +3,43 @@
 import { lifiClient } from './client'
 
 export const lifi = lifiClient
+export {
+  executeLiFiQuote,
+  ensureLiFiAllowance,
+  simulateLiFiQuote,
+  preflightLiFiStep,
+  quoteNeedsApproval,
+  isNativeToken,
+} from './execute'
+export {
+  executeLiFiRoute,
+  routeKey,
+  routeTools,
+  routeDuration,
+  routeFeesUSD,
+  routeGasUSD,
+  formatDuration,
+  routePriceImpact,
+  cheapestDestinationFirst,
+  quoteToRoute,
+} from './routes'
+export { transferOutcome, receivedFunds, waitForTransferEnd, LiFiStatusTimeoutError } from './status'
+export { REFUEL_USD, refuelAmount, estimateRefuelNative } from './refuel'
+export { LiFiApiError, getLiFiBudget, quoteDelay } from './request'
 
 // Re-export types for convenience
 export type {
   LiFiService,
   LiFiQuote,
   LiFiQuoteRequest,
+  LiFiQuoteOptions,
+  LiFiToolFilter,
+  LiFiTool,
+  LiFiTools,
+  LiFiRoute,
+  LiFiRoutesRequest,
+  LiFiRouteOrder,
+  LiFiStep,
   LiFiChain,
   LiFiToken,
   LiFiStatus,
@@ -19,3 +50,7 @@ export type {
   LiFiError,
   LiFiToolError,
 } from './types'
+export type { LiFiApprovalStatus, LiFiExecutionOptions } from './execute'
+export type { LiFiChainClients, LiFiRouteExecutionOptions } from './routes'
+export type { LiFiTransferOutcome, LiFiReceived, LiFiStatusPollOptions } from './status'
+export type { LiFiBudget, LiFiRequestOptions } from './request'
@@ -0,0 +1,41 @@
+// Gas refuel — part of a cross-chain transfer swapped to native gas on the destination
+//
+// Tokens bridged to a chain where the wallet holds no native token can't move from
+// there: the custody deposit, an Aave withdrawal or a later on-chain withdrawal all
+// need gas. LI.FI can swap a slice of the source amount into destination gas within
+// the same transfer (`fromAmountForGas`).
+
+import { formatUnits, parseUnits } from 'viem'
+import type { LiFiToken } from './types'
+
+// Gas to refuel, in USD: an approval, the custody deposit and a later withdrawal
+// on Base or Polygon, with room to spare
+export const REFUEL_USD = 2
+// Never spend more than 1 / this share of the amount on gas
+const MAX_REFUEL_SHARE_DIVISOR = BigInt(4)
+
+function priceOf(token: LiFiToken): number | null {
+  const price = parseFloat(token.priceUSD ?? '')
+  return price > 0 ? price : null
+}
+
+/**
+ * Source-token amount to swap for ~`REFUEL_USD` of destination gas. Null when LI.FI has
+ * no price for the token, or when it would take too large a share of `fromAmount`.
+ */
+export function refuelAmount(fromToken: LiFiToken, fromAmount: bigint): bigint | null {
+  const price = priceOf(fromToken)
+  if (!price) return null
+  const amount = parseUnits((REFUEL_USD / price).toFixed(fromToken.decimals), fromToken.decimals)
+  if (amount <= BigInt(0) || amount * MAX_REFUEL_SHARE_DIVISOR > fromAmount) return null
+  return amount
+}
+
+/** Native gas `fromAmountForGas` buys on the destination, estimated from LI.FI's USD prices */
+export function estimateRefuelNative(fromToken: LiFiToken, fromAmountForGas: bigint, nativeToken: LiFiToken): bigint | null {
+  const fromPrice = priceOf(fromToken)
+  const nativePrice = priceOf(nativeToken)
+  if (!fromPrice || !nativePrice) return null
+  const usd = parseFloat(formatUnits(fromAmountForGas, fromToken.decimals)) * fromPrice
+  return parseUnits((usd / nativePrice).toFixed(nativeToken.decimals), nativeToken.decimals)
+}
@@ -0,0 +1,280 @@
+// LI.FI request layer — timeouts, retries, rate-limit budget + response caching
+//
+// The public API allows 200 requests per 2 hours without a key (200 per minute with
+// one). Every request counts against that budget, so static lists are cached for
+// the session, transient failures are retried with backoff, and quote requests are
+// spaced out as the remaining budget runs low.
+
+import type { LiFiError } from './types'
+
+// Our /api/lifi proxy by default, which adds the server-only API key
+const BASE_URL = process.env.NEXT_PUBLIC_LIFI_API_URL || '/api/lifi'
+
+const DEFAULT_TIMEOUT_MS = 20_000
+const MAX_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 500
+// Longer Retry-After waits fail straight away instead of stalling the form
+const MAX_RETRY_AFTER_MS = 10_000
+
+// Documented keyless limit, used until the API reports its own rate-limit headers
+// (the browser can't tell whether the proxy has a key, so it assumes the stricter one)
+const RATE_LIMIT = 200
+const RATE_WINDOW_MS = 2 * 60 * 60_000
+
+// Minimum gap between quote requests once the remaining budget falls below a share of the limit
+const QUOTE_COOLDOWNS: Array<[share: number, gapMs: number]> = [
+  [0.1, 30_000],
+  [0.25, 10_000],
+]
+
+const BUDGET_STORAGE_KEY = 'yellowpay_lifi_requests'
+const CACHE_STORAGE_KEY = 'yellowpay_lifi_cache'
+
+export class LiFiApiError extends Error {
+  code?: number
+  errors?: LiFiError['errors']
+  status?: number // HTTP status; undefined for network errors and timeouts
+  retryAfterMs?: number // from Retry-After / rate-limit headers on 429
+
+  constructor(err: LiFiError, status?: number, retryAfterMs?: number) {
+    super(err.message)
+    this.name = 'LiFiApiError'
+    this.code = err.code
+    this.errors = err.errors
+    this.status = status
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+export interface LiFiRequestOptions {
+  timeoutMs?: number
+  quote?: boolean // a quote/routes request — counted for quote spacing
+}
+
+// ─── Budget ───
+
+export interface LiFiBudget {
+  limit: number
+  remaining: number
+  resetAt: number // Unix ms when the window frees up
+  reported: boolean // from the API's rate-limit headers rather than local counting
+}
+
+// Last budget the API reported; trusted until its window resets
+let reportedBudget: LiFiBudget | null = null
+let lastQuoteAt = 0
+
+// Timestamps of requests sent from this tab within the window (survives reloads)
+function readRequestLog(): number[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const raw = sessionStorage.getItem(BUDGET_STORAGE_KEY)
+    const log = raw ? (JSON.parse(raw) as number[]) : []
+    return log.filter(t => t > Date.now() - RATE_WINDOW_MS)
+  } catch {
+    return []
+  }
+}
+
+function logRequest(): void {
+  if (typeof window === 'undefined') return
+  try {
+    sessionStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify([...readRequestLog(), Date.now()]))
+  } catch {
+    // sessionStorage full or unavailable — budget falls back to headers only
+  }
+}
+
+/** The rate-limit budget left: as last reported by the API, else counted locally */
+export function getLiFiBudget(): LiFiBudget {
+  if (reportedBudget && reportedBudget.resetAt > Date.now()) return reportedBudget
+
+  const log = readRequestLog()
+  return {
+    limit: RATE_LIMIT,
+    remaining: Math.max(0, RATE_LIMIT - log.length),
+    resetAt: log.length ? log[0]! + RATE_WINDOW_MS : Date.now(),
+    reported: false,
+  }
+}
+
+/** Milliseconds to wait before the next quote request so the budget lasts; 0 when healthy */
+export function quoteDelay(): number {
+  const budget = getLiFiBudget()
+  const now = Date.now()
+  if (budget.remaining <= 0) return Math.max(0, budget.resetAt - now)
+
+  const share = budget.remaining / budget.limit
+  const gap = QUOTE_COOLDOWNS.find(([threshold]) => share <= threshold)?.[1] ?? 0
+  return Math.max(0, lastQuoteAt + gap - now)
+}
+
+// Accepts both the IETF `ratelimit-*` and the older `x-ratelimit-*` names
+function rateLimitHeader(headers: Headers, name: string): number | null {
+  const value = headers.get(`ratelimit-${name}`) ?? headers.get(`x-ratelimit-${name}`)
+  if (value === null) return null
+  const parsed = parseFloat(value)
+  return isNaN(parsed) ? null : parsed
+}
+
+function updateBudget(headers: Headers): void {
+  const limit = rateLimitHeader(headers, 'limit')
+  const remaining = rateLimitHeader(headers, 'remaining')
+  if (limit === null || remaining === null) return
+  // Reset is seconds until the window resets (or a Unix timestamp from some gateways)
+  const reset = rateLimitHeader(headers, 'reset')
+  const resetAt = reset === null
+    ? Date.now() + RATE_WINDOW_MS
+    : reset > 1e9 ? reset * 1000 : Date.now() + reset * 1000
+  reportedBudget = { limit, remaining, resetAt, reported: true }
+}
+
+// Retry-After is either seconds or an HTTP date; falls back to the rate-limit reset
+function retryAfterMs(headers: Headers): number | undefined {
+  const value = headers.get('retry-after')
+  if (value) {
+    const seconds = parseFloat(value)
+    if (!isNaN(seconds)) return seconds * 1000
+    const date = Date.parse(value)
+    if (!isNaN(date)) return Math.max(0, date - Date.now())
+  }
+  const reset = rateLimitHeader(headers, 'reset')
+  return reset === null ? undefined : reset > 1e9 ? Math.max(0, reset * 1000 - Date.now()) : reset * 1000
+}
+
+// ─── Fetch ───
+
+function backoffDelay(attempt: number): number {
+  const delay = RETRY_BASE_DELAY_MS * 2 ** attempt
+  return delay + Math.random() * delay * 0.5
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+async function fetchOnce(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  try {
+    return await fetch(url, { ...init, signal: controller.signal })
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new LiFiApiError({ message: `LI.FI did not respond within ${timeoutMs / 1000}s` })
+    }
+    throw new LiFiApiError({ message: error instanceof Error ? error.message : 'Network error reaching LI.FI' })
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Call the LI.FI API. Network errors, timeouts, 5xx and 429 responses are retried with
+ * jittered backoff (429 after its Retry-After); other errors throw a `LiFiApiError`.
+ */
+export async function apiFetch<T>(path: string, init?: RequestInit, options: LiFiRequestOptions = {}): Promise<T> {
+  const url = path.startsWith('http') ? path : `${BASE_URL}${path}`
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, quote = false } = options
+
+  const headers: Record<string, string> = {
+    'Accept': 'application/json',
+    ...(init?.headers as Record<string, string> || {}),
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    logRequest()
+    if (quote) lastQuoteAt = Date.now()
+
+    let res: Response
+    try {
+      res = await fetchOnce(url, { ...init, headers }, timeoutMs)
+    } catch (error) {
+      if (attempt >= MAX_RETRIES) throw error
+      await sleep(backoffDelay(attempt))
+      continue
+    }
+    updateBudget(res.headers)
+
+    if (res.ok) return res.json()
+
+    let errorBody: LiFiError
+    try {
+      errorBody = await res.json()
+    } catch {
+      errorBody = { message: `HTTP ${res.status}: ${res.statusText}` }
+    }
+
+    if (res.status === 429) {
+      const wait = retryAfterMs(res.headers)
+      if (attempt < MAX_RETRIES && (wait ?? 0) <= MAX_RETRY_AFTER_MS) {
+        await sleep(wait ?? backoffDelay(attempt))
+        continue
+      }
+      const seconds = wait !== undefined ? Math.ceil(wait / 1000) : null
+      throw new LiFiApiError(
+        { ...errorBody, message: `LI.FI rate limit reached${seconds ? ` — try again in ${seconds}s` : ''}` },
+        res.status,
+        wait,
+      )
+    }
+    if (res.status >= 500 && attempt < MAX_RETRIES) {
+      await sleep(backoffDelay(attempt))
+      continue
+    }
+    throw new LiFiApiError(errorBody, res.status)
+  }
+}
+
+// ─── Cache ───
+// Static lists (/chains, /tokens, /tools): in memory, mirrored to sessionStorage
+
+interface CacheEntry {
+  data: unknown
+  expiresAt: number
+}
+
+const memoryCache = new Map<string, CacheEntry>()
+const inFlight = new Map<string, Promise<unknown>>()
+
+function readStoredCache(): Record<string, CacheEntry> {
+  if (typeof window === 'undefined') return {}
+  try {
+    const raw = sessionStorage.getItem(CACHE_STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as Record<string, CacheEntry>) : {}
+  } catch {
+    return {}
+  }
+}
+
+function storeCacheEntry(path: string, entry: CacheEntry): void {
+  if (typeof window === 'undefined') return
+  const now = Date.now()
+  const entries = Object.fromEntries(Object.entries(readStoredCache()).filter(([, e]) => e.expiresAt > now))
+  try {
+    sessionStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify({ ...entries, [path]: entry }))
+  } catch {
+    // Token lists can exceed the quota — the memory cache still holds them
+  }
+}
+
+/** GET `path`, served from cache while younger than `ttlMs`; concurrent callers share one request */
+export async function cachedFetch<T>(path: string, ttlMs: number): Promise<T> {
+  const now = Date.now()
+  const cached = memoryCache.get(path) ?? readStoredCache()[path]
+  if (cached && cached.expiresAt > now) {
+    memoryCache.set(path, cached)
+    return cached.data as T
+  }
+
+  const pending = inFlight.get(path)
+  if (pending) return pending as Promise<T>
+
+  const request = apiFetch<T>(path)
+    .then(data => {
+      const entry = { data, expiresAt: Date.now() + ttlMs }
+      memoryCache.set(path, entry)
+      storeCacheEntry(path, entry)
+      return data
+    })
+    .finally(() => inFlight.delete(path))
+  inFlight.set(path, request)
+  return request
+}
@@ -0,0 +1,156 @@
+// LI.FI advanced routes — summaries for the route picker + step-by-step execution
+
+import { formatUnits, type Hash, type PublicClient, type WalletClient } from 'viem'
+import { lifiClient } from './client'
+import { executeLiFiQuote, type LiFiExecutionOptions } from './execute'
+import { transferOutcome, waitForTransferEnd } from './status'
+import type { LiFiQuote, LiFiRoute, LiFiStep } from './types'
+
+export interface LiFiChainClients {
+  // Wallet client on `chainId`, switching the wallet's network first if needed
+  getWalletClient(chainId: number): Promise<WalletClient>
+  getPublicClient(chainId: number): PublicClient | undefined
+}
+
+export interface LiFiRouteExecutionOptions extends LiFiExecutionOptions {
+  onStep?: (index: number, step: LiFiStep) => void // about to execute route.steps[index]
+  onStepSent?: (index: number, txHash: Hash) => void
+  signal?: AbortSignal // stops execution between steps and while waiting on one
+  stepMaxWaitMs?: number // longest wait for an intermediate step to arrive
+}
+
+// ─── Summaries ───
+
+/** Identifies a route across refreshes, which come back with new ids: its destination chain and tools, in order */
+export function routeKey(route: LiFiRoute): string {
+  return `${route.toChainId}:${route.steps.map(s => s.tool).join('>')}`
+}
+
+/** Tool names along the route, e.g. "Uniswap → Across" */
+export function routeTools(route: LiFiRoute): string {
+  return route.steps.map(s => s.toolDetails.name).join(' → ')
+}
+
+/** Estimated total execution time, in seconds */
+export function routeDuration(route: LiFiRoute): number {
+  return route.steps.reduce((sum, s) => sum + s.estimate.executionDuration, 0)
+}
+
+/** Protocol and bridge fees across all steps, in USD */
+export function routeFeesUSD(route: LiFiRoute): number {
+  return route.steps.reduce(
+    (sum, s) => sum + s.estimate.feeCosts.reduce((acc, f) => acc + parseFloat(f.amountUSD || '0'), 0),
+    0,
+  )
+}
+
+/** Gas across all steps, in USD */
+export function routeGasUSD(route: LiFiRoute): number {
+  if (route.gasCostUSD) return parseFloat(route.gasCostUSD)
+  return route.steps.reduce(
+    (sum, s) => sum + s.estimate.gasCosts.reduce((acc, g) => acc + parseFloat(g.amountUSD || '0'), 0),
+    0,
+  )
+}
+
+/**
+ * Value lost between input and output in USD (price impact plus protocol fees),
+ * as a fraction — 0.02 = 2%. Null when LI.FI has no USD prices for the tokens.
+ */
+export function routePriceImpact(route: LiFiRoute): number | null {
+  const fromUSD = parseFloat(route.fromAmountUSD ?? '')
+  const toUSD = parseFloat(route.toAmountUSD ?? '')
+  if (!(fromUSD > 0) || isNaN(toUSD)) return null
+  return Math.max(0, (fromUSD - toUSD) / fromUSD)
+}
+
+/**
+ * Routes to the same asset on several destination chains (one list per chain, each in
+ * LI.FI's order), flattened with the cheapest destination first. A destination is
+ * ranked by its best route's output net of gas — the route's own plus what still has
+ * to be spent on that chain afterwards (`destinationCostUSD`, by chain id, e.g. the
+ * custody approve + deposit) — in USD when LI.FI prices every route, else by output
+ * amount alone.
+ */
+export function cheapestDestinationFirst(
+  routesByDestination: LiFiRoute[][],
+  destinationCostUSD: Record<number, number> = {},
+): LiFiRoute[] {
+  const groups = routesByDestination.filter(routes => routes.length > 0)
+  const priced = groups.every(([best]) => best!.toAmountUSD !== undefined)
+  const netValue = (route: LiFiRoute) => priced
+    ? parseFloat(route.toAmountUSD!) - routeGasUSD(route) - (destinationCostUSD[route.toChainId] ?? 0)
+    : parseFloat(formatUnits(BigInt(route.toAmount), route.toToken.decimals))
+
+  return groups
+    .map(routes => ({ routes, value: netValue(routes[0]!) }))
+    .sort((a, b) => b.value - a.value)
+    .flatMap(group => group.routes)
+}
+
+/** A single quote as a one-step route, so it can be shown and executed like one */
+export function quoteToRoute(quote: LiFiQuote): LiFiRoute {
+  return {
+    id: quote.id,
+    fromChainId: quote.action.fromChainId,
+    toChainId: quote.action.toChainId,
+    fromToken: quote.action.fromToken,
+    toToken: quote.action.toToken,
+    fromAmount: quote.estimate.fromAmount,
+    toAmount: quote.estimate.toAmount,
+    toAmountMin: quote.estimate.toAmountMin,
+    fromAmountUSD: quote.estimate.fromAmountUSD,
+    toAmountUSD: quote.estimate.toAmountUSD,
+    steps: [quote],
+  }
+}
+
+export function formatDuration(seconds: number): string {
+  return seconds < 60 ? `~${seconds}s` : `~${Math.ceil(seconds / 60)} min`
+}
+
+// ─── Execution ───
+
+// Wait until an intermediate step has fully arrived; the next step spends its output
+async function waitForStep(txHash: Hash, step: LiFiQuote, options: LiFiRouteExecutionOptions): Promise<void> {
+  const status = await waitForTransferEnd(txHash, step, { signal: options.signal, maxWaitMs: options.stepMaxWaitMs })
+  const outcome = transferOutcome(status)
+  if (outcome === 'failed') {
+    throw new Error(status.substatusMessage || `${step.toolDetails.name} step failed`)
+  }
+  if (outcome === 'partial' || outcome === 'refunded') {
+    throw new Error(`${step.toolDetails.name} step ended ${outcome} — check your wallet before retrying`)
+  }
+}
+
+/**
+ * Execute a route step by step: populate each step's transaction, switch to its
+ * chain, approve if needed and send it. Every step but the last is awaited via
+ * /status (up to `stepMaxWaitMs`, or until `signal` aborts); the last step's hash
+ * and populated step are returned for tracking.
+ */
+export async function executeLiFiRoute(
+  route: LiFiRoute,
+  clients: LiFiChainClients,
+  { onStep, onStepSent, signal, stepMaxWaitMs, ...options }: LiFiRouteExecutionOptions = {},
+): Promise<{ txHash: Hash; step: LiFiQuote }> {
+  if (route.steps.length === 0) throw new Error('Route has no steps')
+
+  for (let i = 0; ; i++) {
+    if (signal?.aborted) throw new Error('Route execution stopped')
+    const isLast = i === route.steps.length - 1
+    onStep?.(i, route.steps[i]!)
+
+    const step = await lifiClient.getStepTransaction(route.steps[i]!)
+    const chainId = step.action.fromChainId
+    const walletClient = await clients.getWalletClient(chainId)
+    const publicClient = clients.getPublicClient(chainId)
+    if (!publicClient) throw new Error(`Chain ${chainId} is not configured in this app`)
+
+    const txHash = await executeLiFiQuote(walletClient, publicClient, step, options)
+    onStepSent?.(i, txHash)
+
+    if (isLast) return { txHash, step }
+    await waitForStep(txHash, step, { signal, stepMaxWaitMs })
+  }
+}
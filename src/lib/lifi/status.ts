@@ -0,0 +1,110 @@
+// LI.FI transfer outcomes — what actually arrived once /status is terminal,
+// and a bounded, cancellable /status poll for waiting until it is
+
+import { zeroAddress } from 'viem'
+import { lifiClient } from './client'
+import { isNativeToken } from './execute'
+import { getLiFiBudget } from './request'
+import type { LiFiStatus, LiFiStep, LiFiToken } from './types'
+
+const DEFAULT_POLL_MS = 5_000
+// Bridges normally land within minutes; past this the transfer needs a manual look
+const DEFAULT_MAX_WAIT_MS = 30 * 60_000
+
+// - pending:   still in flight (or not indexed yet)
+// - completed: the quoted token arrived
+// - partial:   a different token arrived (e.g. the bridge's own token on the destination chain)
+// - refunded:  the transfer was reverted and the source tokens returned
+// - failed:    failed without a refund (yet)
+export type LiFiTransferOutcome = 'pending' | 'completed' | 'partial' | 'refunded' | 'failed'
+
+export interface LiFiReceived {
+  token: LiFiToken // native tokens use the zero address
+  amount: bigint
+  chainId: number
+}
+
+export function transferOutcome(status: LiFiStatus | null): LiFiTransferOutcome {
+  if (status?.status === 'FAILED') return 'failed'
+  if (status?.status !== 'DONE') return 'pending'
+  if (status.substatus === 'REFUNDED') return 'refunded'
+  if (status.substatus === 'PARTIAL') return 'partial'
+  return 'completed'
+}
+
+/** What arrived (or came back): LI.FI's `receiving` when reported, else the quote's estimate */
+export function receivedFunds(status: LiFiStatus, quote: LiFiStep): LiFiReceived {
+  const token = status.receiving?.token ?? quote.action.toToken
+  return {
+    token: isNativeToken(token.address) ? { ...token, address: zeroAddress } : token,
+    amount: BigInt(status.receiving?.amount || quote.estimate.toAmount),
+    chainId: token.chainId ?? quote.action.toChainId,
+  }
+}
+
+// ─── Polling ───
+
+export interface LiFiStatusPollOptions {
+  signal?: AbortSignal // stops the poll, rejecting with an AbortError
+  maxWaitMs?: number // rejects with a LiFiStatusTimeoutError after this long
+  pollMs?: number
+}
+
+export class LiFiStatusTimeoutError extends Error {
+  constructor(minutes: number) {
+    super(`No final LI.FI status after ${minutes} min — check the transfer on the explorer before retrying`)
+    this.name = 'LiFiStatusTimeoutError'
+  }
+}
+
+function abortError(): Error {
+  const error = new Error('Stopped waiting for the LI.FI transfer')
+  error.name = 'AbortError'
+  return error
+}
+
+// Polls are stretched out as the LI.FI request budget runs low
+function pollInterval(pollMs: number): number {
+  const budget = getLiFiBudget()
+  const share = budget.remaining / budget.limit
+  return share <= 0.1 ? pollMs * 6 : share <= 0.25 ? pollMs * 3 : pollMs
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError())
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortError())
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Poll /status for a sent step until its transfer is no longer pending, and resolve
+ * with that final status. Rejects when `signal` aborts or after `maxWaitMs`.
+ */
+export async function waitForTransferEnd(
+  txHash: string,
+  step: LiFiStep,
+  { signal, maxWaitMs = DEFAULT_MAX_WAIT_MS, pollMs = DEFAULT_POLL_MS }: LiFiStatusPollOptions = {},
+): Promise<LiFiStatus> {
+  const deadline = Date.now() + maxWaitMs
+  for (;;) {
+    if (signal?.aborted) throw abortError()
+    // Not indexed yet or a network error — retry on the next poll
+    const status = await lifiClient
+      .getStatus(txHash, step.action.fromChainId, step.action.toChainId, step.tool)
+      .catch(() => null)
+    if (status && transferOutcome(status) !== 'pending') return status
+
+    const wait = Math.min(pollInterval(pollMs), deadline - Date.now())
+    if (wait <= 0) throw new LiFiStatusTimeoutError(Math.round(maxWaitMs / 60_000))
+    await sleep(wait, signal)
+  }
+}
@@ -18,15 +18,46 @@ export interface LiFiChain {
   nativeToken: LiFiToken
 }
 
-export interface LiFiQuoteRequest {
+// Tool keys (from /tools) to allow, deny or prefer when LI.FI picks bridges/exchanges
+export interface LiFiToolFilter {
+  allow?: string[]
+  deny?: string[]
+  prefer?: string[]
+}
+
+// Route ordering; /quote only supports CHEAPEST and FASTEST
+export type LiFiRouteOrder = 'CHEAPEST' | 'FASTEST' | 'SAFEST'
+
+// Routing preferences shared by /quote and /advanced/routes
+export interface LiFiQuoteOptions {
+  order?: LiFiRouteOrder   // default CHEAPEST
+  slippage?: number        // 0.01 = 1%, default 0.03
+  maxPriceImpact?: number  // 0.1 = 10%; LI.FI drops routes above it
+  bridges?: LiFiToolFilter
+  exchanges?: LiFiToolFilter
+  integrator?: string      // defaults to NEXT_PUBLIC_LIFI_INTEGRATOR
+  fee?: number             // integrator fee, 0.001 = 0.1%; defaults to NEXT_PUBLIC_LIFI_FEE
+}
+
+interface LiFiQuoteRequestBase extends LiFiQuoteOptions {
   fromChain: number
   toChain: number
   fromToken: string    // token address
   toToken: string      // token address
-  fromAmount: string   // in smallest unit (wei, etc.)
   fromAddress: string
   toAddress?: string   // defaults to fromAddress
-  slippage?: number    // 0.01 = 1%, default 0.03
+  fromAmountForGas?: string // part of the source amount swapped to native gas on toChain (refuel)
+}
+
+// Either spend an exact fromAmount, or receive an exact toAmount (reverse quote —
+// LI.FI works out the fromAmount). Amounts are in smallest units (wei, etc.).
+export type LiFiQuoteRequest = LiFiQuoteRequestBase & (
+  | { fromAmount: string; toAmount?: never }
+  | { toAmount: string; fromAmount?: never }
+)
+
+export interface LiFiRoutesRequest extends LiFiQuoteRequestBase {
+  fromAmount: string
 }
 
 export interface LiFiTransactionRequest {
@@ -42,6 +73,8 @@ export interface LiFiQuoteEstimate {
   fromAmount: string
   toAmount: string
   toAmountMin: string
+  fromAmountUSD?: string
+  toAmountUSD?: string
   approvalAddress: string
   feeCosts: Array<{
     name: string
@@ -58,7 +91,8 @@ export interface LiFiQuoteEstimate {
   executionDuration: number  // seconds
 }
 
-export interface LiFiQuote {
+// One step of a route; /quote returns a single step with its transaction already populated
+export interface LiFiStep {
   id: string
   type: string           // 'lifi' | 'swap' | 'cross'
   tool: string           // e.g., 'uniswap', 'across', 'stargate'
@@ -78,9 +112,30 @@ export interface LiFiQuote {
     toAddress: string
   }
   estimate: LiFiQuoteEstimate
+  includedSteps?: LiFiStep[]
+  transactionRequest?: LiFiTransactionRequest  // only once populated (/quote, /advanced/stepTransaction)
+}
+
+export interface LiFiQuote extends LiFiStep {
   transactionRequest: LiFiTransactionRequest
 }
 
+export interface LiFiRoute {
+  id: string
+  fromChainId: number
+  toChainId: number
+  fromToken: LiFiToken
+  toToken: LiFiToken
+  fromAmount: string
+  toAmount: string
+  toAmountMin: string
+  fromAmountUSD?: string
+  toAmountUSD?: string
+  gasCostUSD?: string
+  tags?: string[]        // e.g. 'RECOMMENDED', 'CHEAPEST', 'FASTEST'
+  steps: LiFiStep[]      // executed in order, each after the previous one completed
+}
+
 export type LiFiStatusType = 'NOT_FOUND' | 'INVALID' | 'PENDING' | 'DONE' | 'FAILED'
 
 export type LiFiSubstatus =
@@ -106,6 +161,18 @@ export interface LiFiStatus {
   receiving?: { amount: string; token: LiFiToken }
 }
 
+// A bridge or exchange from /tools
+export interface LiFiTool {
+  key: string
+  name: string
+  logoURI?: string
+}
+
+export interface LiFiTools {
+  bridges: LiFiTool[]
+  exchanges: LiFiTool[]
+}
+
 export interface LiFiToolError {
   errorType: string
   code: string
@@ -122,7 +189,10 @@ export interface LiFiError {
 // The service interface
 export interface LiFiService {
   getQuote(params: LiFiQuoteRequest): Promise<LiFiQuote>
+  getRoutes(params: LiFiRoutesRequest): Promise<LiFiRoute[]>
+  getStepTransaction(step: LiFiStep): Promise<LiFiQuote>
   getChains(): Promise<LiFiChain[]>
   getTokens(chainIds: number[]): Promise<Record<number, LiFiToken[]>>
+  getTools(): Promise<LiFiTools>
   getStatus(txHash: string, fromChain: number, toChain: number, bridge?: string): Promise<LiFiStatus>
 }
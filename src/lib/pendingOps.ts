@@ -0,0 +1,139 @@
+// Pending cross-chain operations — localStorage persistence layer
+//
+// Funding and Any Token payments run LI.FI swap/bridge → Yellow deposit (→ transfer).
+// Once the route's last transaction is sent, the operation is stored here and
+// advanced step by step, so a reload mid-bridge can pick it up again instead of
+// leaving bridged funds outside Yellow Network (or a payment unsent).
+
+import { formatUnits } from 'viem'
+import { findSettlementTokenByAddress } from '@/lib/constants'
+import { receivedFunds, transferOutcome } from '@/lib/lifi'
+import type { LiFiReceived, LiFiStatus, LiFiStep, LiFiToken } from '@/lib/lifi'
+import type { TxRecord } from '@/lib/txHistory'
+
+export type PendingOpKind = 'fund' | 'payment'
+
+// - swap:     LI.FI transaction sent, waiting for /status DONE
+// - deposit:  tokens arrived, custody deposit not confirmed yet (it may have been sent)
+// - transfer: deposited, payment to the recipient not sent yet (payments only)
+// - stopped:  refunded, or a token arrived that can't go on; kept until dismissed
+export type PendingOpStep = 'swap' | 'deposit' | 'transfer' | 'stopped'
+
+export interface PendingOp {
+  id: string // tx history record id
+  kind: PendingOpKind
+  wallet: string
+  step: PendingOpStep
+  txHash: string // last route step's transaction
+  depositTxHash?: string // custody deposit, recorded once broadcast; checked before depositing again
+  quote: LiFiStep // last route step: tool, chains, output token and estimate
+  // Payment fields
+  recipient?: string // as entered
+  recipientAddress?: string
+  asset?: string // Yellow Network asset sent to the recipient
+  amount?: string // human-readable amount sent to the recipient
+  exactOutput?: boolean // amount was fixed up front; otherwise the recipient gets what arrived
+  received?: { token: LiFiToken; chainId: number; amount: string } // what arrived, in token units
+  error?: string // last failure; the step is where to retry from
+  startedAt: number // Unix ms
+}
+
+// How a finished LI.FI transfer ended
+export interface Arrival {
+  outcome: 'completed' | 'partial' | 'refunded'
+  received: LiFiReceived
+  receivedAmount: string // human-readable
+  depositable: boolean // a Yellow settlement token on its chain, so it can go into custody
+  isQuotedToken: boolean // the token the quote promised
+}
+
+const STORAGE_KEY = 'yellowpay_pending_ops'
+
+function readAll(): PendingOp[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return []
+    return JSON.parse(raw) as PendingOp[]
+  } catch {
+    return []
+  }
+}
+
+function writeAll(ops: PendingOp[]): void {
+  if (typeof window === 'undefined') return
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(ops))
+  } catch {
+    // localStorage full or unavailable — silently ignore
+  }
+}
+
+/** Pending operations of `kind` started by `wallet`, oldest first */
+export function getPendingOps(wallet: string, kind: PendingOpKind): PendingOp[] {
+  return readAll()
+    .filter(op => op.kind === kind && op.wallet.toLowerCase() === wallet.toLowerCase())
+    .sort((a, b) => a.startedAt - b.startedAt)
+}
+
+export function savePendingOp(op: PendingOp): void {
+  const ops = readAll().filter(o => o.id !== op.id)
+  ops.push(op)
+  writeAll(ops)
+}
+
+/** Update a stored operation; no-op if it was already removed */
+export function updatePendingOp(id: string, updates: Partial<PendingOp>): void {
+  const ops = readAll()
+  const idx = ops.findIndex(o => o.id === id)
+  if (idx === -1) return
+  ops[idx] = { ...ops[idx]!, ...updates }
+  writeAll(ops)
+}
+
+export function removePendingOp(id: string): void {
+  writeAll(readAll().filter(o => o.id !== id))
+}
+
+// ─── Arrivals ───
+
+/** What a terminal LI.FI status delivered; null while pending or on a plain failure */
+export function describeArrival(status: LiFiStatus, quote: LiFiStep): Arrival | null {
+  const outcome = transferOutcome(status)
+  if (outcome === 'pending' || outcome === 'failed') return null
+
+  const received = receivedFunds(status, quote)
+  const quoted = receivedFunds({ ...status, receiving: undefined }, quote)
+  return {
+    outcome,
+    received,
+    receivedAmount: formatUnits(received.amount, received.token.decimals),
+    depositable: !!findSettlementTokenByAddress(received.chainId, received.token.address),
+    isQuotedToken: received.chainId === quoted.chainId
+      && received.token.address.toLowerCase() === quoted.token.address.toLowerCase(),
+  }
+}
+
+/** Why the flow stops here and what the user can do, or null if it can go on */
+export function arrivalProblem(arrival: Arrival, kind: PendingOpKind): string | null {
+  const got = `${arrival.receivedAmount} ${arrival.received.token.symbol}`
+  if (arrival.outcome === 'refunded') {
+    return `The transfer was refunded: ${got} went back to your wallet. Nothing reached Yellow Network — try again, ideally with a different route.`
+  }
+  if (kind === 'payment' && !arrival.isQuotedToken) {
+    return `${got} arrived instead of the quoted token, so the payment was not sent. The tokens are in your wallet — fund them from the Fund tab, then pay from your balance.`
+  }
+  if (!arrival.depositable) {
+    return `${got} arrived instead of the quoted token and can't be deposited to Yellow Network. The tokens are in your wallet — swap them to a supported token and fund again.`
+  }
+  return null
+}
+
+/** History fields recording what actually arrived */
+export function arrivalTxFields(arrival: Arrival): Pick<TxRecord, 'bridgeOutcome' | 'receivedToken' | 'receivedAmount'> {
+  return {
+    bridgeOutcome: arrival.outcome === 'completed' ? undefined : arrival.outcome,
+    receivedToken: arrival.received.token.symbol,
+    receivedAmount: arrival.receivedAmount,
+  }
+}
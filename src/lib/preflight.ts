@@ -0,0 +1,158 @@
+// Pre-flight checks — dry-run a transaction before the wallet is asked to sign it
+//
+// A transaction that reverts on-chain still costs its gas and leaves a failed entry in
+// the history. Every wallet-sent call (LI.FI swaps/bridges, Aave via LI.FI, custody
+// deposits) is simulated against the source chain first, so a revert or a wallet short
+// of gas is caught with a readable explanation instead.
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  ExecutionRevertedError,
+  InsufficientFundsError,
+  RawContractError,
+  decodeErrorResult,
+  formatUnits,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from 'viem'
+
+// - revert:  the call reverts on the current chain state
+// - gas:     the native balance doesn't cover value + gas
+// - balance: the token balance doesn't cover the amount
+export type PreflightIssue = 'revert' | 'gas' | 'balance'
+
+/** The transaction would fail — thrown before anything is sent to the wallet */
+export class PreflightError extends Error {
+  issue: PreflightIssue
+
+  constructor(message: string, issue: PreflightIssue) {
+    super(message)
+    this.name = 'PreflightError'
+    this.issue = issue
+  }
+}
+
+export interface PreflightCall {
+  account: Address
+  to: Address
+  data?: Hex
+  value?: bigint
+  gas?: bigint // gas limit it will be sent with; budgeted for if above the estimate
+}
+
+// Revert reasons worth rewording; matched case-insensitively against the decoded reason
+const KNOWN_REVERTS: Array<[RegExp, string]> = [
+  [/transfer amount exceeds balance|insufficient balance|STF\b/i, 'Your token balance is too low for this amount.'],
+  [/allowance/i, 'The token allowance is too low for this amount.'],
+  [/too little received|return amount is not enough|slippage|minimum|min.?amount/i,
+    'The price moved beyond your slippage tolerance. Refresh the quote and try again.'],
+  [/expired|deadline/i, 'The quote has expired. Refresh it and try again.'],
+  [/paused/i, 'The contract is paused right now. Try again later or pick another route.'],
+]
+
+function revertReason(error: BaseError): string | null {
+  const reverted = error.walk(e => e instanceof ContractFunctionRevertedError) as ContractFunctionRevertedError | null
+  if (reverted) return reverted.reason ?? reverted.data?.errorName ?? null
+
+  const raw = error.walk(e => e instanceof RawContractError) as RawContractError | null
+  const data = typeof raw?.data === 'object' ? raw.data.data : raw?.data
+  if (data && data !== '0x') {
+    try {
+      // Without the contract's ABI only Error(string) and Panic(uint256) decode
+      const decoded = decodeErrorResult({ abi: [], data })
+      return decoded.errorName === 'Error' ? String(decoded.args?.[0]) : `${decoded.errorName}(${decoded.args?.join(', ') ?? ''})`
+    } catch {
+      return `custom error ${data.slice(0, 10)}`
+    }
+  }
+
+  const execution = error.walk(e => e instanceof ExecutionRevertedError) as ExecutionRevertedError | null
+  const details = execution?.details?.replace(/^execution reverted:?\s*/i, '').trim()
+  return details || null
+}
+
+/** Whether a failed simulation means the call itself reverts (not an RPC or network problem) */
+export function isRevert(error: unknown): boolean {
+  if (!(error instanceof BaseError)) return false
+  return !!error.walk(e =>
+    e instanceof ContractFunctionRevertedError
+    || e instanceof ExecutionRevertedError
+    || e instanceof RawContractError
+    || e instanceof InsufficientFundsError)
+}
+
+/** A readable explanation of why a simulated call failed */
+export function describeRevert(error: unknown): string {
+  if (error instanceof BaseError) {
+    if (error.walk(e => e instanceof InsufficientFundsError)) {
+      return 'Your wallet doesn\'t have enough of the native token to pay for this transaction\'s value and gas.'
+    }
+    const reason = revertReason(error)
+    if (reason) {
+      const known = KNOWN_REVERTS.find(([pattern]) => pattern.test(reason))
+      return known ? `${known[1]} (${reason})` : `The transaction would revert: ${reason}.`
+    }
+    return `The transaction would revert: ${error.shortMessage}`
+  }
+  return error instanceof Error ? error.message : 'The transaction would revert.'
+}
+
+/** Gas price to budget with: the EIP-1559 max fee where supported, else the legacy gas price */
+async function feePerGas(publicClient: PublicClient): Promise<bigint> {
+  try {
+    const fees = await publicClient.estimateFeesPerGas()
+    return fees.maxFeePerGas ?? fees.gasPrice ?? await publicClient.getGasPrice()
+  } catch {
+    return publicClient.getGasPrice()
+  }
+}
+
+/** Fee for `gas` units at the current gas price */
+export async function estimateFee(publicClient: PublicClient, gas: bigint): Promise<bigint> {
+  return gas * await feePerGas(publicClient)
+}
+
+/** Throw a `PreflightError` unless `account` holds enough of the native token for `value` plus `fee` */
+export async function checkNativeBalance(
+  publicClient: PublicClient,
+  account: Address,
+  value: bigint,
+  fee: bigint,
+): Promise<void> {
+  const balance = await publicClient.getBalance({ address: account })
+  if (balance < value + fee) {
+    const currency = publicClient.chain?.nativeCurrency ?? { symbol: 'ETH', decimals: 18 }
+    const format = (amount: bigint) => `${parseFloat(formatUnits(amount, currency.decimals)).toPrecision(4)} ${currency.symbol}`
+    throw new PreflightError(
+      `Not enough ${currency.symbol} for this transaction: it needs about ${format(value + fee)}`
+      + `${value > BigInt(0) ? ` (${format(value)} + ${format(fee)} gas)` : ' for gas'}, your wallet has ${format(balance)}.`,
+      'gas',
+    )
+  }
+}
+
+/**
+ * Simulate `call` on the current chain state, then check the native balance covers
+ * its value and gas. Resolves with the gas limit to send it with; throws a
+ * `PreflightError` if it would fail. RPC and network errors are rethrown as they are.
+ */
+export async function simulateTransaction(publicClient: PublicClient, call: PreflightCall): Promise<bigint> {
+  const request = { account: call.account, to: call.to, data: call.data, value: call.value ?? BigInt(0) }
+
+  let estimate: bigint
+  try {
+    // eth_call first: it returns the revert data that estimateGas may drop
+    await publicClient.call(request)
+    estimate = await publicClient.estimateGas(request)
+  } catch (error) {
+    if (!isRevert(error)) throw error
+    const issue = error instanceof BaseError && error.walk(e => e instanceof InsufficientFundsError) ? 'gas' : 'revert'
+    throw new PreflightError(describeRevert(error), issue)
+  }
+
+  const gas = call.gas && call.gas > estimate ? call.gas : estimate
+  await checkNativeBalance(publicClient, call.account, request.value, await estimateFee(publicClient, gas))
+  return gas
+}
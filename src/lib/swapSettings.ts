@@ -0,0 +1,103 @@
+// Swap settings — user routing preferences for every LI.FI quote, persisted in localStorage
+
+import type { LiFiQuoteOptions, LiFiRoute } from '@/lib/lifi'
+import { routePriceImpact } from '@/lib/lifi'
+
+export interface SwapSettings {
+  slippage: number // 0.005 = 0.5%
+  maxPriceImpact: number // 0.1 = 10%; quotes above it are dropped, and flagged if one slips through
+  preferredBridges: string[] // LI.FI tool keys from /tools
+  blockedBridges: string[]
+  preferredExchanges: string[]
+  blockedExchanges: string[]
+}
+
+export const SLIPPAGE_PRESETS = [0.001, 0.005, 0.01, 0.03]
+export const MAX_PRICE_IMPACT_PRESETS = [0.01, 0.05, 0.1, 0.2]
+
+// Above this the settings popover warns that the swap may be front-run
+export const HIGH_SLIPPAGE = 0.05
+
+export const DEFAULT_SWAP_SETTINGS: SwapSettings = {
+  slippage: 0.03,
+  maxPriceImpact: 0.1,
+  preferredBridges: [],
+  blockedBridges: [],
+  preferredExchanges: [],
+  blockedExchanges: [],
+}
+
+const STORAGE_KEY = 'yellowpay_swap_settings'
+
+// Window event fired after settings are saved, so every form picks them up
+export const SWAP_SETTINGS_EVENT = 'yellowpay:swap-settings'
+
+/** Saved settings, falling back to the defaults for anything missing */
+export function getSwapSettings(): SwapSettings {
+  if (typeof window === 'undefined') return DEFAULT_SWAP_SETTINGS
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return DEFAULT_SWAP_SETTINGS
+    return { ...DEFAULT_SWAP_SETTINGS, ...(JSON.parse(raw) as Partial<SwapSettings>) }
+  } catch {
+    return DEFAULT_SWAP_SETTINGS
+  }
+}
+
+export function saveSwapSettings(settings: SwapSettings): void {
+  if (typeof window === 'undefined') return
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch {
+    // localStorage full or unavailable — settings last until reload
+  }
+  window.dispatchEvent(new CustomEvent(SWAP_SETTINGS_EVENT, { detail: settings }))
+}
+
+/** LI.FI quote/route options for the settings */
+export function toQuoteOptions(settings: SwapSettings): LiFiQuoteOptions {
+  return {
+    slippage: settings.slippage,
+    maxPriceImpact: settings.maxPriceImpact,
+    bridges: {
+      prefer: settings.preferredBridges.length ? settings.preferredBridges : undefined,
+      deny: settings.blockedBridges.length ? settings.blockedBridges : undefined,
+    },
+    exchanges: {
+      prefer: settings.preferredExchanges.length ? settings.preferredExchanges : undefined,
+      deny: settings.blockedExchanges.length ? settings.blockedExchanges : undefined,
+    },
+  }
+}
+
+/** Ways a quoted route breaks the user's thresholds, as user-facing messages */
+export function routeWarnings(route: LiFiRoute, settings: SwapSettings): string[] {
+  const warnings: string[] = []
+
+  const impact = routePriceImpact(route)
+  if (impact !== null && impact > settings.maxPriceImpact) {
+    warnings.push(
+      `Price impact ~${(impact * 100).toFixed(1)}% is above your ${(settings.maxPriceImpact * 100).toFixed(1)}% limit`,
+    )
+  }
+
+  // Each step can lose up to its slippage; compare the route's minimum with the user's tolerance
+  const toAmount = parseFloat(route.toAmount)
+  const toAmountMin = parseFloat(route.toAmountMin)
+  if (toAmount > 0 && (toAmount - toAmountMin) / toAmount > settings.slippage + 1e-9) {
+    warnings.push(
+      `Minimum received allows ~${(((toAmount - toAmountMin) / toAmount) * 100).toFixed(1)}% slippage, above your ${(settings.slippage * 100).toFixed(1)}% setting`,
+    )
+  }
+
+  const blocked = new Set([...settings.blockedBridges, ...settings.blockedExchanges])
+  const blockedTools = route.steps
+    .flatMap(step => [step, ...(step.includedSteps ?? [])])
+    .filter(step => blocked.has(step.tool))
+    .map(step => step.toolDetails.name)
+  if (blockedTools.length > 0) {
+    warnings.push(`Uses ${[...new Set(blockedTools)].join(', ')}, which you blocked`)
+  }
+
+  return warnings
+}
@@ -0,0 +1,229 @@
+// Sweep funding — consolidate many small wallet balances into Yellow Network at once
+//
+// Every selected token is swapped/bridged by LI.FI into the same settlement token on
+// one chain, and whatever arrived is deposited into custody in a single deposit.
+// Native tokens are never swept: they pay the gas for the swaps themselves.
+//
+// A running sweep is stored in localStorage after every change, so a reload can pick
+// it up again: transfers still bridging are tracked on, and what arrived can still be
+// deposited instead of staying in the wallet.
+
+import { erc20Abi, formatUnits, type Address, type PublicClient } from 'viem'
+import { isNativeToken, receivedFunds, transferOutcome, waitForTransferEnd } from '@/lib/lifi'
+import type { LiFiQuote, LiFiReceived, LiFiStatus, LiFiToken } from '@/lib/lifi'
+import type { SettlementToken } from '@/lib/constants'
+
+// balanceOf calls per multicall; busy chains list thousands of tokens
+const MULTICALL_BATCH_SIZE = 500
+// Transfers are polled one at a time; every poll counts against the LI.FI rate limit
+const STATUS_POLL_MS = 10_000
+// Longest wait for a transfer, from when it was sent; then it counts as failed
+const MAX_TRANSFER_WAIT_MS = 30 * 60_000
+
+const STORAGE_KEY = 'yellowpay_pending_sweeps'
+
+export interface SweepBalance {
+  chainId: number
+  token: LiFiToken
+  amount: bigint // smallest units
+  valueUSD: number
+}
+
+// - queued:   waiting its turn
+// - quoting:  fetching its LI.FI quote
+// - sending:  approval/transaction in the wallet
+// - bridging: sent, waiting for LI.FI to deliver
+// - done:     the settlement token arrived (or it already was one)
+// - failed:   quote, transaction or transfer failed; `error` says why
+export type SweepItemStatus = 'queued' | 'quoting' | 'sending' | 'bridging' | 'done' | 'failed'
+
+export interface SweepItem {
+  balance: SweepBalance
+  status: SweepItemStatus
+  quote?: LiFiQuote
+  txHash?: string
+  sentAt?: number // Unix ms; the transfer's wait is counted from here
+  received?: LiFiReceived // what arrived, once done
+  error?: string
+}
+
+// - sweeping: items being sent or bridged
+// - deposit:  transfers ended, the single custody deposit is not confirmed yet (it may have been sent)
+// - done:     deposited
+// - failed:   nothing arrived to deposit
+export type SweepStep = 'sweeping' | 'deposit' | 'done' | 'failed'
+
+export interface SweepRun {
+  id: string // tx history record id
+  wallet: string
+  target: SettlementToken
+  step: SweepStep
+  items: SweepItem[]
+  depositTxHash?: string // recorded once broadcast; checked before depositing again
+  error?: string // last failure; the step is where to retry from
+  startedAt: number // Unix ms
+}
+
+/** Whether `balance` already is `target`, so it can be deposited without LI.FI */
+export function isSettlementBalance(balance: SweepBalance, target: SettlementToken): boolean {
+  return balance.chainId === target.chainId
+    && balance.token.address.toLowerCase() === target.tokenAddress.toLowerCase()
+}
+
+/** Whether funds that arrived can go into the sweep's single deposit */
+export function isTargetFunds(received: LiFiReceived, target: SettlementToken): boolean {
+  return received.chainId === target.chainId
+    && received.token.address.toLowerCase() === target.tokenAddress.toLowerCase()
+}
+
+/** Total of the settlement token that arrived, in smallest units — the deposit amount */
+export function sweepTotal(run: SweepRun): bigint {
+  return run.items.reduce(
+    (sum, item) => item.status === 'done' && item.received && isTargetFunds(item.received, run.target)
+      ? sum + item.received.amount
+      : sum,
+    BigInt(0),
+  )
+}
+
+// ─── Balances ───
+
+/**
+ * ERC-20 balances of `owner` among `tokens` (one chain), read in batched multicalls.
+ * Only tokens LI.FI prices are read; zero balances are left out, the rest are
+ * returned most valuable first.
+ */
+export async function scanBalances(
+  publicClient: PublicClient,
+  chainId: number,
+  owner: Address,
+  tokens: LiFiToken[],
+): Promise<SweepBalance[]> {
+  const priced = tokens.filter(t => !isNativeToken(t.address) && parseFloat(t.priceUSD ?? '') > 0)
+
+  const balances: SweepBalance[] = []
+  for (let start = 0; start < priced.length; start += MULTICALL_BATCH_SIZE) {
+    const batch = priced.slice(start, start + MULTICALL_BATCH_SIZE)
+    const results = await publicClient.multicall({
+      contracts: batch.map(t => ({
+        address: t.address as Address,
+        abi: erc20Abi,
+        functionName: 'balanceOf' as const,
+        args: [owner] as const,
+      })),
+      allowFailure: true,
+    })
+
+    results.forEach((result, i) => {
+      if (result.status !== 'success' || !result.result) return
+      const token = batch[i]!
+      const amount = result.result as bigint
+      const valueUSD = (Number(amount) / 10 ** token.decimals) * parseFloat(token.priceUSD!)
+      balances.push({ chainId, token, amount, valueUSD })
+    })
+  }
+  return balances.sort((a, b) => b.valueUSD - a.valueUSD)
+}
+
+// ─── Transfers ───
+
+/**
+ * Wait for a sent item's transfer to end, up to MAX_TRANSFER_WAIT_MS after it was sent.
+ * Rejects with a LiFiStatusTimeoutError past that, or an AbortError when `signal` aborts.
+ */
+export function waitForTransfer(item: SweepItem, signal?: AbortSignal): Promise<LiFiStatus> {
+  const maxWaitMs = Math.max(0, (item.sentAt ?? Date.now()) + MAX_TRANSFER_WAIT_MS - Date.now())
+  return waitForTransferEnd(item.txHash!, item.quote!, { signal, maxWaitMs, pollMs: STATUS_POLL_MS })
+}
+
+/** A sent item once its transfer ended: done if the settlement token arrived, else failed and why */
+export function transferResult(
+  status: LiFiStatus,
+  quote: LiFiQuote,
+  target: SettlementToken,
+): Pick<SweepItem, 'status' | 'received' | 'error'> {
+  const outcome = transferOutcome(status)
+  if (outcome === 'failed') return { status: 'failed', error: status.substatusMessage || 'Transfer failed' }
+  const received = receivedFunds(status, quote)
+  if (outcome === 'refunded') return { status: 'failed', received, error: 'Refunded to your wallet' }
+  // A different token arrived: it stays in the wallet, out of the deposit
+  if (!isTargetFunds(received, target)) {
+    const amount = formatUnits(received.amount, received.token.decimals)
+    return { status: 'failed', received, error: `${amount} ${received.token.symbol} arrived instead — left in your wallet` }
+  }
+  return { status: 'done', received }
+}
+
+// ─── Persistence ───
+// Amounts are bigints in memory and decimal strings in storage
+
+type StoredAmount<T extends { amount: bigint }> = Omit<T, 'amount'> & { amount: string }
+
+interface StoredSweepItem extends Omit<SweepItem, 'balance' | 'received'> {
+  balance: StoredAmount<SweepBalance>
+  received?: StoredAmount<LiFiReceived>
+}
+
+interface StoredSweep extends Omit<SweepRun, 'items'> {
+  items: StoredSweepItem[]
+}
+
+function toStored(run: SweepRun): StoredSweep {
+  return {
+    ...run,
+    items: run.items.map(item => ({
+      ...item,
+      balance: { ...item.balance, amount: item.balance.amount.toString() },
+      received: item.received && { ...item.received, amount: item.received.amount.toString() },
+    })),
+  }
+}
+
+function fromStored(stored: StoredSweep): SweepRun {
+  return {
+    ...stored,
+    items: stored.items.map(item => ({
+      ...item,
+      balance: { ...item.balance, amount: BigInt(item.balance.amount) },
+      received: item.received && { ...item.received, amount: BigInt(item.received.amount) },
+    })),
+  }
+}
+
+function readAll(): StoredSweep[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return []
+    return JSON.parse(raw) as StoredSweep[]
+  } catch {
+    return []
+  }
+}
+
+function writeAll(sweeps: StoredSweep[]): void {
+  if (typeof window === 'undefined') return
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sweeps))
+  } catch {
+    // localStorage full or unavailable — silently ignore
+  }
+}
+
+/** The unfinished sweep started by `wallet`, if any (one runs at a time) */
+export function getPendingSweep(wallet: string): SweepRun | null {
+  const stored = readAll()
+    .filter(s => s.wallet.toLowerCase() === wallet.toLowerCase())
+    .sort((a, b) => b.startedAt - a.startedAt)[0]
+  return stored ? fromStored(stored) : null
+}
+
+/** Store a sweep while it is unfinished; once done or failed it is removed */
+export function savePendingSweep(run: SweepRun): void {
+  const others = readAll().filter(s => s.id !== run.id)
+  writeAll(run.step === 'sweeping' || run.step === 'deposit' ? [...others, toStored(run)] : others)
+}
+
+export function removePendingSweep(id: string): void {
+  writeAll(readAll().filter(s => s.id !== id))
+}
@@ -1,7 +1,11 @@
 // Transaction history — localStorage persistence layer
 
+import type { RPCTransaction } from '@erc7824/nitrolite'
+import type { SettlementStep } from '@/lib/yellow'
+
 export type TxType = 'payment' | 'fund' | 'withdraw' | 'earn_deposit' | 'earn_withdraw'
 export type TxStatus = 'pending' | 'completed' | 'failed'
+export type TxSource = 'local' | 'network' // recorded by this browser, or confirmed on the Yellow ledger
 
 export interface TxRecord {
   id: string
@@ -14,17 +18,31 @@ export interface TxRecord {
   // Payment fields
   recipient?: string // ENS/DNS name or address as entered
   recipientAddress?: string // resolved 0x address
+  direction?: 'outgoing' | 'incoming' // payments only; absent = outgoing
+  sender?: string // incoming payments: ENS name or address of the payer
+  senderAddress?: string
   // Wallet/Fund fields (LI.FI swap)
   sourceToken?: string // source token symbol
   sourceAmount?: string
   sourceChain?: string
   txHash?: string // on-chain transaction hash
+  bridgeOutcome?: 'partial' | 'refunded' // LI.FI delivered a different token, or refunded the source token
+  receivedToken?: string // symbol of what actually arrived (or came back on refund)
+  receivedAmount?: string // human-readable
+  gasRefuel?: string // native gas bought on the destination chain, e.g. '0.0006 ETH' (estimate)
   // Withdraw fields
   channelId?: string
+  withdrawKind?: 'full' | 'partial' | 'custody' | 'force' // full closes the channel; partial resizes it; custody withdraws unchannelled funds; force exits via an on-chain challenge
+  remainingAmount?: string // channel balance left after a partial withdrawal
+  settlementStep?: SettlementStep // on-chain progress; txHash is the close/resize (or challenge) transaction
+  withdrawalTxHash?: string // custody → wallet withdrawal
   // Earn fields
   vaultId?: string
   vaultName?: string
   yieldEarned?: string
+  // Yellow Network ledger fields
+  ledgerTxId?: number
+  source?: TxSource // absent = 'local'
 }
 
 const STORAGE_KEY = 'yellowpay_tx_history'
@@ -74,6 +92,11 @@ export function updateTx(id: string, updates: Partial<TxRecord>): void {
   writeAll(records)
 }
 
+/** Drop a record, e.g. one whose transaction was never sent */
+export function removeTx(id: string): void {
+  writeAll(readAll().filter(r => r.id !== id))
+}
+
 /** Get all records, optionally filtered by wallet address */
 export function getTxHistory(walletAddress?: string): TxRecord[] {
   const records = readAll()
@@ -93,3 +116,91 @@ export function clearTxHistory(): void {
   if (typeof window === 'undefined') return
   localStorage.removeItem(STORAGE_KEY)
 }
+
+// ─── Yellow Network ledger ───
+
+// Ledger transaction types shown in History (app-session and escrow movements are not)
+const LEDGER_TX_TYPES: Record<string, TxType> = {
+  transfer: 'payment',
+  deposit: 'fund',
+  withdrawal: 'withdraw',
+}
+
+// Local records without a ledger ID match a ledger transaction recorded within this window
+const MATCH_WINDOW_MS = 5 * 60_000
+
+function isChannelAccount(account: string): boolean {
+  return /^0x[0-9a-fA-F]{64}$/.test(account)
+}
+
+/** Normalize a ClearNode ledger transaction into a history record for `account` (null if not shown) */
+export function ledgerTxToRecord(tx: RPCTransaction, account: string): TxRecord | null {
+  const type = LEDGER_TX_TYPES[tx.txType]
+  if (!type) return null
+
+  const record: TxRecord = {
+    id: `ledger-${tx.id}`,
+    type,
+    status: 'completed',
+    timestamp: new Date(tx.createdAt).getTime(),
+    asset: tx.asset,
+    amount: tx.amount,
+    ledgerTxId: tx.id,
+    source: 'network',
+  }
+
+  if (type === 'payment') {
+    const incoming = tx.toAccount.toLowerCase() === account.toLowerCase()
+    if (incoming) {
+      record.direction = 'incoming'
+      record.sender = tx.fromAccountTag || tx.fromAccount
+      record.senderAddress = tx.fromAccount
+    } else {
+      record.direction = 'outgoing'
+      record.recipient = tx.toAccountTag || tx.toAccount
+      record.recipientAddress = tx.toAccount
+    }
+  } else {
+    const channel = [tx.fromAccount, tx.toAccount].find(isChannelAccount)
+    if (channel) record.channelId = channel
+  }
+
+  return record
+}
+
+function isSameTx(local: TxRecord, network: TxRecord): boolean {
+  if (local.ledgerTxId !== undefined) return local.ledgerTxId === network.ledgerTxId
+  if (local.status === 'failed' || local.type !== network.type) return false
+  if ((local.direction ?? 'outgoing') !== (network.direction ?? 'outgoing')) return false
+  if (local.asset.toLowerCase() !== network.asset.toLowerCase()) return false
+  if (Math.abs(parseFloat(local.amount) - parseFloat(network.amount)) > 1e-9) return false
+  if (Math.abs(local.timestamp - network.timestamp) > MATCH_WINDOW_MS) return false
+  if (local.type === 'payment' && local.recipientAddress && network.recipientAddress) {
+    return local.recipientAddress.toLowerCase() === network.recipientAddress.toLowerCase()
+  }
+  return true
+}
+
+/**
+ * Merge ledger records into local ones, newest first.
+ * A local record that matches a ledger transaction is kept (it has the richer
+ * details, e.g. the ENS name entered) and marked as confirmed by the network.
+ */
+export function mergeTxHistory(local: TxRecord[], network: TxRecord[]): TxRecord[] {
+  const matched = new Set<string>()
+
+  const merged = network.map(record => {
+    const match = local.find(l => !matched.has(l.id) && isSameTx(l, record))
+    if (!match) return record
+    matched.add(match.id)
+    return {
+      ...match,
+      status: 'completed' as const,
+      ledgerTxId: record.ledgerTxId,
+      source: 'network' as const,
+    }
+  })
+
+  return [...merged, ...local.filter(l => !matched.has(l.id))]
+    .sort((a, b) => b.timestamp - a.timestamp)
+}
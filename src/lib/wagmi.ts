@@ -1,5 +1,5 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit'
-import { mainnet, base, polygon, bsc, linea, baseSepolia, polygonAmoy, sepolia } from 'wagmi/chains'
+import { mainnet, base, polygon, bsc, linea, worldchain, xrplevm, baseSepolia, polygonAmoy, sepolia } from 'wagmi/chains'
 import { http, fallback } from 'viem'
 
 // Yellow Network supported chains:
@@ -16,6 +16,8 @@ export const config = getDefaultConfig({
     polygon,       // Yellow production
     bsc,           // Yellow production
     linea,         // Yellow production
+    worldchain,    // Yellow production
+    xrplevm,       // Yellow production
     baseSepolia,   // Yellow sandbox
     polygonAmoy,   // Yellow sandbox
     sepolia,       // Yellow sandbox
@@ -30,6 +32,8 @@ export const config = getDefaultConfig({
     [polygon.id]: http(),
     [bsc.id]: http(),
     [linea.id]: http(),
+    [worldchain.id]: http(),
+    [xrplevm.id]: http(),
     [baseSepolia.id]: http(),
     [polygonAmoy.id]: http(),
     [sepolia.id]: http(),
@@ -0,0 +1,17 @@
+// Ledger amount math — ClearNode ledger amounts are decimal strings; compare them at 18 decimals
+
+import { parseUnits, formatUnits } from 'viem'
+
+const PRECISION = 18
+
+export function toUnits(amount: string): bigint {
+  try {
+    return parseUnits(amount || '0', PRECISION)
+  } catch {
+    return BigInt(0)
+  }
+}
+
+export function fromUnits(units: bigint): string {
+  return formatUnits(units, PRECISION)
+}
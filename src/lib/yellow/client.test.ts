@@ -0,0 +1,326 @@
+// YellowClient against the local mock ClearNode (scripts/mock-clearnode.mjs)
+//
+//   npm test
+//
+// The mock runs as a child process on a free port. Every test starts from an empty
+// ledger (POST /reset); faults are injected through the mock's HTTP control API.
+
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { spawn, type ChildProcess } from 'node:child_process'
+import { createServer } from 'node:net'
+import WebSocket from 'ws'
+import { createWalletClient, http, type Address } from 'viem'
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import { baseSepolia } from 'viem/chains'
+import type { RPCAllowance } from '@erc7824/nitrolite'
+import { WebSocketTransport, YellowAllowanceError, YellowClient, YellowRpcError } from './client'
+import type { IncomingPayment, YellowClientEvents, YellowEventName } from './types'
+
+const ASSET = 'ytest.usd'
+const REQUEST_TIMEOUT_MS = 1_000
+const EVENT_TIMEOUT_MS = 5_000
+const BU_GRACE_MS = 2_000 // IncomingPaymentTracker's wait for the tr explaining a bu credit
+
+let mock: ChildProcess
+let port: number
+const clients: YellowClient[] = []
+
+// ─── Mock ClearNode ───
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer()
+    server.once('error', reject)
+    server.listen(0, () => {
+      const address = server.address()
+      server.close(() => resolve(typeof address === 'object' && address ? address.port : 0))
+    })
+  })
+}
+
+function startMock(): Promise<ChildProcess> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, ['scripts/mock-clearnode.mjs'], {
+      env: { ...process.env, MOCK_CLEARNODE_PORT: String(port), MOCK_ASSET: ASSET, MOCK_BALANCE: '100' },
+      stdio: ['ignore', 'pipe', 'inherit'],
+    })
+    const timer = setTimeout(() => {
+      child.kill()
+      reject(new Error('Mock ClearNode did not start'))
+    }, 20_000)
+    child.once('exit', code => {
+      clearTimeout(timer)
+      reject(new Error(`Mock ClearNode exited with code ${code}`))
+    })
+    child.stdout!.on('data', (chunk: Buffer) => {
+      if (chunk.toString().includes('listening')) {
+        clearTimeout(timer)
+        resolve(child)
+      }
+    })
+  })
+}
+
+async function control(method: 'POST' | 'DELETE', path: string, body?: object): Promise<void> {
+  const res = await fetch(`http://localhost:${port}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  if (!res.ok) throw new Error(`${method} ${path}: ${res.status}`)
+}
+
+function injectFault(method: string, mode: 'error' | 'timeout' | 'drop', message?: string): Promise<void> {
+  return control('POST', '/faults', { method, mode, message, times: 1 })
+}
+
+// ─── Clients ───
+
+function newClient(): YellowClient {
+  const transport = new WebSocketTransport(
+    `ws://localhost:${port}/ws`,
+    WebSocket as unknown as typeof globalThis.WebSocket,
+  )
+  const client = new YellowClient({ transport, requestTimeoutMs: REQUEST_TIMEOUT_MS, maxReconnectAttempts: 3 })
+  clients.push(client)
+  return client
+}
+
+// Authenticate a fresh wallet; the local account signs the EIP-712 challenge without RPC
+async function connectWallet(
+  allowances: RPCAllowance[] = [{ asset: ASSET, amount: '1000' }],
+): Promise<{ client: YellowClient; address: Address }> {
+  const account = privateKeyToAccount(generatePrivateKey())
+  const walletClient = createWalletClient({ account, chain: baseSepolia, transport: http() })
+  const client = newClient()
+  await client.authenticate({
+    walletClient,
+    address: account.address,
+    allowances,
+    scope: 'console',
+    expiresAt: BigInt(Math.floor(Date.now() / 1000) + 3600),
+  })
+  return { client, address: account.address }
+}
+
+// Resolve with the arguments of the next `event` (optionally the first matching `filter`)
+function nextEvent<E extends YellowEventName>(
+  client: YellowClient,
+  event: E,
+  filter: (...args: Parameters<YellowClientEvents[E]>) => boolean = () => true,
+): Promise<Parameters<YellowClientEvents[E]>> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      unsubscribe()
+      reject(new Error(`No ${event} event within ${EVENT_TIMEOUT_MS}ms`))
+    }, EVENT_TIMEOUT_MS)
+    const handler = ((...args: Parameters<YellowClientEvents[E]>) => {
+      if (!filter(...args)) return
+      clearTimeout(timer)
+      unsubscribe()
+      resolve(args)
+    }) as YellowClientEvents[E]
+    const unsubscribe = client.on(event, handler)
+  })
+}
+
+function collectIncoming(client: YellowClient): IncomingPayment[] {
+  const payments: IncomingPayment[] = []
+  client.on('incomingPayment', payment => payments.push(payment))
+  return payments
+}
+
+function balanceOf(balances: { asset: string; amount: string }[]): string | undefined {
+  return balances.find(b => b.asset === ASSET)?.amount
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// ─── Tests ───
+
+describe('YellowClient against the mock ClearNode', () => {
+  before(async () => {
+    port = await freePort()
+    mock = await startMock()
+  })
+
+  after(() => {
+    mock.removeAllListeners('exit')
+    mock.kill()
+  })
+
+  beforeEach(() => control('POST', '/reset'))
+
+  afterEach(() => {
+    while (clients.length) clients.pop()!.disconnect()
+  })
+
+  describe('authentication', () => {
+    it('authenticates a session key with the wallet signature', async () => {
+      const { client, address } = await connectWallet()
+
+      assert.equal(client.isAuthenticated, true)
+      assert.equal(client.connectionState, 'connected')
+      assert.equal(client.session?.walletAddress, address)
+      assert.ok(client.session?.jwtToken)
+      assert.equal(balanceOf(await client.getLedgerBalances()), '100')
+    })
+
+    it('restores a session from its JWT without the wallet', async () => {
+      const { client } = await connectWallet()
+      const session = client.session!
+
+      const restored = newClient()
+      await restored.restoreSession(session)
+
+      assert.equal(restored.isAuthenticated, true)
+      assert.equal(balanceOf(await restored.getLedgerBalances()), '100')
+    })
+
+    it('surfaces a rejected auth_verify as a YellowRpcError', async () => {
+      await injectFault('auth_verify', 'error', 'policy rejected')
+
+      await assert.rejects(connectWallet(), (error: unknown) =>
+        error instanceof YellowRpcError && error.message.includes('policy rejected'))
+    })
+  })
+
+  describe('transfer', () => {
+    it('moves ledger funds and reports them to the recipient once', async () => {
+      const sender = await connectWallet()
+      const recipient = await connectWallet()
+      await recipient.client.getLedgerBalances() // baseline for incoming detection
+      const incoming = collectIncoming(recipient.client)
+      const balanceUpdate = nextEvent(recipient.client, 'balanceUpdate')
+
+      await sender.client.transfer({ destination: recipient.address, allocations: [{ asset: ASSET, amount: '5' }] })
+      await balanceUpdate
+
+      assert.equal(balanceOf(await sender.client.getLedgerBalances()), '95')
+      assert.equal(incoming.length, 1)
+      assert.equal(incoming[0]!.amount, '5')
+      assert.equal(incoming[0]!.sender?.toLowerCase(), sender.address.toLowerCase())
+      assert.ok(incoming[0]!.ledgerTxId)
+    })
+
+    it('refuses a transfer over the session allowance before sending it', async () => {
+      const sender = await connectWallet([{ asset: ASSET, amount: '10' }])
+      const recipient = privateKeyToAccount(generatePrivateKey()).address
+
+      await assert.rejects(
+        sender.client.transfer({ destination: recipient, allocations: [{ asset: ASSET, amount: '20' }] }),
+        YellowAllowanceError,
+      )
+      assert.equal(balanceOf(await sender.client.getLedgerBalances()), '100')
+    })
+
+    it('surfaces the ClearNode error message', async () => {
+      const sender = await connectWallet()
+      const recipient = privateKeyToAccount(generatePrivateKey()).address
+
+      await assert.rejects(
+        sender.client.transfer({ destination: recipient, allocations: [{ asset: ASSET, amount: '500' }] }),
+        (error: unknown) => error instanceof YellowRpcError && error.message.includes('insufficient funds'),
+      )
+    })
+  })
+
+  describe('balance updates', () => {
+    it('reports a credit without a transfer as an incoming payment', async () => {
+      const { client, address } = await connectWallet()
+      await client.getLedgerBalances()
+      const payment = nextEvent(client, 'incomingPayment')
+
+      await control('POST', '/fund', { wallet: address, amount: '25', asset: ASSET })
+
+      const [credit] = await payment
+      assert.equal(credit.amount, '25')
+      assert.equal(credit.sender, undefined)
+    })
+
+    it('ignores balance updates before the first balance snapshot', async () => {
+      const { client, address } = await connectWallet()
+      const incoming = collectIncoming(client)
+      const balanceUpdate = nextEvent(client, 'balanceUpdate')
+
+      await control('POST', '/fund', { wallet: address, amount: '25', asset: ASSET })
+      await balanceUpdate
+
+      assert.equal(incoming.length, 0)
+    })
+
+    it('reports a transfer once when its tr is pushed twice', async () => {
+      const sender = await connectWallet()
+      const recipient = await connectWallet()
+      await recipient.client.getLedgerBalances()
+      await control('POST', '/transfer-pushes', { duplicate: true })
+      const incoming = collectIncoming(recipient.client)
+      const balanceUpdate = nextEvent(recipient.client, 'balanceUpdate')
+
+      await sender.client.transfer({ destination: recipient.address, allocations: [{ asset: ASSET, amount: '5' }] })
+      await balanceUpdate
+
+      assert.equal(incoming.length, 1)
+      assert.equal(incoming[0]!.amount, '5')
+    })
+
+    it('reports a transfer once, with its sender, when its bu arrives before its tr', async () => {
+      const sender = await connectWallet()
+      const recipient = await connectWallet()
+      await recipient.client.getLedgerBalances()
+      await control('POST', '/transfer-pushes', { balanceFirst: true })
+      const incoming = collectIncoming(recipient.client)
+      const transfer = nextEvent(recipient.client, 'transfer')
+
+      await sender.client.transfer({ destination: recipient.address, allocations: [{ asset: ASSET, amount: '5' }] })
+      await transfer
+      await delay(BU_GRACE_MS + 500) // past the window a held bu credit would be reported in
+
+      assert.equal(incoming.length, 1)
+      assert.equal(incoming[0]!.amount, '5')
+      assert.equal(incoming[0]!.sender?.toLowerCase(), sender.address.toLowerCase())
+    })
+  })
+
+  describe('injected faults', () => {
+    it('rejects an injected error without dropping the session', async () => {
+      const { client } = await connectWallet()
+      await injectFault('get_ledger_balances', 'error', 'ledger unavailable')
+
+      await assert.rejects(client.getLedgerBalances(), /ledger unavailable/)
+      assert.equal(client.isAuthenticated, true)
+      assert.equal(balanceOf(await client.getLedgerBalances()), '100')
+    })
+
+    it('times out an unanswered request and recovers on the next response', async () => {
+      const { client } = await connectWallet()
+      await injectFault('get_ledger_balances', 'timeout')
+
+      await assert.rejects(client.getLedgerBalances(), /Request timeout/)
+      assert.equal(client.connectionState, 'degraded')
+
+      await client.getLedgerBalances()
+      assert.equal(client.connectionState, 'connected')
+    })
+
+    it('fails a transfer cut off by a dropped connection, then reconnects with the JWT', async () => {
+      const { client, address } = await connectWallet()
+      const recipient = privateKeyToAccount(generatePrivateKey()).address
+      await injectFault('transfer', 'drop')
+      const reconnected = nextEvent(client, 'reconnected')
+
+      await assert.rejects(
+        client.transfer({ destination: recipient, allocations: [{ asset: ASSET, amount: '5' }] }),
+        /Connection lost/,
+      )
+      await reconnected
+
+      assert.equal(client.isAuthenticated, true)
+      assert.equal(client.session?.walletAddress, address)
+      // The dropped transfer was never applied, and is not replayed
+      await delay(100)
+      assert.equal(balanceOf(await client.getLedgerBalances()), '100')
+    })
+  })
+})
@@ -0,0 +1,754 @@
+// Yellow Network ClearNode RPC client (Nitrolite protocol over WebSocket)
+//
+// Framework-agnostic: owns the transport, request/response matching, the
+// reconnect supervisor and session authentication. React state lives in useYellow.
+
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
+import type { Address, Hex } from 'viem'
+import {
+  createAuthRequestMessage,
+  createAuthVerifyMessage,
+  createAuthVerifyMessageWithJWT,
+  createGetLedgerBalancesMessage,
+  createGetLedgerTransactionsMessageV2,
+  createGetAssetsMessageV2,
+  createTransferMessage,
+  createGetChannelsMessage,
+  createResizeChannelMessage,
+  createCloseChannelMessage,
+  createCreateChannelMessage,
+  createEIP712AuthMessageSigner,
+  createECDSAMessageSigner,
+  parseAuthChallengeResponse,
+  parseAuthVerifyResponse,
+  parseGetLedgerBalancesResponse,
+  parseGetLedgerTransactionsResponse,
+  parseGetAssetsResponse,
+  parseTransferResponse,
+  parseGetChannelsResponse,
+  parseResizeChannelResponse,
+  parseCloseChannelResponse,
+  parseCreateChannelResponse,
+  parseBalanceUpdateResponse,
+  parseChannelUpdateResponse,
+  parseTransferNotificationResponse,
+  parseAnyRPCResponse,
+  type MessageSigner,
+  type RPCAsset,
+  type RPCBalance,
+  type RPCChannelUpdateWithWallet,
+  type RPCTransaction,
+  type GetLedgerTransactionsFilters,
+  type PartialEIP712AuthMessage,
+  type EIP712AuthDomain,
+  type TransferRequestParams,
+  type TransferResponseParams,
+  type CreateChannelRequestParams,
+  type CreateChannelResponseParams,
+  type ResizeChannelRequestParams,
+  type ResizeChannelResponseParams,
+  type CloseChannelResponseParams,
+} from '@erc7824/nitrolite'
+
+import { YELLOW_WS_ENDPOINT } from '@/lib/constants'
+import { checkAllowance, recordSpend } from './policy'
+import { IncomingPaymentTracker } from './incoming'
+import type {
+  YellowService,
+  YellowSession,
+  YellowAuthRequest,
+  YellowClientConfig,
+  YellowClientEvents,
+  YellowConnectionDetail,
+  YellowConnectionState,
+  YellowEventName,
+  YellowTransport,
+  YellowTransportHandlers,
+} from './types'
+
+// Application name - used in both auth_request and EIP-712 domain (must match!)
+const DEFAULT_APPLICATION = 'yellowpay'
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 30_000
+
+// Reconnect backoff: 1s, 2s, 4s ... capped at 30s, with up to 30% jitter
+const RECONNECT_BASE_DELAY_MS = 1_000
+const RECONNECT_MAX_DELAY_MS = 30_000
+const DEFAULT_MAX_RECONNECT_ATTEMPTS = 8
+
+// Auth handshake methods are the only ones allowed on an unauthenticated transport
+const AUTH_METHODS = new Set(['auth_request', 'auth_verify'])
+
+// Read-only methods that are safe to resend after a reconnect.
+// Anything else (transfer, create/resize/close channel) may already have been
+// applied by the ClearNode, so it is failed instead of replayed.
+const REPLAYABLE_METHODS = new Set([
+  'get_ledger_balances',
+  'get_ledger_entries',
+  'get_ledger_transactions',
+  'get_channels',
+  'get_config',
+  'get_assets',
+  'ping',
+])
+
+interface PendingRequest {
+  message: string
+  method: string | null
+  sent: boolean
+  resolve: (data: string) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+/** Error returned by the ClearNode for a request (RPC method `error`) */
+export class YellowRpcError extends Error {
+  method?: string
+
+  constructor(message: string, method?: string) {
+    super(message)
+    this.name = 'YellowRpcError'
+    this.method = method
+  }
+}
+
+/** Transfer refused locally because it would exceed the session's spending policy */
+export class YellowAllowanceError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'YellowAllowanceError'
+  }
+}
+
+// nitrolite request format: { req: [requestId, method, params, timestamp], sig?: [...] }
+function parseRequestEnvelope(message: string): { requestId: number | null; method: string | null } {
+  try {
+    const parsed = JSON.parse(message)
+    if (parsed.req && Array.isArray(parsed.req) && parsed.req.length > 1) {
+      return { requestId: parsed.req[0], method: parsed.req[1] }
+    }
+  } catch {
+    // Not a nitrolite request
+  }
+  return { requestId: null, method: null }
+}
+
+function reconnectDelay(attempt: number): number {
+  const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS)
+  return delay + Math.random() * delay * 0.3
+}
+
+export function isSessionExpired(session: YellowSession): boolean {
+  return Number(session.expiresAt) * 1000 <= Date.now()
+}
+
+// ─── Transport ───
+
+/** Default transport: a single WebSocket. Pass a WebSocket implementation (e.g. `ws`) outside the browser. */
+export class WebSocketTransport implements YellowTransport {
+  private ws: WebSocket | null = null
+
+  constructor(
+    private readonly url: string = YELLOW_WS_ENDPOINT,
+    private readonly WebSocketImpl?: typeof WebSocket,
+  ) {}
+
+  get isOpen(): boolean {
+    return !!this.ws && this.ws.readyState === this.ws.OPEN
+  }
+
+  open(handlers: YellowTransportHandlers): Promise<void> {
+    this.close()
+
+    return new Promise((resolve, reject) => {
+      const Impl = this.WebSocketImpl ?? globalThis.WebSocket
+      if (!Impl) {
+        reject(new Error('WebSocket is not available in this environment'))
+        return
+      }
+
+      const ws = new Impl(this.url)
+      this.ws = ws
+      let opened = false
+
+      ws.onopen = () => {
+        opened = true
+        resolve()
+      }
+      ws.onerror = () => {
+        if (!opened) reject(new Error('WebSocket connection failed'))
+      }
+      ws.onmessage = (event: MessageEvent) => handlers.onMessage(String(event.data))
+      ws.onclose = () => {
+        // Ignore sockets that were replaced or closed on purpose
+        if (this.ws !== ws) return
+        this.ws = null
+        if (!opened) {
+          reject(new Error('WebSocket connection failed'))
+          return
+        }
+        handlers.onClose()
+      }
+    })
+  }
+
+  send(data: string): void {
+    if (!this.ws || !this.isOpen) throw new Error('WebSocket not connected')
+    this.ws.send(data)
+  }
+
+  close(): void {
+    const ws = this.ws
+    this.ws = null
+    ws?.close()
+  }
+}
+
+// ─── Client ───
+
+export class YellowClient implements YellowService {
+  private readonly transport: YellowTransport
+  private readonly application: string
+  private readonly requestTimeoutMs: number
+  private readonly maxReconnectAttempts: number
+  private readonly listeners = new Map<YellowEventName, Set<(...args: never[]) => void>>()
+
+  private signer: MessageSigner | null = null
+  // Session credentials kept after wallet authentication so the transport can be
+  // re-authenticated via JWT without another wallet prompt
+  private currentSession: YellowSession | null = null
+  private authenticated = false
+  private state: YellowConnectionState = 'disconnected'
+  private pending = new Map<number, PendingRequest>()
+  private reconnectAttempt = 0
+  private reconnectTimer?: ReturnType<typeof setTimeout>
+  private opening: Promise<void> | null = null
+  private readonly incoming = new IncomingPaymentTracker(payment => this.emit('incomingPayment', payment))
+
+  constructor(config: YellowClientConfig = {}) {
+    this.transport = config.transport ?? new WebSocketTransport(config.url ?? YELLOW_WS_ENDPOINT)
+    this.application = config.application ?? DEFAULT_APPLICATION
+    this.requestTimeoutMs = config.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS
+    this.maxReconnectAttempts = config.maxReconnectAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS
+  }
+
+  get connectionState(): YellowConnectionState {
+    return this.state
+  }
+
+  get isConnected(): boolean {
+    return this.transport.isOpen
+  }
+
+  get isAuthenticated(): boolean {
+    return this.authenticated && this.transport.isOpen
+  }
+
+  get session(): YellowSession | null {
+    return this.currentSession
+  }
+
+  // ─── Events ───
+
+  /** Subscribe to a server push or lifecycle event. Returns an unsubscribe function. */
+  on<E extends YellowEventName>(event: E, handler: YellowClientEvents[E]): () => void {
+    let handlers = this.listeners.get(event)
+    if (!handlers) {
+      handlers = new Set()
+      this.listeners.set(event, handlers)
+    }
+    handlers.add(handler)
+    return () => {
+      handlers.delete(handler)
+    }
+  }
+
+  private emit<E extends YellowEventName>(event: E, ...args: Parameters<YellowClientEvents[E]>): void {
+    const handlers = this.listeners.get(event)
+    if (!handlers) return
+    for (const handler of handlers) {
+      try {
+        (handler as (...a: Parameters<YellowClientEvents[E]>) => void)(...args)
+      } catch (error) {
+        console.error(`Yellow ${event} handler failed:`, error)
+      }
+    }
+  }
+
+  private setState(state: YellowConnectionState, detail: Partial<YellowConnectionDetail> = {}): void {
+    this.state = state
+    this.emit('connectionState', state, {
+      reconnectAttempt: detail.reconnectAttempt ?? this.reconnectAttempt,
+      error: detail.error,
+    })
+  }
+
+  // ─── Requests ───
+
+  /** Use a custom signer for private methods (authentication installs the session key signer) */
+  setSigner(signer: MessageSigner | null): void {
+    this.signer = signer
+  }
+
+  private requireSigner(): MessageSigner {
+    if (!this.signer) throw new Error('Not connected or not authenticated')
+    return this.signer
+  }
+
+  // Reject every pending request (used when the connection is given up on)
+  private failPending(reason: string, onlyUnsafe = false): void {
+    for (const [id, pending] of this.pending) {
+      if (onlyUnsafe && (!pending.sent || REPLAYABLE_METHODS.has(pending.method ?? ''))) continue
+      clearTimeout(pending.timer)
+      this.pending.delete(id)
+      pending.reject(new Error(reason))
+    }
+  }
+
+  // Send queued (not yet sent) requests once the transport is authenticated again
+  private flushPending(): void {
+    if (!this.transport.isOpen) return
+    for (const pending of this.pending.values()) {
+      if (pending.sent) continue
+      pending.sent = true
+      this.transport.send(pending.message)
+    }
+  }
+
+  // Single dispatcher for every frame on the transport:
+  // responses are matched to pending requests by ID, server pushes become events
+  private handleMessage(data: string): void {
+    let responseId: number | null = null
+    let method: string | null = null
+    try {
+      // nitrolite response format: { res: [requestId, method, params, timestamp], sig?: [...] }
+      const parsed = JSON.parse(data)
+      if (parsed.res && Array.isArray(parsed.res)) {
+        responseId = parsed.res[0]
+        method = parsed.res[1]
+      }
+    } catch {
+      return // Ignore non-RPC frames
+    }
+
+    const pending = responseId !== null ? this.pending.get(responseId) : undefined
+    if (pending && responseId !== null) {
+      clearTimeout(pending.timer)
+      this.pending.delete(responseId)
+      if (this.state === 'degraded' && this.authenticated) {
+        this.setState('connected')
+      }
+      pending.resolve(data)
+      return
+    }
+
+    // Server-initiated broadcasts ('assets', 'bu', 'cu', 'tr', ...) carry their own IDs
+    if (!this.authenticated) return
+    try {
+      if (method === 'bu') {
+        const balances = parseBalanceUpdateResponse(data).params.balanceUpdates
+        this.emit('balanceUpdate', balances)
+        this.incoming.onBalanceUpdate(balances)
+      } else if (method === 'cu') {
+        this.emit('channelUpdate', parseChannelUpdateResponse(data).params)
+      } else if (method === 'tr') {
+        const transactions = parseTransferNotificationResponse(data).params.transactions
+        this.emit('transfer', transactions)
+        if (this.currentSession) {
+          this.incoming.onTransactions(transactions, this.currentSession.walletAddress)
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to parse Yellow ${method} broadcast:`, error)
+    }
+  }
+
+  /** Send a signed RPC message and wait for the matching response (by request ID) */
+  sendMessage(message: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const { requestId, method } = parseRequestEnvelope(message)
+      if (requestId === null) {
+        reject(new Error('Invalid RPC request'))
+        return
+      }
+
+      const canSend = this.transport.isOpen && (this.authenticated || AUTH_METHODS.has(method ?? ''))
+
+      // While the supervisor is reconnecting, read-only requests wait in the queue;
+      // mutations are refused so they are never applied twice.
+      if (!canSend) {
+        if (this.state !== 'reconnecting') {
+          reject(new Error('WebSocket not connected'))
+          return
+        }
+        if (!REPLAYABLE_METHODS.has(method ?? '')) {
+          reject(new Error('Reconnecting to Yellow Network. Please try again in a moment.'))
+          return
+        }
+      }
+
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId)
+        if (this.authenticated && this.state === 'connected') {
+          this.setState('degraded')
+        }
+        reject(new Error('Request timeout'))
+      }, this.requestTimeoutMs)
+
+      this.pending.set(requestId, { message, method, sent: canSend, resolve, reject, timer })
+
+      if (canSend) this.transport.send(message)
+    })
+  }
+
+  // Send and throw the ClearNode's error message if the response is an error
+  private async request(message: string, fallbackError: string): Promise<string> {
+    const response = await this.sendMessage(message)
+    const parsed = parseAnyRPCResponse(response)
+    if (parsed.method === 'error') {
+      const errorParams = parsed.params as { error?: string }
+      throw new YellowRpcError(errorParams.error || fallbackError, parseRequestEnvelope(message).method ?? undefined)
+    }
+    return response
+  }
+
+  // ─── Connection supervisor ───
+
+  private open(): Promise<void> {
+    if (!this.opening) {
+      this.opening = this.transport
+        .open({
+          onMessage: data => this.handleMessage(data),
+          onClose: () => this.handleClose(),
+        })
+        .finally(() => {
+          this.opening = null
+        })
+    }
+    return this.opening
+  }
+
+  private cancelReconnect(): void {
+    clearTimeout(this.reconnectTimer)
+    this.reconnectTimer = undefined
+  }
+
+  // Schedule the next reconnect attempt, or give up after maxReconnectAttempts
+  private scheduleReconnect(): void {
+    this.cancelReconnect()
+    const attempt = this.reconnectAttempt
+
+    if (attempt >= this.maxReconnectAttempts) {
+      this.failPending('Yellow Network is offline')
+      this.setState('offline', {
+        error: 'Yellow Network is unreachable. Check your connection and retry.',
+      })
+      return
+    }
+
+    this.setState('reconnecting', { reconnectAttempt: attempt + 1 })
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectAttempt = attempt + 1
+      this.reconnect()
+    }, reconnectDelay(attempt))
+  }
+
+  // Transport dropped without disconnect() — keep the session and start the supervisor
+  private handleClose(): void {
+    this.authenticated = false
+
+    // Mutations in flight may or may not have been applied — fail them deterministically
+    this.failPending('Connection lost before the request was confirmed. Check your balance before retrying.', true)
+    // Replayable requests are resent once re-authenticated
+    for (const pending of this.pending.values()) pending.sent = false
+
+    const session = this.currentSession
+    if (!session) {
+      this.failPending('WebSocket not connected')
+      this.setState('disconnected')
+      return
+    }
+    if (isSessionExpired(session)) {
+      this.invalidateSession(session)
+      this.failPending('Session expired')
+      this.setState('disconnected', { error: 'Your session has expired. Please reconnect.' })
+      return
+    }
+
+    this.scheduleReconnect()
+  }
+
+  private invalidateSession(session: YellowSession): void {
+    this.currentSession = null
+    this.signer = null
+    this.emit('sessionInvalidated', session)
+  }
+
+  // Re-authenticate an open transport with the stored JWT (no wallet prompt)
+  private async authenticateWithSession(session: YellowSession): Promise<void> {
+    const verifyMsg = await createAuthVerifyMessageWithJWT(session.jwtToken)
+    const verifyResponse = await this.sendMessage(verifyMsg)
+
+    const parsedResponse = parseAnyRPCResponse(verifyResponse)
+    if (parsedResponse.method === 'error') {
+      const errorParams = parsedResponse.params as { error?: string }
+      throw new YellowRpcError(`Authentication error: ${errorParams.error || 'Session rejected'}`, 'auth_verify')
+    }
+
+    const verifyResult = parseAuthVerifyResponse(verifyResponse)
+    if (!verifyResult.params?.success) {
+      throw new YellowRpcError('Authentication error: Session rejected', 'auth_verify')
+    }
+
+    this.signer = createECDSAMessageSigner(session.privateKey)
+    this.authenticated = true
+  }
+
+  // One reconnect attempt: reopen the transport and restore the session
+  private async reconnect(): Promise<void> {
+    const session = this.currentSession
+    if (!session) return
+    if (this.transport.isOpen || this.opening) return
+
+    try {
+      await this.open()
+    } catch {
+      // Transport failed to open — try again later
+      if (this.currentSession) this.scheduleReconnect()
+      return
+    }
+
+    try {
+      await this.authenticateWithSession(session)
+    } catch (error) {
+      // Transport failures retry; a rejected session needs the wallet again
+      if (!(error instanceof YellowRpcError)) {
+        this.transport.close()
+        this.handleClose()
+        return
+      }
+      console.error('Yellow Network session restore failed:', error.message)
+      // Revoked or invalidated server-side — the next authenticate() prompts the wallet
+      this.invalidateSession(session)
+      this.failPending('Session could not be restored')
+      this.setState('degraded', {
+        error: 'Your session could not be restored. Please reconnect to re-authorize.',
+      })
+      return
+    }
+
+    this.reconnectAttempt = 0
+    this.setState('connected', { reconnectAttempt: 0 })
+    this.flushPending()
+    this.emit('reconnected')
+  }
+
+  /** Re-authenticate with a previously issued session (e.g. restored from storage) */
+  async restoreSession(session: YellowSession): Promise<void> {
+    this.cancelReconnect()
+    this.currentSession = session
+    this.incoming.reset()
+    this.reconnectAttempt = 0
+    this.setState('connecting')
+    await this.reconnect()
+  }
+
+  /** Manual retry (e.g. from the offline banner) — restarts the backoff schedule */
+  retry(): void {
+    if (!this.currentSession) return
+    this.cancelReconnect()
+    this.reconnectAttempt = 0
+    this.setState('reconnecting', { reconnectAttempt: 1 })
+    this.reconnect()
+  }
+
+  /** Network connectivity changed: go offline immediately, retry as soon as it is back */
+  setNetworkOnline(online: boolean): void {
+    if (!this.currentSession) return
+    if (online) {
+      if (this.state === 'offline' || this.state === 'reconnecting') this.retry()
+    } else if (this.state !== 'disconnected') {
+      this.cancelReconnect()
+      this.setState('offline')
+    }
+  }
+
+  // ─── Authentication ───
+
+  /**
+   * Authenticate a new session key with the wallet (EIP-712 signature).
+   * Follows: https://docs.yellow.org/docs/protocol/off-chain/authentication/
+   */
+  async authenticate({ walletClient, address, allowances, scope, expiresAt }: YellowAuthRequest): Promise<YellowSession> {
+    this.cancelReconnect()
+    this.setState('connecting')
+
+    try {
+      // Reuse a transport left open by a failed session restore, otherwise open a new one
+      if (!this.transport.isOpen) await this.open()
+
+      // Step 0: Generate session keypair locally (per official docs)
+      // "session_key: Wallet address of the locally-generated session keypair"
+      const sessionPrivateKey = generatePrivateKey()
+      const sessionKeyAddress = privateKeyToAccount(sessionPrivateKey).address
+
+      // Step 1: auth_request (public endpoint, no signature required)
+      const authRequestMsg = await createAuthRequestMessage({
+        address,
+        session_key: sessionKeyAddress,
+        application: this.application,
+        allowances,
+        expires_at: expiresAt,
+        scope,
+      })
+
+      const challengeResponse = await this.sendMessage(authRequestMsg)
+      const challenge = parseAuthChallengeResponse(challengeResponse)
+
+      // Step 2: Create EIP-712 signer for auth verification
+      // "EIP-712 domain name MUST match the application parameter from auth_request"
+      const eip712Domain: EIP712AuthDomain = {
+        name: this.application,
+      }
+
+      // PartialEIP712AuthMessage fields must match what was sent in auth_request
+      const partialMessage: PartialEIP712AuthMessage = {
+        scope,
+        session_key: sessionKeyAddress,
+        expires_at: expiresAt,
+        allowances,
+      }
+
+      // "The auth_verify signature MUST be an EIP-712 signature signed by the main wallet"
+      // Kept for the session's persistence, which derives its encryption key from it
+      const eip712Signer = createEIP712AuthMessageSigner(walletClient, partialMessage, eip712Domain)
+      let walletSignature: Hex | null = null
+      const authSigner: MessageSigner = async payload => (walletSignature = await eip712Signer(payload))
+
+      // Step 3: auth_verify (EIP-712 signature by main wallet)
+      const authVerifyMsg = await createAuthVerifyMessage(authSigner, challenge)
+      const verifyResponse = await this.sendMessage(authVerifyMsg)
+
+      // Check if response is an error before parsing as auth_verify
+      const parsedResponse = parseAnyRPCResponse(verifyResponse)
+      if (parsedResponse.method === 'error') {
+        const errorParams = parsedResponse.params as { error?: string }
+        const errorMsg = errorParams.error || 'Unknown authentication error'
+        console.error('Yellow Network auth error:', errorMsg)
+        throw new YellowRpcError(`Authentication error: ${errorMsg}`, 'auth_verify')
+      }
+
+      const verifyResult = parseAuthVerifyResponse(verifyResponse)
+      if (!verifyResult.params?.success || !verifyResult.params?.jwtToken) {
+        throw new Error('Authentication failed - verification unsuccessful')
+      }
+
+      // "All subsequent private method calls should be signed with the session key"
+      // Use SDK's createECDSAMessageSigner which signs with raw ECDSA (keccak256 hash)
+      // NOT signMessage which adds EIP-191 prefix
+      this.signer = createECDSAMessageSigner(sessionPrivateKey)
+      this.authenticated = true
+
+      const session: YellowSession = {
+        walletAddress: address,
+        privateKey: sessionPrivateKey,
+        sessionKeyAddress,
+        jwtToken: verifyResult.params.jwtToken,
+        expiresAt,
+        allowances,
+        scope,
+      }
+      this.currentSession = session
+      this.incoming.reset()
+      this.reconnectAttempt = 0
+      this.setState('connected', { reconnectAttempt: 0 })
+      this.emit('authenticated', session, walletSignature!)
+      return session
+    } catch (error) {
+      this.authenticated = false
+      this.transport.close()
+      this.setState('disconnected')
+      throw error
+    }
+  }
+
+  /** Close the transport and drop the in-memory session */
+  disconnect(): void {
+    this.cancelReconnect()
+    this.transport.close()
+    this.signer = null
+    this.currentSession = null
+    this.incoming.reset()
+    this.authenticated = false
+    this.reconnectAttempt = 0
+    this.failPending('Disconnected')
+    this.setState('disconnected', { reconnectAttempt: 0 })
+  }
+
+  // ─── RPC methods ───
+
+  async getLedgerBalances(accountId?: string): Promise<RPCBalance[]> {
+    const message = await createGetLedgerBalancesMessage(this.requireSigner(), accountId)
+    const response = await this.request(message, 'Failed to fetch balances')
+    const balances = parseGetLedgerBalancesResponse(response).params?.ledgerBalances || []
+    // The session wallet's own balances are the baseline for incoming payment detection
+    if (!accountId || accountId.toLowerCase() === this.currentSession?.walletAddress.toLowerCase()) {
+      this.incoming.setBalances(balances)
+    }
+    return balances
+  }
+
+  async getChannels(participant?: Address): Promise<RPCChannelUpdateWithWallet[]> {
+    const message = await createGetChannelsMessage(this.requireSigner(), participant)
+    const response = await this.request(message, 'Failed to fetch channels')
+    return parseGetChannelsResponse(response).params?.channels || []
+  }
+
+  async getLedgerTransactions(accountId: string, filters?: GetLedgerTransactionsFilters): Promise<RPCTransaction[]> {
+    // Public method — no session key signature needed
+    const message = createGetLedgerTransactionsMessageV2(accountId, filters)
+    const response = await this.request(message, 'Failed to fetch ledger transactions')
+    return parseGetLedgerTransactionsResponse(response).params?.ledgerTransactions || []
+  }
+
+  async getAssets(chainId?: number): Promise<RPCAsset[]> {
+    // Public method — no session key signature needed
+    const message = createGetAssetsMessageV2(chainId)
+    const response = await this.request(message, 'Failed to fetch assets')
+    return parseGetAssetsResponse(response).params?.assets || []
+  }
+
+  async transfer(params: TransferRequestParams): Promise<TransferResponseParams> {
+    // Refuse before signing if the session's spending caps would be exceeded
+    const session = this.currentSession
+    const allowanceError = session ? checkAllowance(session, params.allocations) : null
+    if (allowanceError) throw new YellowAllowanceError(allowanceError)
+
+    const message = await createTransferMessage(this.requireSigner(), params)
+    const response = await this.request(message, 'Transfer failed')
+
+    if (this.currentSession) {
+      this.currentSession = recordSpend(this.currentSession, params.allocations)
+      this.emit('sessionUpdated', this.currentSession)
+    }
+    return parseTransferResponse(response).params
+  }
+
+  async createChannel(params: CreateChannelRequestParams): Promise<CreateChannelResponseParams> {
+    const message = await createCreateChannelMessage(this.requireSigner(), params)
+    const response = await this.request(message, 'Channel creation failed')
+    return parseCreateChannelResponse(response).params
+  }
+
+  async resizeChannel(params: ResizeChannelRequestParams): Promise<ResizeChannelResponseParams> {
+    const message = await createResizeChannelMessage(this.requireSigner(), params)
+    const response = await this.request(message, 'Resize failed')
+    return parseResizeChannelResponse(response).params
+  }
+
+  async closeChannel(channelId: `0x${string}`, fundsDestination: Address): Promise<CloseChannelResponseParams> {
+    const message = await createCloseChannelMessage(this.requireSigner(), channelId, fundsDestination)
+    const response = await this.request(message, 'Channel close failed')
+    return parseCloseChannelResponse(response).params
+  }
+}
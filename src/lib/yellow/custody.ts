@@ -0,0 +1,244 @@
+// Custody contract balances — funds deposited on-chain that are not locked in a channel
+//
+// A deposit whose channel was never created, or funds released by a close/resize
+// that were not withdrawn yet, sit here until the wallet withdraws them.
+
+import {
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  encodeFunctionData,
+  erc20Abi,
+  zeroAddress,
+  type Address,
+  type Hash,
+  type PublicClient,
+  type TransactionReceipt,
+  type WalletClient,
+} from 'viem'
+import { CustodyAbi, type RPCAsset } from '@erc7824/nitrolite'
+
+import { SETTLEMENT_CHAINS, YELLOW_CHAINS, getContractsForChain } from '@/lib/constants'
+import { PreflightError, checkNativeBalance, estimateFee, simulateTransaction } from '@/lib/preflight'
+
+// Typical gas of funding custody after a route lands: an ERC-20 approve, then the deposit
+const APPROVE_GAS = BigInt(60_000)
+const DEPOSIT_GAS = BigInt(150_000)
+
+export interface CustodyBalance {
+  chainId: number
+  chainName: string
+  token: Address
+  symbol: string
+  decimals: number
+  amount: bigint // token units available to withdraw
+}
+
+// A token whose custody balance is read
+export interface CustodyToken {
+  chainId: number
+  token: Address
+  symbol: string
+  decimals: number
+}
+
+export interface CustodyReadError {
+  chainId: number
+  chainName: string
+  error: string
+}
+
+/**
+ * Tokens to read custody balances for: every settlement token on the environment's
+ * Yellow chains — known without the ClearNode — plus its `assets` when connected
+ * (the only source on testnets)
+ */
+export function custodyTokens(assets: RPCAsset[] = []): CustodyToken[] {
+  const chainIds = new Set(YELLOW_CHAINS.map(c => c.chainId))
+  const tokens: CustodyToken[] = Object.values(SETTLEMENT_CHAINS).flat()
+    .filter(t => chainIds.has(t.chainId))
+    .map(t => ({ chainId: t.chainId, token: t.tokenAddress as Address, symbol: t.symbol, decimals: t.decimals }))
+
+  for (const asset of assets) {
+    const known = tokens.some(t => t.chainId === asset.chainId && t.token.toLowerCase() === asset.token.toLowerCase())
+    if (!known) tokens.push({ chainId: asset.chainId, token: asset.token, symbol: asset.symbol, decimals: asset.decimals })
+  }
+  return tokens
+}
+
+/** Available custody balances of `wallet` for `tokens` (see custodyTokens), across all Yellow chains */
+export async function readCustodyBalances(
+  wallet: Address,
+  tokens: CustodyToken[],
+  getPublicClient: (chainId: number) => PublicClient | undefined,
+): Promise<{ balances: CustodyBalance[]; errors: CustodyReadError[] }> {
+  const balances: CustodyBalance[] = []
+  const errors: CustodyReadError[] = []
+
+  await Promise.all(YELLOW_CHAINS.map(async ({ chainId, name }) => {
+    const chainAssets = tokens.filter(t => t.chainId === chainId)
+    if (chainAssets.length === 0) return
+
+    const client = getPublicClient(chainId)
+    if (!client) {
+      errors.push({ chainId, chainName: name, error: 'No RPC configured for this chain' })
+      return
+    }
+
+    try {
+      const [amounts] = await client.readContract({
+        address: getContractsForChain(chainId).custody,
+        abi: CustodyAbi,
+        functionName: 'getAccountsBalances',
+        args: [[wallet], chainAssets.map(a => a.token)],
+      })
+      chainAssets.forEach((asset, i) => {
+        const amount = amounts[i] ?? BigInt(0)
+        if (amount > BigInt(0)) {
+          balances.push({ chainId, chainName: name, token: asset.token, symbol: asset.symbol, decimals: asset.decimals, amount })
+        }
+      })
+    } catch (error) {
+      console.error(`Failed to read custody balances on ${name}:`, error)
+      errors.push({ chainId, chainName: name, error: 'Could not read custody balances' })
+    }
+  }))
+
+  return { balances, errors }
+}
+
+/**
+ * Check a custody deposit before the wallet is prompted: the wallet holds `amount`, and
+ * the deposit simulates cleanly with its gas covered. When an approval is still missing
+ * the deposit can't be simulated yet, so only the approval's gas is checked (the deposit
+ * is gas-estimated, which reverts too, after approving). Throws a `PreflightError`.
+ */
+export async function preflightCustodyDeposit(
+  publicClient: PublicClient,
+  wallet: Address,
+  chainId: number,
+  token: Address,
+  amount: bigint,
+): Promise<void> {
+  const custody = getContractsForChain(chainId).custody
+  const isNative = token === zeroAddress
+
+  try {
+    const balance = isNative
+      ? await publicClient.getBalance({ address: wallet })
+      : await publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'balanceOf', args: [wallet] })
+    if (balance < amount) {
+      throw new PreflightError('Your wallet doesn\'t hold enough of this token for the deposit. Check the amount that arrived and try again.', 'balance')
+    }
+
+    const allowance = isNative
+      ? amount
+      : await publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'allowance', args: [wallet, custody] })
+    if (allowance < amount) {
+      const gas = await publicClient.estimateContractGas({
+        address: token,
+        abi: erc20Abi,
+        functionName: 'approve',
+        args: [custody, amount],
+        account: wallet,
+      })
+      await checkNativeBalance(publicClient, wallet, BigInt(0), await estimateFee(publicClient, gas))
+      return
+    }
+
+    await simulateTransaction(publicClient, {
+      account: wallet,
+      to: custody,
+      data: encodeFunctionData({ abi: CustodyAbi, functionName: 'deposit', args: [wallet, token, amount] }),
+      value: isNative ? amount : BigInt(0),
+    })
+  } catch (error) {
+    if (error instanceof PreflightError) throw error
+    // RPC unavailable — the deposit is still gas-estimated before it is sent
+    console.warn('Custody deposit simulation unavailable:', error)
+  }
+}
+
+/** Native fee of approving and depositing into custody on `publicClient`'s chain, at current gas prices */
+export function estimateCustodyDepositFee(publicClient: PublicClient): Promise<bigint> {
+  return estimateFee(publicClient, APPROVE_GAS + DEPOSIT_GAS)
+}
+
+// ─── Deposits ───
+
+/**
+ * Deposit `amount` of `token` from the wallet into custody, approving it first if the
+ * allowance is short. `onSubmitted` gets the deposit's hash as soon as it is broadcast,
+ * so a deposit interrupted by a reload can be checked (custodyDepositStatus) instead
+ * of sent a second time. Resolves with the hash once the deposit is mined.
+ */
+export async function depositToCustody(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  chainId: number,
+  token: Address,
+  amount: bigint,
+  onSubmitted?: (txHash: Hash) => void,
+): Promise<Hash> {
+  const account = walletClient.account
+  if (!account) throw new Error('Wallet not connected')
+  const custody = getContractsForChain(chainId).custody
+  const isNative = token === zeroAddress
+
+  if (!isNative) {
+    const allowance = await publicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [account.address, custody],
+    })
+    if (allowance < amount) {
+      const approvalTxHash = await walletClient.writeContract({
+        address: token,
+        abi: erc20Abi,
+        functionName: 'approve',
+        args: [custody, amount],
+        account,
+        chain: walletClient.chain,
+      })
+      const approval = await publicClient.waitForTransactionReceipt({ hash: approvalTxHash })
+      if (approval.status !== 'success') throw new Error('Token approval for the deposit reverted on-chain')
+    }
+  }
+
+  const txHash = await walletClient.writeContract({
+    address: custody,
+    abi: CustodyAbi,
+    functionName: 'deposit',
+    args: [account.address, token, amount],
+    value: isNative ? amount : BigInt(0),
+    account,
+    chain: walletClient.chain,
+  })
+  onSubmitted?.(txHash)
+
+  const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash })
+  if (receipt.status !== 'success') throw new Error('Custody deposit reverted on-chain')
+  return txHash
+}
+
+/**
+ * How a custody deposit sent earlier ended: 'confirmed' once mined successfully, 'failed'
+ * if it reverted or was dropped without being mined. Waits while it is still pending.
+ */
+export async function custodyDepositStatus(publicClient: PublicClient, txHash: Hash): Promise<'confirmed' | 'failed'> {
+  let receipt: TransactionReceipt
+  try {
+    receipt = await publicClient.getTransactionReceipt({ hash: txHash })
+  } catch (error) {
+    if (!(error instanceof TransactionReceiptNotFoundError)) throw error
+    // Not mined: still in the mempool, or dropped
+    try {
+      await publicClient.getTransaction({ hash: txHash })
+    } catch (txError) {
+      if (txError instanceof TransactionNotFoundError) return 'failed'
+      throw txError
+    }
+    receipt = await publicClient.waitForTransactionReceipt({ hash: txHash })
+  }
+  return receipt.status === 'success' ? 'confirmed' : 'failed'
+}
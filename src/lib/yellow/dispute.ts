@@ -0,0 +1,246 @@
+// Force exit — leave a channel on-chain without the ClearNode
+//
+// If the ClearNode refuses close_channel or is gone, the user challenges the channel
+// on the custody contract with the latest co-signed state. Once the challenge period
+// has passed without a newer state, the channel is closed with that state and the
+// user's allocation is withdrawn from custody. Progress is kept in localStorage so
+// the (day-long) flow survives reloads.
+//
+// The latest co-signed state is often newer than the chain's: every create/resize/close
+// response carries a state the ClearNode signed, which is saved here as it arrives.
+
+import type { Address, Hash, PublicClient, WalletClient } from 'viem'
+import {
+  ChannelStatus,
+  NitroliteClient,
+  NitroliteService,
+  StateIntent,
+  WalletStateSigner,
+  type RPCChannelOperation,
+  type State,
+} from '@erc7824/nitrolite'
+
+import { getContractsForChain } from '@/lib/constants'
+import {
+  fromStoredOperation,
+  toFinalState,
+  toStoredOperation,
+  waitForConfirmations,
+  withdrawFromCustody,
+  type SettlementProgress,
+  type StoredOperation,
+} from './settlement'
+
+// - challenging: challenge transaction sent, waiting for it to confirm
+// - challenged:  challenge period running
+// - closing:     close with the challenged state sent
+// - withdrawing: channel closed, withdrawing the allocation from custody
+// - done:        funds are in the wallet
+export type ForceExitStage = 'challenging' | 'challenged' | 'closing' | 'withdrawing' | 'done'
+
+export interface ForceExit {
+  channelId: `0x${string}`
+  chainId: number
+  wallet: string
+  token: Address
+  amount: string // token units allocated to the wallet in the challenged state
+  stage: ForceExitStage
+  challengeExpiry?: number // Unix seconds
+  challengeTxHash?: Hash
+  closeTxHash?: Hash
+  withdrawalTxHash?: Hash
+  error?: string // last failure; the stage is where to retry from
+  txId?: string // tx history record
+  startedAt: number // Unix ms
+}
+
+const STORAGE_KEY = 'yellowpay_force_exits'
+const SIGNED_STATES_KEY = 'yellowpay_signed_states'
+
+// ─── Persistence ───
+
+function readAll(): ForceExit[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return []
+    return JSON.parse(raw) as ForceExit[]
+  } catch {
+    return []
+  }
+}
+
+function writeAll(exits: ForceExit[]): void {
+  if (typeof window === 'undefined') return
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(exits))
+  } catch {
+    // localStorage full or unavailable — silently ignore
+  }
+}
+
+/** Force exits started by `wallet`, newest first */
+export function getForceExits(wallet: string): ForceExit[] {
+  return readAll()
+    .filter(e => e.wallet.toLowerCase() === wallet.toLowerCase())
+    .sort((a, b) => b.startedAt - a.startedAt)
+}
+
+/** Insert or update a force exit (keyed by channel) */
+export function saveForceExit(exit: ForceExit): void {
+  const exits = readAll().filter(e => e.channelId.toLowerCase() !== exit.channelId.toLowerCase())
+  exits.push(exit)
+  writeAll(exits)
+}
+
+export function removeForceExit(channelId: string): void {
+  writeAll(readAll().filter(e => e.channelId.toLowerCase() !== channelId.toLowerCase()))
+}
+
+// ─── Co-signed states ───
+// The newest ClearNode-signed state per channel, from create/resize/close responses
+
+interface SignedState {
+  wallet: string
+  operation: StoredOperation
+  savedAt: number // Unix ms
+}
+
+function readSignedStates(): SignedState[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const raw = localStorage.getItem(SIGNED_STATES_KEY)
+    if (!raw) return []
+    return JSON.parse(raw) as SignedState[]
+  } catch {
+    return []
+  }
+}
+
+function writeSignedStates(states: SignedState[]): void {
+  if (typeof window === 'undefined') return
+  try {
+    localStorage.setItem(SIGNED_STATES_KEY, JSON.stringify(states))
+  } catch {
+    // localStorage full or unavailable — silently ignore
+  }
+}
+
+/** Keep the state of a channel operation the ClearNode signed, unless a newer one is kept already */
+export function saveSignedState(wallet: string, operation: RPCChannelOperation): void {
+  const states = readSignedStates()
+  const channelId = operation.channelId.toLowerCase()
+  const current = states.find(s => s.operation.channelId.toLowerCase() === channelId)
+  if (current && current.operation.state.version > operation.state.version) return
+  writeSignedStates([
+    ...states.filter(s => s.operation.channelId.toLowerCase() !== channelId),
+    { wallet, operation: toStoredOperation(operation), savedAt: Date.now() },
+  ])
+}
+
+/** The newest ClearNode-signed state kept for `channelId`, if any */
+export function getSignedState(channelId: string): RPCChannelOperation | null {
+  const stored = readSignedStates().find(s => s.operation.channelId.toLowerCase() === channelId.toLowerCase())
+  return stored ? fromStoredOperation(stored.operation) : null
+}
+
+export function removeSignedState(channelId: string): void {
+  writeSignedStates(readSignedStates().filter(s => s.operation.channelId.toLowerCase() !== channelId.toLowerCase()))
+}
+
+// ─── On-chain steps ───
+
+function createNitroliteService(walletClient: WalletClient, publicClient: PublicClient, chainId: number) {
+  /* eslint-disable @typescript-eslint/no-explicit-any */
+  return new NitroliteService(publicClient as any, getContractsForChain(chainId), walletClient as any, walletClient.account)
+  /* eslint-enable @typescript-eslint/no-explicit-any */
+}
+
+// The state to challenge with: the saved ClearNode-signed one when it is newer than the
+// chain's (countersigned by the wallet now), else the chain's. A signed close isn't
+// challenged with — it can be settled directly (see PendingSettlement).
+async function challengeState(walletClient: WalletClient, channelId: `0x${string}`, onChain: State): Promise<State> {
+  const saved = getSignedState(channelId)
+  if (!saved || saved.state.intent === StateIntent.FINALIZE || BigInt(saved.state.version) <= onChain.version) {
+    return onChain
+  }
+
+  const { intent, version, data, allocations, serverSignature } = toFinalState(saved)
+  const state: State = { intent, version, data, allocations, sigs: [] }
+  /* eslint-disable-next-line @typescript-eslint/no-explicit-any */
+  const walletSignature = await new WalletStateSigner(walletClient as any).signState(channelId, state)
+  return { ...state, sigs: [walletSignature, serverSignature] }
+}
+
+/** Challenge `channelId` with its latest co-signed state */
+export async function startChallenge(
+  nitrolite: NitroliteClient,
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  channelId: `0x${string}`,
+  wallet: Address,
+  onSubmitted: (exit: Pick<ForceExit, 'challengeTxHash' | 'token' | 'amount'>) => void,
+): Promise<{ challengeExpiry: number }> {
+  const { lastValidState } = await nitrolite.getChannelData(channelId)
+  const candidateState = await challengeState(walletClient, channelId, lastValidState)
+  const allocation = candidateState.allocations.find(a => a.destination.toLowerCase() === wallet.toLowerCase())
+  if (!allocation) throw new Error('This wallet has no allocation in the channel')
+
+  const challengeTxHash = await nitrolite.challengeChannel({ channelId, candidateState })
+  onSubmitted({ challengeTxHash, token: allocation.token, amount: allocation.amount.toString() })
+  await waitForConfirmations(publicClient, challengeTxHash, () => {})
+
+  const { challengeExpiry } = await nitrolite.getChannelData(channelId)
+  return { challengeExpiry: Number(challengeExpiry) }
+}
+
+/** Reconcile a stored force exit with the channel's on-chain status (e.g. after a reload) */
+export async function syncForceExit(nitrolite: NitroliteClient, exit: ForceExit): Promise<ForceExit> {
+  if (exit.stage === 'withdrawing' || exit.stage === 'done') return exit
+
+  const { status, challengeExpiry } = await nitrolite.getChannelData(exit.channelId)
+  if (status === ChannelStatus.DISPUTE) {
+    return {
+      ...exit,
+      stage: exit.stage === 'closing' ? 'closing' : 'challenged',
+      challengeExpiry: Number(challengeExpiry),
+    }
+  }
+  // Closed (and cleared) on-chain: only the custody withdrawal is left
+  if (status === ChannelStatus.VOID || status === ChannelStatus.FINAL) {
+    return exit.stage === 'challenging' ? exit : { ...exit, stage: 'withdrawing' }
+  }
+  return exit
+}
+
+/** After the challenge period: close with the challenged state, then withdraw the allocation */
+export async function finalizeForceExit(
+  nitrolite: NitroliteClient,
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  exit: ForceExit,
+  onUpdate: (update: Partial<ForceExit>) => void,
+  onProgress?: (progress: Partial<SettlementProgress>) => void,
+): Promise<void> {
+  if (exit.stage === 'challenged' || exit.stage === 'closing') {
+    const { status, challengeExpiry, lastValidState } = await nitrolite.getChannelData(exit.channelId)
+    if (status === ChannelStatus.DISPUTE) {
+      if (Date.now() / 1000 < Number(challengeExpiry)) {
+        throw new Error('The challenge period has not ended yet')
+      }
+      // An expired dispute settles with the challenged state as it is
+      const service = createNitroliteService(walletClient, publicClient, exit.chainId)
+      const closeTxHash = await service.close(exit.channelId, lastValidState, [])
+      onUpdate({ stage: 'closing', closeTxHash })
+      await waitForConfirmations(publicClient, closeTxHash, () => {})
+    }
+    onUpdate({ stage: 'withdrawing' })
+  }
+
+  await withdrawFromCustody(nitrolite, publicClient, exit.token, BigInt(exit.amount), update => {
+    if (update.withdrawalTxHash) onUpdate({ withdrawalTxHash: update.withdrawalTxHash })
+    onProgress?.(update)
+  })
+  removeSignedState(exit.channelId)
+  onUpdate({ stage: 'done' })
+}
@@ -0,0 +1,126 @@
+// Incoming payment detection from ClearNode broadcasts
+//
+// A transfer to the session wallet arrives as `tr` (with the sender) and a `bu`
+// balance update, in either order. Transfers are reported from `tr`, once per ledger
+// tx id; the `bu` diff against the last known balances catches credits the node
+// announced without a `tr`. A `bu` carries no tx id, so its unexplained credit is held
+// for BU_GRACE_MS first: a `tr` arriving in that window absorbs it instead of the
+// same payment being reported twice.
+
+import type { RPCBalance, RPCTransaction } from '@erc7824/nitrolite'
+
+import { toUnits, fromUnits } from './amounts'
+import type { IncomingPayment } from './types'
+
+// How long a `bu` credit waits for the `tr` that explains it
+const BU_GRACE_MS = 2_000
+// Ledger tx ids remembered for deduplication
+const MAX_SEEN_TX_IDS = 500
+
+interface HeldCredit {
+  asset: string
+  amount: bigint
+  timer: ReturnType<typeof setTimeout>
+}
+
+export class IncomingPaymentTracker {
+  private balances: Map<string, bigint> | null = null // null until the first snapshot
+  private reported = new Map<string, bigint>() // credits already reported from `tr`, awaiting their `bu`
+  private held = new Map<string, HeldCredit>() // credits from `bu`, awaiting a `tr`
+  private seenTxIds = new Set<number>()
+
+  constructor(private readonly onPayment: (payment: IncomingPayment) => void) {}
+
+  reset(): void {
+    this.balances = null
+    this.reported.clear()
+    for (const { timer } of this.held.values()) clearTimeout(timer)
+    this.held.clear()
+    this.seenTxIds.clear()
+  }
+
+  /** Baseline from a get_ledger_balances response */
+  setBalances(balances: RPCBalance[]): void {
+    this.balances = new Map(balances.map(b => [b.asset.toLowerCase(), toUnits(b.amount)]))
+  }
+
+  /** Report the transfers in a `tr` broadcast that credit `wallet`, each ledger tx once */
+  onTransactions(transactions: RPCTransaction[], wallet: string): void {
+    const account = wallet.toLowerCase()
+    const incoming = transactions.filter(tx =>
+      tx.txType === 'transfer' &&
+      tx.toAccount.toLowerCase() === account &&
+      tx.fromAccount.toLowerCase() !== account &&
+      !this.seenTxIds.has(tx.id))
+
+    for (const tx of incoming) {
+      this.remember(tx.id)
+      const asset = tx.asset.toLowerCase()
+      // Whatever a held `bu` credit doesn't cover is still to come in a `bu`
+      const amount = toUnits(tx.amount) - this.absorbHeld(asset, toUnits(tx.amount))
+      if (amount > BigInt(0)) this.reported.set(asset, (this.reported.get(asset) ?? BigInt(0)) + amount)
+
+      this.onPayment({
+        asset: tx.asset,
+        amount: tx.amount,
+        sender: tx.fromAccount,
+        ledgerTxId: tx.id,
+        receivedAt: Date.now(),
+      })
+    }
+  }
+
+  /** Hold the credits in a `bu` broadcast not already reported from `tr`; reported after BU_GRACE_MS */
+  onBalanceUpdate(balances: RPCBalance[]): void {
+    const previous = this.balances
+    const next = new Map(previous ?? [])
+
+    for (const { asset, amount } of balances) {
+      const key = asset.toLowerCase()
+      const units = toUnits(amount)
+      next.set(key, units)
+
+      const increase = units - (previous?.get(key) ?? BigInt(0))
+      const unreported = increase - (this.reported.get(key) ?? BigInt(0))
+      this.reported.delete(key)
+
+      // No baseline yet: nothing to compare against
+      if (previous && unreported > BigInt(0)) this.hold(asset, unreported)
+    }
+
+    this.balances = next
+  }
+
+  private hold(asset: string, amount: bigint): void {
+    const key = asset.toLowerCase()
+    const existing = this.held.get(key)
+    if (existing) clearTimeout(existing.timer)
+    const timer = setTimeout(() => {
+      const credit = this.held.get(key)
+      this.held.delete(key)
+      if (credit) this.onPayment({ asset: credit.asset, amount: fromUnits(credit.amount), receivedAt: Date.now() })
+    }, BU_GRACE_MS)
+    this.held.set(key, { asset, amount: (existing?.amount ?? BigInt(0)) + amount, timer })
+  }
+
+  // Take up to `amount` off the asset's held credit; returns how much was taken
+  private absorbHeld(key: string, amount: bigint): bigint {
+    const credit = this.held.get(key)
+    if (!credit) return BigInt(0)
+    const absorbed = credit.amount < amount ? credit.amount : amount
+    if (credit.amount === absorbed) {
+      clearTimeout(credit.timer)
+      this.held.delete(key)
+    } else {
+      credit.amount -= absorbed
+    }
+    return absorbed
+  }
+
+  private remember(txId: number): void {
+    this.seenTxIds.add(txId)
+    if (this.seenTxIds.size > MAX_SEEN_TX_IDS) {
+      this.seenTxIds.delete(this.seenTxIds.values().next().value!)
+    }
+  }
+}
@@ -0,0 +1,61 @@
+// Yellow Network service — ClearNode RPC client + encrypted session storage
+
+export { YellowClient, YellowRpcError, YellowAllowanceError, WebSocketTransport, isSessionExpired } from './client'
+export { saveSession, loadSession, removeSession, SESSION_SAVED_EVENT } from './session'
+export {
+  DEFAULT_SESSION_CAP,
+  sessionPolicyAssets,
+  defaultSessionAllowances,
+  saveLastSessionPolicy,
+  getLastSessionPolicy,
+  validateSessionAllowances,
+  getAllowanceUsage,
+} from './policy'
+export { IncomingPaymentTracker } from './incoming'
+export {
+  REQUIRED_CONFIRMATIONS,
+  createNitroliteClient,
+  toFinalState,
+  settleChannelWithdrawal,
+  withdrawFromCustody,
+  getPendingSettlements,
+  savePendingSettlement,
+  removePendingSettlement,
+  SETTLEMENTS_CHANGED_EVENT,
+} from './settlement'
+export {
+  custodyTokens,
+  readCustodyBalances,
+  preflightCustodyDeposit,
+  estimateCustodyDepositFee,
+  depositToCustody,
+  custodyDepositStatus,
+} from './custody'
+export {
+  getForceExits,
+  saveForceExit,
+  removeForceExit,
+  saveSignedState,
+  startChallenge,
+  syncForceExit,
+  finalizeForceExit,
+} from './dispute'
+
+// Re-export types for convenience
+export type {
+  YellowService,
+  YellowSession,
+  YellowAuthRequest,
+  YellowClientConfig,
+  YellowClientEvents,
+  YellowConnectionDetail,
+  YellowConnectionState,
+  YellowEventName,
+  IncomingPayment,
+  YellowTransport,
+  YellowTransportHandlers,
+} from './types'
+export type { SessionAllowanceUsage } from './policy'
+export type { SettlementStep, SettlementProgress, SettlementRequest, PendingSettlement } from './settlement'
+export type { CustodyBalance, CustodyReadError, CustodyToken } from './custody'
+export type { ForceExit, ForceExitStage } from './dispute'
@@ -0,0 +1,136 @@
+// Session spending policy — which assets a session key may spend, and how much
+//
+// Caps are signed into the session at auth time (auth_request `allowances`); the
+// ClearNode enforces them, and spending is tracked here so the app can refuse a
+// transfer before it is sent.
+
+import type { RPCAllowance, RPCBalance } from '@erc7824/nitrolite'
+
+import { IS_SANDBOX, SANDBOX_ASSET, PRODUCTION_ASSETS, DEFAULT_ASSET, getAssetLabel } from '@/lib/constants'
+import { toUnits, fromUnits } from './amounts'
+import type { YellowSession } from './types'
+
+export interface SessionAllowanceUsage {
+  asset: string
+  cap: string
+  used: string
+  remaining: string
+}
+
+// Cap offered for an asset with no ledger balance or earlier policy to go by — the cap
+// every session was signed with before policies were configurable
+export const DEFAULT_SESSION_CAP = '1000000000'
+
+// Policy of each wallet's last authenticated session (caps only, no key material)
+const STORAGE_KEY = 'yellowpay_session_policies'
+
+function findAmount(list: RPCAllowance[] | undefined, asset: string): string | undefined {
+  return list?.find(a => a.asset.toLowerCase() === asset.toLowerCase())?.amount
+}
+
+/** Assets a session can be allowed to spend: the environment's assets plus anything held on the ledger */
+export function sessionPolicyAssets(balances: RPCBalance[]): string[] {
+  const assets: string[] = IS_SANDBOX ? [SANDBOX_ASSET] : Object.keys(PRODUCTION_ASSETS)
+  for (const b of balances) {
+    if (!assets.some(a => a.toLowerCase() === b.asset.toLowerCase())) assets.push(b.asset)
+  }
+  return assets
+}
+
+/**
+ * Default policy: every asset with a ledger balance, capped at that balance. Balances are
+ * only known once a session was authenticated (e.g. re-signing after expiry); before
+ * that, the wallet's last session policy, else the default asset at DEFAULT_SESSION_CAP.
+ */
+export function defaultSessionAllowances(balances: RPCBalance[], lastPolicy: RPCAllowance[] = []): RPCAllowance[] {
+  const funded = balances
+    .filter(b => toUnits(b.amount) > BigInt(0))
+    .map(b => ({ asset: b.asset, amount: b.amount }))
+  if (funded.length > 0) return funded
+  if (lastPolicy.length > 0) return lastPolicy
+  return [{ asset: DEFAULT_ASSET, amount: DEFAULT_SESSION_CAP }]
+}
+
+/** A policy is signable when it allows at least one asset and every cap is a positive amount */
+export function validateSessionAllowances(allowances: RPCAllowance[]): string | null {
+  if (allowances.length === 0) return 'Allow at least one asset for this session.'
+  const invalid = allowances.find(a => toUnits(a.amount) <= BigInt(0))
+  if (invalid) return `Enter a spending cap for ${getAssetLabel(invalid.asset)}.`
+  return null
+}
+
+/** Cap, spent and remaining amount per allowed asset */
+export function getAllowanceUsage(session: YellowSession | null): SessionAllowanceUsage[] {
+  if (!session) return []
+  return session.allowances.map(({ asset, amount }) => {
+    const cap = toUnits(amount)
+    const used = toUnits(findAmount(session.spent, asset) ?? '0')
+    const remaining = cap > used ? cap - used : BigInt(0)
+    return { asset, cap: amount, used: fromUnits(used), remaining: fromUnits(remaining) }
+  })
+}
+
+/** Why a transfer would exceed the session policy, or null if it fits */
+export function checkAllowance(session: YellowSession, allocations: RPCAllowance[]): string | null {
+  const usage = getAllowanceUsage(session)
+
+  for (const { asset, amount } of allocations) {
+    const label = getAssetLabel(asset)
+    const entry = usage.find(u => u.asset.toLowerCase() === asset.toLowerCase())
+    if (!entry) {
+      return `${label} is not covered by this session's spending policy. Reconnect and allow ${label} to send it.`
+    }
+    if (toUnits(amount) > toUnits(entry.remaining)) {
+      return `This payment exceeds your session allowance: ${entry.remaining} ${label} left of ${entry.cap} ${label}. ` +
+        'Reconnect with a higher cap to send more.'
+    }
+  }
+  return null
+}
+
+/** The session with a completed transfer added to its spent amounts */
+export function recordSpend(session: YellowSession, allocations: RPCAllowance[]): YellowSession {
+  const spent = [...(session.spent ?? [])]
+
+  for (const { asset, amount } of allocations) {
+    const index = spent.findIndex(s => s.asset.toLowerCase() === asset.toLowerCase())
+    const previous = index === -1 ? BigInt(0) : toUnits(spent[index].amount)
+    const entry = { asset, amount: fromUnits(previous + toUnits(amount)) }
+    if (index === -1) spent.push(entry)
+    else spent[index] = entry
+  }
+
+  return { ...session, spent }
+}
+
+// ─── Persistence ───
+
+function readAll(): Record<string, RPCAllowance[]> {
+  if (typeof window === 'undefined') return {}
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return {}
+    return JSON.parse(raw) as Record<string, RPCAllowance[]>
+  } catch {
+    return {}
+  }
+}
+
+function writeAll(policies: Record<string, RPCAllowance[]>): void {
+  if (typeof window === 'undefined') return
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(policies))
+  } catch {
+    // localStorage full or unavailable — the next session falls back to the default policy
+  }
+}
+
+/** Remember the policy `wallet` last authenticated a session with */
+export function saveLastSessionPolicy(wallet: string, allowances: RPCAllowance[]): void {
+  writeAll({ ...readAll(), [wallet.toLowerCase()]: allowances })
+}
+
+/** The policy `wallet` last authenticated a session with, or [] if none is stored */
+export function getLastSessionPolicy(wallet: string): RPCAllowance[] {
+  return readAll()[wallet.toLowerCase()] ?? []
+}
@@ -0,0 +1,229 @@
+// Yellow Network session persistence — encrypted localStorage layer
+//
+// The session private key is encrypted with AES-GCM before it touches localStorage.
+// The AES key is derived per wallet (HKDF, info = wallet address) from the wallet's
+// EIP-712 signature of the session's auth challenge, which is never stored. The
+// derived key is kept non-extractable in IndexedDB, so a reload decrypts without a
+// wallet prompt and the raw key material can never be read back by scripts — only
+// used through WebCrypto. Each wallet authentication derives a new key.
+
+import { hexToBytes, type Hex } from 'viem'
+
+import { isSessionExpired } from './client'
+import type { YellowSession } from './types'
+
+// Serialized form (bigint → string)
+type SerializedSession = Omit<YellowSession, 'expiresAt'> & { expiresAt: string }
+
+interface EncryptedEntry {
+  iv: string // base64
+  data: string // base64
+}
+
+const STORAGE_KEY = 'yellowpay_yellow_sessions'
+const DB_NAME = 'yellowpay'
+const DB_STORE = 'keys'
+const WALLET_KEY_PREFIX = 'session-key:' // + wallet address (lowercase)
+
+// Window event fired after a session is persisted (detail: wallet address), so other
+// client instances on the page can pick it up without a wallet prompt
+export const SESSION_SAVED_EVENT = 'yellowpay:session-saved'
+
+// ─── Encoding helpers ───
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (const b of bytes) binary += String.fromCharCode(b)
+  return btoa(binary)
+}
+
+function fromBase64(value: string) {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+function isSupported(): boolean {
+  return typeof window !== 'undefined' && !!window.crypto?.subtle && !!window.indexedDB
+}
+
+// ─── Wallet keys (IndexedDB) ───
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function idbGet<T>(db: IDBDatabase, key: string): Promise<T | undefined> {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(DB_STORE, 'readonly').objectStore(DB_STORE).get(key)
+    request.onsuccess = () => resolve(request.result as T | undefined)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function idbPut(db: IDBDatabase, key: string, value: unknown): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(DB_STORE, 'readwrite').objectStore(DB_STORE).put(value, key)
+    request.onsuccess = () => resolve()
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withDb<T>(run: (db: IDBDatabase) => Promise<T>): Promise<T> {
+  const db = await openDb()
+  try {
+    return await run(db)
+  } finally {
+    db.close()
+  }
+}
+
+// Per-wallet AES-GCM key: HKDF(wallet auth signature, info = wallet address)
+async function deriveWalletKey(walletAddress: string, walletSignature: Hex): Promise<CryptoKey> {
+  const secret = await crypto.subtle.importKey('raw', new Uint8Array(hexToBytes(walletSignature)), 'HKDF', false, ['deriveKey'])
+  const encoder = new TextEncoder()
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: encoder.encode('yellowpay-session-v2'),
+      info: encoder.encode(walletAddress.toLowerCase()),
+    },
+    secret,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+function getWalletKey(walletAddress: string): Promise<CryptoKey | undefined> {
+  return withDb(db => idbGet<CryptoKey>(db, WALLET_KEY_PREFIX + walletAddress.toLowerCase()))
+}
+
+function putWalletKey(walletAddress: string, key: CryptoKey): Promise<void> {
+  return withDb(db => idbPut(db, WALLET_KEY_PREFIX + walletAddress.toLowerCase(), key))
+}
+
+// ─── localStorage entries ───
+
+function readAll(): Record<string, EncryptedEntry> {
+  if (typeof window === 'undefined') return {}
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return {}
+    return JSON.parse(raw) as Record<string, EncryptedEntry>
+  } catch {
+    return {}
+  }
+}
+
+function writeAll(entries: Record<string, EncryptedEntry>): void {
+  if (typeof window === 'undefined') return
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries))
+  } catch {
+    // localStorage full or unavailable — session simply won't survive a reload
+  }
+}
+
+// ─── Public API ───
+
+/**
+ * Encrypt and persist the session for a wallet (replaces any previous one). A new session
+ * passes the wallet's auth signature to derive its key from; updates of it (spent amounts)
+ * reuse the key stored for the wallet.
+ */
+export function saveSession(session: YellowSession, walletSignature?: Hex): Promise<void> {
+  if (!isSupported()) return Promise.resolve()
+  // One save at a time, so an update can't be encrypted with the key a new session replaces
+  saving = saving.then(() => persist(session, walletSignature))
+  return saving
+}
+
+let saving: Promise<void> = Promise.resolve()
+
+async function persist(session: YellowSession, walletSignature?: Hex): Promise<void> {
+  try {
+    const serialized: SerializedSession = { ...session, expiresAt: session.expiresAt.toString() }
+    const key = walletSignature
+      ? await deriveWalletKey(session.walletAddress, walletSignature)
+      : await getWalletKey(session.walletAddress)
+    if (!key) throw new Error('No session key for this wallet — it is derived when the wallet signs in')
+    if (walletSignature) await putWalletKey(session.walletAddress, key)
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      key,
+      new TextEncoder().encode(JSON.stringify(serialized)),
+    )
+
+    const entries = readAll()
+    entries[session.walletAddress.toLowerCase()] = {
+      iv: toBase64(iv),
+      data: toBase64(new Uint8Array(ciphertext)),
+    }
+    writeAll(entries)
+    window.dispatchEvent(new CustomEvent(SESSION_SAVED_EVENT, { detail: session.walletAddress }))
+  } catch (error) {
+    console.error('Failed to persist Yellow session:', error)
+  }
+}
+
+/**
+ * Load and decrypt the stored session for a wallet. Expired or unreadable sessions are
+ * removed; when IndexedDB or WebCrypto fail otherwise (e.g. briefly unavailable) the
+ * session is kept for the next load.
+ */
+export async function loadSession(walletAddress: string): Promise<YellowSession | null> {
+  if (!isSupported()) return null
+  const entry = readAll()[walletAddress.toLowerCase()]
+  if (!entry) return null
+
+  let session: YellowSession
+  try {
+    const key = await getWalletKey(walletAddress)
+    // Without its key (e.g. IndexedDB was cleared) the session can't be decrypted again
+    if (!key) {
+      removeSession(walletAddress)
+      return null
+    }
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(entry.iv) },
+      key,
+      fromBase64(entry.data),
+    )
+    const serialized = JSON.parse(new TextDecoder().decode(plaintext)) as SerializedSession
+    session = { ...serialized, expiresAt: BigInt(serialized.expiresAt) }
+  } catch (error) {
+    // Encrypted with another key or corrupt — the session can't be recovered
+    if (isUnreadable(error)) removeSession(walletAddress)
+    else console.warn('Yellow session storage unavailable:', error)
+    return null
+  }
+
+  if (isSessionExpired(session)) {
+    removeSession(walletAddress)
+    return null
+  }
+  return session
+}
+
+// Decryption failed (wrong key or tampered data), or the entry isn't valid base64 / JSON
+function isUnreadable(error: unknown): boolean {
+  return (error instanceof DOMException && (error.name === 'OperationError' || error.name === 'InvalidCharacterError'))
+    || error instanceof SyntaxError
+}
+
+/** Forget the stored session for a wallet (disconnect, expiry or revocation) */
+export function removeSession(walletAddress: string): void {
+  const entries = readAll()
+  if (!(walletAddress.toLowerCase() in entries)) return
+  delete entries[walletAddress.toLowerCase()]
+  writeAll(entries)
+}
@@ -0,0 +1,257 @@
+// On-chain settlement of channel withdrawals
+//
+// close_channel / resize_channel only return a state co-signed by the ClearNode.
+// The user still submits it to the custody contract, then withdraws the released
+// funds from custody to their wallet. Only then have the funds actually arrived.
+// The signed state is kept in localStorage until then, so a failed or interrupted
+// settlement can be retried — the ClearNode won't sign the same withdrawal twice.
+
+import type { Address, Hash, PublicClient, WalletClient } from 'viem'
+import {
+  NitroliteClient,
+  WalletStateSigner,
+  type FinalState,
+  type RPCChannelOperation,
+} from '@erc7824/nitrolite'
+
+import { getContractsForChain } from '@/lib/constants'
+
+// - submitting:  close/resize transaction sent to the custody contract
+// - confirming:  waiting for confirmations of that transaction
+// - withdrawing: custody withdrawal to the wallet sent and confirming
+// - verifying:   checking the custody balance was paid out
+// - settled:     funds are in the wallet
+export type SettlementStep = 'submitting' | 'confirming' | 'withdrawing' | 'verifying' | 'settled'
+
+export interface SettlementProgress {
+  step: SettlementStep
+  channelTxHash?: Hash
+  withdrawalTxHash?: Hash
+  confirmations: number // of the transaction currently being confirmed
+}
+
+export interface SettlementRequest {
+  operation: RPCChannelOperation // close_channel / resize_channel response
+  kind: 'close' | 'resize'
+  token: Address
+  amount: bigint // token units leaving the channel (resize); close uses the wallet's final allocation
+  wallet: Address
+  onProgress?: (progress: SettlementProgress) => void
+  resumeFrom?: SettlementProgress // a previous attempt's progress: sent transactions aren't sent again
+}
+
+// A ClearNode-signed withdrawal not settled on-chain yet
+export interface PendingSettlement {
+  txId: string // tx history record
+  wallet: string
+  chainId: number
+  kind: 'close' | 'resize'
+  token: Address
+  amount: string // token units (see SettlementRequest.amount)
+  operation: RPCChannelOperation
+  progress?: SettlementProgress // last reported; where a retry resumes
+  error?: string // last failure
+  startedAt: number // Unix ms
+}
+
+export const REQUIRED_CONFIRMATIONS = 2
+const CONFIRMATION_POLL_MS = 4_000
+
+const STORAGE_KEY = 'yellowpay_pending_settlements'
+
+// Window event fired after unsettled withdrawals change, so every panel on the page reloads them
+export const SETTLEMENTS_CHANGED_EVENT = 'yellowpay:settlements-changed'
+
+// ─── Persistence ───
+// Allocation amounts are bigints in the operation and decimal strings in storage
+
+export type StoredOperation = Omit<RPCChannelOperation, 'state'> & {
+  state: Omit<RPCChannelOperation['state'], 'allocations'> & {
+    allocations: Array<{ destination: Address; token: Address; amount: string }>
+  }
+}
+
+export function toStoredOperation(operation: RPCChannelOperation): StoredOperation {
+  return {
+    ...operation,
+    state: {
+      ...operation.state,
+      allocations: operation.state.allocations.map(a => ({ ...a, amount: a.amount.toString() })),
+    },
+  }
+}
+
+export function fromStoredOperation(stored: StoredOperation): RPCChannelOperation {
+  return {
+    ...stored,
+    state: {
+      ...stored.state,
+      allocations: stored.state.allocations.map(a => ({ ...a, amount: BigInt(a.amount) })),
+    },
+  }
+}
+
+type StoredSettlement = Omit<PendingSettlement, 'operation'> & { operation: StoredOperation }
+
+function readAll(): StoredSettlement[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return []
+    return JSON.parse(raw) as StoredSettlement[]
+  } catch {
+    return []
+  }
+}
+
+function writeAll(settlements: StoredSettlement[]): void {
+  if (typeof window === 'undefined') return
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settlements))
+    window.dispatchEvent(new CustomEvent(SETTLEMENTS_CHANGED_EVENT))
+  } catch {
+    // localStorage full or unavailable — silently ignore
+  }
+}
+
+/** Unsettled withdrawals of `wallet`, oldest first */
+export function getPendingSettlements(wallet: string): PendingSettlement[] {
+  return readAll()
+    .filter(s => s.wallet.toLowerCase() === wallet.toLowerCase())
+    .sort((a, b) => a.startedAt - b.startedAt)
+    .map(s => ({ ...s, operation: fromStoredOperation(s.operation) }))
+}
+
+/** Insert or update an unsettled withdrawal (keyed by its history record) */
+export function savePendingSettlement(settlement: PendingSettlement): void {
+  const stored: StoredSettlement = { ...settlement, operation: toStoredOperation(settlement.operation) }
+  writeAll([...readAll().filter(s => s.txId !== settlement.txId), stored])
+}
+
+export function removePendingSettlement(txId: string): void {
+  writeAll(readAll().filter(s => s.txId !== txId))
+}
+
+// ─── On-chain steps ───
+
+export function createNitroliteClient(walletClient: WalletClient, publicClient: PublicClient, chainId: number) {
+  /* eslint-disable @typescript-eslint/no-explicit-any */
+  return new NitroliteClient({
+    publicClient: publicClient as any,
+    walletClient: walletClient as any,
+    addresses: getContractsForChain(chainId),
+    chainId,
+    challengeDuration: BigInt(86400), // 24 hours
+    stateSigner: new WalletStateSigner(walletClient as any),
+  })
+  /* eslint-enable @typescript-eslint/no-explicit-any */
+}
+
+/** The ClearNode-signed state of a channel operation, in the form the custody contract takes */
+export function toFinalState(operation: RPCChannelOperation): FinalState {
+  return {
+    channelId: operation.channelId,
+    intent: operation.state.intent,
+    version: BigInt(operation.state.version),
+    data: operation.state.stateData,
+    allocations: operation.state.allocations.map(a => ({ ...a, amount: BigInt(a.amount) })),
+    serverSignature: operation.serverSignature,
+  }
+}
+
+/** Wait for a successful receipt, then for REQUIRED_CONFIRMATIONS blocks */
+export async function waitForConfirmations(
+  publicClient: PublicClient,
+  hash: Hash,
+  onConfirmations: (confirmations: number) => void,
+): Promise<void> {
+  const receipt = await publicClient.waitForTransactionReceipt({ hash })
+  if (receipt.status !== 'success') throw new Error('Transaction reverted on-chain')
+
+  for (;;) {
+    const head = await publicClient.getBlockNumber()
+    const confirmations = Math.min(Number(head - receipt.blockNumber) + 1, REQUIRED_CONFIRMATIONS)
+    onConfirmations(confirmations)
+    if (confirmations >= REQUIRED_CONFIRMATIONS) return
+    await new Promise(resolve => setTimeout(resolve, CONFIRMATION_POLL_MS))
+  }
+}
+
+/**
+ * Submit a close/resize on-chain, withdraw the released funds from custody and verify the payout.
+ * With `resumeFrom`, a channel transaction already sent is awaited instead of sent again,
+ * and a custody withdrawal already sent is checked before withdrawing anew.
+ */
+export async function settleChannelWithdrawal(
+  nitrolite: NitroliteClient,
+  publicClient: PublicClient,
+  { operation, kind, token, amount, wallet, onProgress, resumeFrom }: SettlementRequest,
+): Promise<SettlementProgress> {
+  let progress: SettlementProgress = { step: 'submitting', confirmations: 0, channelTxHash: resumeFrom?.channelTxHash }
+  const report = (update: Partial<SettlementProgress>) => {
+    progress = { ...progress, ...update }
+    onProgress?.(progress)
+  }
+  report({})
+
+  // 1. Close or resize the channel on-chain (unless an earlier attempt already did)
+  const finalState = toFinalState(operation)
+  const channelSettled = resumeFrom?.step === 'withdrawing' || resumeFrom?.step === 'verifying'
+  if (!channelSettled) {
+    let channelTxHash = resumeFrom?.channelTxHash
+    if (!channelTxHash) {
+      if (kind === 'close') {
+        channelTxHash = await nitrolite.closeChannel({ finalState, stateData: finalState.data })
+      } else {
+        const { lastValidState } = await nitrolite.getChannelData(operation.channelId)
+        channelTxHash = (await nitrolite.resizeChannel({ resizeState: finalState, proofStates: [lastValidState] })).txHash
+      }
+    }
+    report({ step: 'confirming', channelTxHash })
+    await waitForConfirmations(publicClient, channelTxHash, confirmations => report({ confirmations }))
+  }
+
+  // 2. Withdraw what the channel released from custody to the wallet
+  if (resumeFrom?.withdrawalTxHash) {
+    const receipt = await publicClient.getTransactionReceipt({ hash: resumeFrom.withdrawalTxHash }).catch(() => null)
+    if (receipt?.status === 'success') {
+      report({ step: 'settled', withdrawalTxHash: resumeFrom.withdrawalTxHash })
+      return progress
+    }
+  }
+  const released = kind === 'close'
+    ? finalState.allocations.find(a => a.destination.toLowerCase() === wallet.toLowerCase())?.amount ?? BigInt(0)
+    : amount
+  await withdrawFromCustody(nitrolite, publicClient, token, released, report)
+
+  report({ step: 'settled' })
+  return progress
+}
+
+/**
+ * Withdraw available custody funds to the wallet (capped at the available balance)
+ * and verify the custody balance went down. Resolves with the withdrawn amount.
+ */
+export async function withdrawFromCustody(
+  nitrolite: NitroliteClient,
+  publicClient: PublicClient,
+  token: Address,
+  amount: bigint,
+  report: (update: Partial<SettlementProgress>) => void = () => {},
+): Promise<bigint> {
+  const custodyBefore = await nitrolite.getAccountBalance(token)
+  const withdrawAmount = amount < custodyBefore ? amount : custodyBefore
+  if (withdrawAmount <= BigInt(0)) throw new Error('No funds available in custody for this token')
+
+  const withdrawalTxHash = await nitrolite.withdrawal(token, withdrawAmount)
+  report({ step: 'withdrawing', withdrawalTxHash, confirmations: 0 })
+  await waitForConfirmations(publicClient, withdrawalTxHash, confirmations => report({ confirmations }))
+
+  // The custody balance must have gone down by the withdrawn amount
+  report({ step: 'verifying' })
+  const custodyAfter = await nitrolite.getAccountBalance(token)
+  if (custodyBefore - custodyAfter < withdrawAmount) {
+    throw new Error('Custody withdrawal did not reach your wallet')
+  }
+  return withdrawAmount
+}
@@ -0,0 +1,134 @@
+// Yellow Network service types
+
+import type { Address, Hex, WalletClient } from 'viem'
+import type {
+  MessageSigner,
+  RPCAllowance,
+  RPCAsset,
+  RPCBalance,
+  RPCChannelUpdate,
+  RPCChannelUpdateWithWallet,
+  RPCTransaction,
+  GetLedgerTransactionsFilters,
+  TransferRequestParams,
+  TransferResponseParams,
+  CreateChannelRequestParams,
+  CreateChannelResponseParams,
+  ResizeChannelRequestParams,
+  ResizeChannelResponseParams,
+  CloseChannelResponseParams,
+} from '@erc7824/nitrolite'
+
+// Connection lifecycle
+// - connecting:   first connect + wallet authentication in progress
+// - connected:    transport open and session authenticated
+// - reconnecting: transport dropped, supervisor is retrying with backoff
+// - degraded:     transport open but requests time out, or the session could not be restored
+// - offline:      reconnect attempts exhausted (or network offline) — user action needed
+export type YellowConnectionState =
+  | 'disconnected'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'degraded'
+  | 'offline'
+
+// Authenticated session: the locally generated session key plus the JWT the
+// ClearNode issued for it. Enough to re-authenticate without a wallet prompt.
+export interface YellowSession {
+  walletAddress: string
+  privateKey: `0x${string}`
+  sessionKeyAddress: string
+  jwtToken: string
+  expiresAt: bigint // Unix seconds
+  allowances: RPCAllowance[] // per-asset spending caps signed into the session
+  spent?: RPCAllowance[] // amounts transferred under this session, per asset
+  scope: string
+}
+
+export interface YellowAuthRequest {
+  walletClient: WalletClient // signs the EIP-712 auth challenge
+  address: Address
+  allowances: RPCAllowance[]
+  scope: string
+  expiresAt: bigint // Unix seconds
+}
+
+// Pluggable transport — the default is a browser/Node WebSocket
+export interface YellowTransportHandlers {
+  onMessage(data: string): void
+  onClose(): void // unexpected close only; close() never triggers it
+}
+
+export interface YellowTransport {
+  readonly isOpen: boolean
+  open(handlers: YellowTransportHandlers): Promise<void>
+  send(data: string): void
+  close(): void
+}
+
+export interface YellowConnectionDetail {
+  reconnectAttempt: number
+  error?: string // user-facing reason when the supervisor gives up or the session is lost
+}
+
+export interface YellowClientConfig {
+  url?: string // defaults to YELLOW_WS_ENDPOINT
+  transport?: YellowTransport // defaults to a WebSocketTransport on `url`
+  application?: string // must match the EIP-712 domain name
+  requestTimeoutMs?: number
+  maxReconnectAttempts?: number
+}
+
+// Credit to the session wallet's ledger balance, detected from server pushes.
+// Transfers carry the sender and ledger ID; a bare balance increase has neither.
+export interface IncomingPayment {
+  asset: string
+  amount: string
+  sender?: `0x${string}`
+  ledgerTxId?: number
+  receivedAt: number // ms
+}
+
+// Server pushes and lifecycle notifications
+export interface YellowClientEvents {
+  connectionState: (state: YellowConnectionState, detail: YellowConnectionDetail) => void
+  authenticated: (session: YellowSession, walletSignature: Hex) => void // the wallet's EIP-712 auth signature
+  sessionUpdated: (session: YellowSession) => void // spent amounts changed
+  sessionInvalidated: (session: YellowSession) => void
+  reconnected: () => void
+  balanceUpdate: (balances: RPCBalance[]) => void
+  channelUpdate: (channel: RPCChannelUpdate) => void
+  transfer: (transactions: RPCTransaction[]) => void
+  incomingPayment: (payment: IncomingPayment) => void
+}
+
+export type YellowEventName = keyof YellowClientEvents
+
+// The service interface
+export interface YellowService {
+  readonly connectionState: YellowConnectionState
+  readonly isConnected: boolean
+  readonly isAuthenticated: boolean
+  readonly session: YellowSession | null
+
+  authenticate(request: YellowAuthRequest): Promise<YellowSession>
+  restoreSession(session: YellowSession): Promise<void>
+  retry(): void
+  setNetworkOnline(online: boolean): void
+  disconnect(): void
+
+  setSigner(signer: MessageSigner | null): void
+  sendMessage(message: string): Promise<string>
+
+  getLedgerBalances(accountId?: string): Promise<RPCBalance[]>
+  getChannels(participant?: Address): Promise<RPCChannelUpdateWithWallet[]>
+  getLedgerTransactions(accountId: string, filters?: GetLedgerTransactionsFilters): Promise<RPCTransaction[]>
+  getAssets(chainId?: number): Promise<RPCAsset[]>
+  transfer(params: TransferRequestParams): Promise<TransferResponseParams>
+  createChannel(params: CreateChannelRequestParams): Promise<CreateChannelResponseParams>
+  resizeChannel(params: ResizeChannelRequestParams): Promise<ResizeChannelResponseParams>
+  closeChannel(channelId: `0x${string}`, fundsDestination: Address): Promise<CloseChannelResponseParams>
+
+  on<E extends YellowEventName>(event: E, handler: YellowClientEvents[E]): () => void
+}